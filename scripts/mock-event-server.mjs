@@ -0,0 +1,190 @@
+// Local mock of the board backend for trying out live updates.
+//
+//   node scripts/mock-event-server.mjs [port]
+//
+// Serves one in-memory board on GET /boards/:boardId and pushes events on
+// /boards/:boardId/events over SSE. WebSocket upgrades are refused so the
+// client's SSE fallback is exercised. Every few seconds a simulated teammate
+// edits or moves a random card; POST /__emit with a JSON body broadcasts an
+// arbitrary event (its version is filled in). Any username/password signs in.
+//
+// It is the default API base of the "Local" environment profile: pick that
+// profile on the settings page (/settings), or make it the default with
+// { "profile": "local" } in a /config.json (see README, Configuration).
+
+import http from "node:http";
+
+const PORT = Number(process.argv[2]) || 8787;
+const TICK_MS = 5000;
+
+const now = Date.now();
+const board = {
+  boardId: "694fe0d7e3fa03c0dee63367",
+  name: "Mock Board",
+  version: 1,
+  columns: [
+    { id: "todo", title: "To Do", order: 1 },
+    { id: "doing", title: "In Progress", order: 2 },
+    { id: "done", title: "Done", order: 3 },
+  ],
+  cardsById: {},
+  columnCardIds: { todo: [], doing: [], done: [] },
+};
+
+["Login bug", "Sprint report", "Onboarding copy", "Dark mode"].forEach(
+  (title, i) => {
+    const id = `card-${i + 1}`;
+    board.cardsById[id] = {
+      id,
+      columnId: "todo",
+      rank: i + 1,
+      title,
+      description: "",
+      points: (i % 3) + 1,
+      createdAt: now,
+      updatedAt: now,
+    };
+    board.columnCardIds.todo.push(id);
+  }
+);
+
+const user = { id: "u1", name: "Mock User", accountId: "demo-account" };
+
+function tokens() {
+  return {
+    accessToken: `mock-${Date.now()}`,
+    refreshToken: "mock-refresh",
+    expiresIn: 3600,
+  };
+}
+
+const clients = new Set();
+
+function broadcast(event) {
+  board.version += 1;
+  const payload = { boardId: board.boardId, ...event, version: board.version };
+  const line = `data: ${JSON.stringify(payload)}\n\n`;
+  for (const res of clients) res.write(line);
+  console.log(`-> v${payload.version} ${payload.type}`);
+}
+
+function simulateTeammate() {
+  const ids = Object.keys(board.cardsById);
+  if (ids.length === 0) return;
+  const card = board.cardsById[ids[Math.floor(Math.random() * ids.length)]];
+
+  if (Math.random() < 0.5) {
+    card.points = (card.points % 5) + 1;
+    card.updatedAt = Date.now();
+    broadcast({ type: "card.updated", card });
+    return;
+  }
+
+  const cols = board.columns.map((c) => c.id);
+  const to = cols[(cols.indexOf(card.columnId) + 1) % cols.length];
+  board.columnCardIds[card.columnId] = board.columnCardIds[
+    card.columnId
+  ].filter((id) => id !== card.id);
+  board.columnCardIds[to].push(card.id);
+  card.columnId = to;
+  card.updatedAt = Date.now();
+  broadcast({
+    type: "card.moved",
+    card,
+    order: board.columnCardIds,
+  });
+}
+
+function cors(res) {
+  res.setHeader("access-control-allow-origin", "*");
+  res.setHeader("access-control-allow-headers", "*");
+  res.setHeader("access-control-allow-methods", "GET,POST,PATCH,DELETE");
+}
+
+const server = http.createServer((req, res) => {
+  cors(res);
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204).end();
+    return;
+  }
+
+  if (req.method === "GET" && url.pathname === "/health") {
+    res.writeHead(200, { "content-type": "application/json" });
+    res.end(JSON.stringify({ ok: true }));
+    return;
+  }
+
+  if (req.method === "GET" && url.pathname === "/boards") {
+    const { boardId, name } = board;
+    res.writeHead(200, { "content-type": "application/json" });
+    res.end(JSON.stringify({ ok: true, boards: [{ boardId, name }] }));
+    return;
+  }
+
+  if (req.method === "GET" && url.pathname === `/boards/${board.boardId}`) {
+    res.writeHead(200, { "content-type": "application/json" });
+    res.end(JSON.stringify({ ok: true, state: board }));
+    return;
+  }
+
+  if (
+    req.method === "GET" &&
+    url.pathname === `/boards/${board.boardId}/events`
+  ) {
+    res.writeHead(200, {
+      "content-type": "text/event-stream",
+      "cache-control": "no-cache",
+      connection: "keep-alive",
+    });
+    res.write(": connected\n\n");
+    clients.add(res);
+    req.on("close", () => clients.delete(res));
+    return;
+  }
+
+  if (req.method === "POST" && url.pathname === "/auth/login") {
+    res.writeHead(200, { "content-type": "application/json" });
+    res.end(JSON.stringify({ ok: true, ...tokens(), user }));
+    return;
+  }
+
+  if (req.method === "POST" && url.pathname === "/auth/refresh") {
+    res.writeHead(200, { "content-type": "application/json" });
+    res.end(JSON.stringify({ ok: true, ...tokens() }));
+    return;
+  }
+
+  if (req.method === "GET" && url.pathname === "/auth/me") {
+    res.writeHead(200, { "content-type": "application/json" });
+    res.end(JSON.stringify({ ok: true, user }));
+    return;
+  }
+
+  if (req.method === "POST" && url.pathname === "/__emit") {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      try {
+        broadcast(JSON.parse(body));
+        res.writeHead(204).end();
+      } catch {
+        res.writeHead(400).end();
+      }
+    });
+    return;
+  }
+
+  res.writeHead(404, { "content-type": "application/json" });
+  res.end(JSON.stringify({ message: "Not found in mock server" }));
+});
+
+// no WebSocket support: refuse upgrades so the client falls back to SSE
+server.on("upgrade", (_req, socket) => socket.destroy());
+
+setInterval(simulateTeammate, TICK_MS);
+
+server.listen(PORT, () => {
+  console.log(`mock event server on http://localhost:${PORT}`);
+});
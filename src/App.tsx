@@ -1,10 +1,94 @@
+import { useEffect, useRef, useState } from "react";
+import BoardSidebar from "./components/BoardSidebar";
+import { STORAGE_BOARD_ID } from "./lib/api";
+import { useSession } from "./lib/auth";
+import { getConfig } from "./lib/config";
+import { createDataSource, getDataSourceKind } from "./lib/dataSource";
+import { t, useLocale } from "./lib/i18n";
+import { boardPath, navigate, useRoute } from "./lib/router";
+import LoginPage, { AuthCallback } from "./pages/LoginPage";
+import SettingsPage from "./pages/SettingsPage";
 import SprintBoard from "./pages/SprintBoard";
 
 function App() {
+  // REST API or this browser's localStorage, picked at startup
+  const [dataSource] = useState(() => createDataSource(getDataSourceKind()));
+
+  const session = useSession();
+  const route = useRoute();
+  // re-renders the whole tree in the new language
+  useLocale();
+
+  // the local board needs no account
+  const signedIn = dataSource.kind === "local" || !!session;
+
+  // bumped to reload the open board after it was renamed in the sidebar
+  const [boardRev, setBoardRev] = useState(0);
+  // an empty backend gets one board, not one per effect run (StrictMode)
+  const pickingRef = useRef(false);
+
+  useEffect(() => {
+    if (
+      route.name === "login" ||
+      route.name === "auth_callback" ||
+      route.name === "settings"
+    ) {
+      return;
+    }
+    if (!signedIn) {
+      const here = `${window.location.pathname}${window.location.search}`;
+      navigate(`/login?next=${encodeURIComponent(here)}`, { replace: true });
+      return;
+    }
+    // "/" opens the last board, the configured one, or the first there is
+    // (a new one on an empty backend)
+    if (route.name === "home") {
+      const last =
+        localStorage.getItem(STORAGE_BOARD_ID) || getConfig().defaultBoardId;
+      if (last) {
+        navigate(boardPath(last), { replace: true });
+        return;
+      }
+      if (pickingRef.current) return;
+      pickingRef.current = true;
+      dataSource
+        .listBoards()
+        .then(
+          async (boards) =>
+            boards.find((b) => !b.archived) ??
+            (await dataSource.createBoard(t("app.newBoardName")))
+        )
+        .then((board) => navigate(boardPath(board.boardId), { replace: true }))
+        // most likely the wrong backend
+        .catch(() => navigate("/settings", { replace: true }))
+        .finally(() => (pickingRef.current = false));
+    }
+  }, [route, signedIn, dataSource]);
+
+  if (route.name === "auth_callback") return <AuthCallback />;
+  if (route.name === "login") return <LoginPage />;
+  if (route.name === "settings") return <SettingsPage />;
+  if (route.name !== "board" || !signedIn) return null;
+
   return (
-    <>
-      <SprintBoard />
-    </>
+    <div className="sb-app">
+      <BoardSidebar
+        // another account sees other boards
+        key={session?.user.accountId}
+        dataSource={dataSource}
+        currentBoardId={route.boardId}
+        onCurrentRenamed={() => setBoardRev((r) => r + 1)}
+      />
+      <main className="sb-app-main">
+        <SprintBoard
+          key={`${route.boardId}:${boardRev}`}
+          boardId={route.boardId}
+          view={route.view}
+          cardId={route.cardId ?? null}
+          dataSource={dataSource}
+        />
+      </main>
+    </div>
   );
 }
 
@@ -0,0 +1,346 @@
+import { useState } from "react";
+import {
+  DndContext,
+  KeyboardSensor,
+  PointerSensor,
+  closestCenter,
+  useSensor,
+  useSensors,
+  type Announcements,
+  type DragEndEvent,
+  type UniqueIdentifier,
+} from "@dnd-kit/core";
+import {
+  SortableContext,
+  arrayMove,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import {
+  backlogCards,
+  plannableSprints,
+  planningSprint,
+  sprintLoad,
+} from "../lib/backlog";
+import { formatPoints, t } from "../lib/i18n";
+import type { BoardState, Card, Sprint } from "../lib/types";
+
+// Backlog tab of the board page: the ranked list of cards outside the running
+// sprint (drag to re-rank) next to a planning panel for filling a sprint up
+// to its capacity. Uses the board's sb-* styles.
+export default function BacklogView(props: {
+  board: BoardState;
+  // ids of the shown list in their new order, and the card that moved
+  onRank: (order: string[], cardId: string) => void;
+  onSetSprint: (cardId: string, sprintId: string | null) => void;
+  onSetCapacity: (sprintId: string, capacity: number | null) => void;
+  onOpen: (cardId: string) => void;
+}) {
+  const { board } = props;
+  const [showDone, setShowDone] = useState(false);
+  const [planId, setPlanId] = useState<string | null>(null);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 6 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  );
+
+  const cards = backlogCards(board, { includeDone: showDone });
+  const ids = cards.map((c) => c.id);
+  const sprints = plannableSprints(board);
+  // the picked sprint while it can still be planned
+  const plan =
+    sprints.find((s) => s.id === planId) ?? planningSprint(board) ?? null;
+  const sprintName = (id: string | null | undefined) =>
+    sprints.find((s) => s.id === id)?.name ?? null;
+
+  const name = (id: UniqueIdentifier) =>
+    `'${board.cardsById[String(id)]?.title || t("drag.untitled")}'`;
+  const rankOf = (id: UniqueIdentifier) =>
+    t("backlog.rank", { rank: ids.indexOf(String(id)) + 1, count: ids.length });
+  const announcements: Announcements = {
+    onDragStart: ({ active }) =>
+      t("backlog.pick", { card: name(active.id), rank: rankOf(active.id) }),
+    onDragOver: ({ active, over }) =>
+      over
+        ? t("backlog.over", { card: name(active.id), rank: rankOf(over.id) })
+        : t("backlog.notOver", { card: name(active.id) }),
+    onDragEnd: ({ active, over }) =>
+      over
+        ? t("backlog.ranked", { card: name(active.id), rank: rankOf(over.id) })
+        : t("backlog.unchanged", { card: name(active.id) }),
+    onDragCancel: ({ active }) =>
+      t("backlog.cancel", { card: name(active.id) }),
+  };
+
+  function handleDragEnd(e: DragEndEvent) {
+    const { active, over } = e;
+    if (!over || active.id === over.id) return;
+    const from = ids.indexOf(String(active.id));
+    const to = ids.indexOf(String(over.id));
+    if (from === -1 || to === -1) return;
+    props.onRank(arrayMove(ids, from, to), String(active.id));
+  }
+
+  return (
+    <div className="sb-backlog">
+      <section className="sb-report">
+        <div className="sb-report-head">
+          <div className="sb-report-title">
+            {t("backlog.title")}{" "}
+            <span className="sb-muted">{cards.length}</span>
+          </div>
+          <label className="sb-check">
+            <input
+              type="checkbox"
+              checked={showDone}
+              onChange={(e) => setShowDone(e.target.checked)}
+            />
+            {t("backlog.showDone")}
+          </label>
+        </div>
+
+        {cards.length === 0 ? (
+          <div className="sb-muted">{t("backlog.empty")}</div>
+        ) : (
+          <DndContext
+            sensors={sensors}
+            collisionDetection={closestCenter}
+            onDragEnd={handleDragEnd}
+            accessibility={{
+              announcements,
+              screenReaderInstructions: { draggable: t("drag.instructions") },
+            }}
+          >
+            <SortableContext items={ids} strategy={verticalListSortingStrategy}>
+              <ol className="sb-backlog-list">
+                {cards.map((card, i) => (
+                  <BacklogRow
+                    key={card.id}
+                    card={card}
+                    rank={i + 1}
+                    sprintName={sprintName(card.sprintId)}
+                    plan={plan}
+                    onOpen={() => props.onOpen(card.id)}
+                    onPull={() => plan && props.onSetSprint(card.id, plan.id)}
+                  />
+                ))}
+              </ol>
+            </SortableContext>
+          </DndContext>
+        )}
+      </section>
+
+      <PlanningPanel
+        board={board}
+        sprints={sprints}
+        sprint={plan}
+        onPick={setPlanId}
+        onSetCapacity={props.onSetCapacity}
+        onRemove={(cardId) => props.onSetSprint(cardId, null)}
+        onOpen={props.onOpen}
+      />
+    </div>
+  );
+}
+
+function BacklogRow(props: {
+  card: Card;
+  rank: number;
+  // sprint the card is already planned into
+  sprintName: string | null;
+  plan: Sprint | null;
+  onOpen: () => void;
+  onPull: () => void;
+}) {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id: props.card.id });
+  const { card, plan } = props;
+
+  return (
+    <li
+      ref={setNodeRef}
+      className="sb-backlog-row"
+      style={{
+        transform: CSS.Transform.toString(transform),
+        transition,
+        opacity: isDragging ? 0.6 : 1,
+      }}
+    >
+      <span
+        className="sb-backlog-handle"
+        title={t("backlog.dragRank")}
+        {...attributes}
+        {...listeners}
+        aria-label={t("backlog.rankCard", {
+          title: card.title || t("card.untitled"),
+        })}
+      >
+        ⠿
+      </span>
+      <span className="sb-backlog-rank">{props.rank}</span>
+      <button className="sb-backlog-title" onClick={props.onOpen}>
+        {card.title || t("card.untitled")}
+      </button>
+      {props.sprintName ? (
+        <span className="sb-pill sb-pill-pending">{props.sprintName}</span>
+      ) : null}
+      <span className="sb-pill">{formatPoints(card.points)}</span>
+      {plan && card.sprintId !== plan.id ? (
+        <button
+          className="sb-btn sb-btn-mini sb-btn-ghost"
+          onClick={props.onPull}
+          title={t("backlog.addTo", { sprint: plan.name })}
+        >
+          {t("backlog.toSprint")}
+        </button>
+      ) : null}
+    </li>
+  );
+}
+
+function PlanningPanel(props: {
+  board: BoardState;
+  sprints: Sprint[];
+  sprint: Sprint | null;
+  onPick: (sprintId: string) => void;
+  onSetCapacity: (sprintId: string, capacity: number | null) => void;
+  onRemove: (cardId: string) => void;
+  onOpen: (cardId: string) => void;
+}) {
+  const { board, sprint } = props;
+
+  if (!sprint) {
+    return (
+      <section className="sb-report sb-plan">
+        <div className="sb-report-title">{t("plan.title")}</div>
+        <div className="sb-muted">{t("plan.noSprint")}</div>
+      </section>
+    );
+  }
+
+  const load = sprintLoad(board, sprint);
+  const sprintCards = Object.values(board.cardsById).filter(
+    (c) => c.sprintId === sprint.id
+  );
+  const fill =
+    load.capacity && load.capacity > 0
+      ? Math.min(100, (load.committed / load.capacity) * 100)
+      : 0;
+
+  return (
+    <section className="sb-report sb-plan">
+      <div className="sb-report-head">
+        <div className="sb-report-title">{t("plan.title")}</div>
+        <select
+          className="sb-input sb-select"
+          value={sprint.id}
+          aria-label={t("plan.pick")}
+          onChange={(e) => props.onPick(e.target.value)}
+        >
+          {props.sprints.map((s) => (
+            <option key={s.id} value={s.id}>
+              {s.name}
+              {s.state === "active" ? t("sprint.activeSuffix") : ""}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <CapacityInput
+        key={`${sprint.id}:${sprint.capacity ?? ""}`}
+        capacity={load.capacity}
+        onChange={(capacity) => props.onSetCapacity(sprint.id, capacity)}
+      />
+
+      <div className="sb-plan-load">
+        <span>
+          {t("plan.committed", { points: load.committed })}
+          {load.capacity !== null
+            ? t("plan.of", { capacity: load.capacity })
+            : ""}
+        </span>
+        {load.over ? (
+          <span className="sb-pill sb-pill-failed">
+            {t("plan.over", {
+              points: load.committed - (load.capacity ?? 0),
+            })}
+          </span>
+        ) : null}
+      </div>
+      {load.capacity !== null ? (
+        <div className="sb-plan-bar">
+          <div
+            className={`sb-plan-fill ${load.over ? "sb-plan-over" : ""}`}
+            style={{ width: `${fill}%` }}
+          />
+        </div>
+      ) : null}
+
+      {sprintCards.length === 0 ? (
+        <div className="sb-muted">{t("plan.noCards")}</div>
+      ) : (
+        <ul className="sb-plan-cards">
+          {sprintCards.map((c) => (
+            <li key={c.id}>
+              <button
+                className="sb-backlog-title"
+                onClick={() => props.onOpen(c.id)}
+              >
+                {c.title || t("card.untitled")}
+              </button>
+              <span className="sb-pill">{formatPoints(c.points)}</span>
+              <button
+                className="sb-btn sb-btn-mini sb-btn-ghost"
+                onClick={() => props.onRemove(c.id)}
+                title={t("plan.removeTitle")}
+              >
+                {t("plan.remove")}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+// points the team can take on; empty means no capacity set
+function CapacityInput(props: {
+  capacity: number | null;
+  onChange: (capacity: number | null) => void;
+}) {
+  const [value, setValue] = useState(
+    props.capacity === null ? "" : String(props.capacity)
+  );
+  const parsed = value.trim() === "" ? null : Number(value);
+  const valid = parsed === null || (Number.isFinite(parsed) && parsed >= 0);
+
+  function commit() {
+    if (valid && parsed !== props.capacity) props.onChange(parsed);
+  }
+
+  return (
+    <label className="sb-label">
+      {t("plan.capacity")}
+      <input
+        className="sb-input"
+        type="number"
+        min={0}
+        placeholder={t("plan.notSet")}
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => e.key === "Enter" && commit()}
+      />
+    </label>
+  );
+}
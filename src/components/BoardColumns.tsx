@@ -0,0 +1,508 @@
+import type { ButtonHTMLAttributes, CSSProperties } from "react";
+import { useDroppable } from "@dnd-kit/core";
+import {
+  SortableContext,
+  useSortable,
+  verticalListSortingStrategy,
+} from "@dnd-kit/sortable";
+import { CSS, type Transform } from "@dnd-kit/utilities";
+import { isOverdue, overWipLimit, type WipUsage } from "../lib/board";
+import { COLUMN_DRAG_PREFIX, LANE_DROP_PREFIX } from "../lib/boardDnd";
+import { formatDate, formatNumber, formatPoints, t } from "../lib/i18n";
+import { menuKeyDown } from "../lib/keyboard";
+import { taskProgress } from "../lib/markdown";
+import type { OutboxStatus } from "../lib/outbox";
+import type { Lane } from "../lib/swimlanes";
+import type { Card, Column, ColumnId, Label, Member } from "../lib/types";
+import { LabelChip } from "./Labels";
+import Markdown from "./Markdown";
+import { Highlight } from "./SearchBar";
+
+// The board's columns and swimlanes with their cards, all sortable with
+// dnd-kit; the drag handlers live in useBoardDnd. Uses the board's sb-*
+// styles.
+
+// what every list of cards on the board needs to render them
+export type CardListProps = {
+  cardsById: Record<string, Card>;
+  labels: Label[];
+  members: Member[];
+  doneColumnId: ColumnId | null;
+  query: string;
+  syncStatusByCard: Record<string, OutboxStatus>;
+  selectedIds: string[];
+  // a selection is being dragged: its other cards are dimmed
+  groupDrag: boolean;
+  onOpenCard: (cardId: string) => void;
+  onSelectCard: (cardId: string, range: string[] | null) => void;
+  onEditCard: (cardId: string) => void;
+  onRemoveCard: (cardId: string) => void;
+  onToggleTask: (cardId: string, index: number) => void;
+};
+
+export type ColumnHeaderProps = {
+  col: Column;
+  columnsCount: number;
+  usage: WipUsage;
+  onAddCard: () => void;
+  onRenameColumn: () => void;
+  onEditLimit: () => void;
+  onDeleteColumnMoveCards: () => void;
+  onDeleteColumnAndCards: () => void;
+};
+
+export function ColumnView(
+  props: CardListProps &
+    ColumnHeaderProps & {
+      cardIds: string[];
+      filtered: boolean;
+    }
+) {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({
+    id: COLUMN_DRAG_PREFIX + props.col.id,
+    data: { type: "column" },
+  });
+  const overLimit = overWipLimit(props.col.wipLimit, props.usage);
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={columnDragStyle(transform, transition, isDragging)}
+      className={`sb-col ${overLimit ? "sb-col-overlimit" : ""}`}
+    >
+      <ColumnHeader {...props} handleProps={{ ...attributes, ...listeners }} />
+      <CardList
+        {...props}
+        droppableId={props.col.id}
+        empty={props.filtered ? t("column.noMatches") : t("column.dropHere")}
+      />
+    </div>
+  );
+}
+
+function columnDragStyle(
+  transform: Transform | null,
+  transition: string | undefined,
+  isDragging: boolean
+): CSSProperties {
+  return {
+    transform: CSS.Translate.toString(transform),
+    transition,
+    opacity: isDragging ? 0.6 : 1,
+  };
+}
+
+function ColumnHeader(
+  props: ColumnHeaderProps & {
+    // drag attributes/listeners of the column's sortable
+    handleProps: ButtonHTMLAttributes<HTMLButtonElement>;
+  }
+) {
+  const limit = props.col.wipLimit;
+  const overLimit = overWipLimit(limit, props.usage);
+
+  return (
+    <div className="sb-col-header">
+      <button
+        className="sb-col-handle"
+        {...props.handleProps}
+        title={t("column.drag")}
+        aria-label={t("column.move", { column: props.col.title })}
+      >
+        ⠿
+      </button>
+      <div
+        className="sb-col-title"
+        tabIndex={0}
+        data-column-id={props.col.id}
+        title={t("column.focusHint")}
+      >
+        {props.col.title}
+      </div>
+
+      {limit ? (
+        <span
+          className={`sb-pill sb-wip ${overLimit ? "sb-pill-failed" : ""}`}
+          title={limit.hard ? t("column.wipHard") : t("column.wip")}
+        >
+          {limit.cards !== null
+            ? `${props.usage.cards}/${limit.cards}`
+            : props.usage.cards}
+          {limit.points !== null
+            ? ` · ${formatNumber(props.usage.points)}/${formatPoints(limit.points)}`
+            : ""}
+        </span>
+      ) : (
+        <span className="sb-wip sb-muted">{props.usage.cards}</span>
+      )}
+
+      <div className="sb-col-tools">
+        <button className="sb-btn sb-btn-mini" onClick={props.onAddCard}>
+          {t("column.add")}
+        </button>
+
+        <details className="sb-menu" onKeyDown={menuKeyDown}>
+          <summary
+            className="sb-menu-btn"
+            title={t("column.menu")}
+            aria-label={t("column.menuFor", { column: props.col.title })}
+          >
+            ⋯
+          </summary>
+          <div className="sb-menu-pop">
+            <button className="sb-menu-item" onClick={props.onRenameColumn}>
+              {t("column.rename")}
+            </button>
+
+            <button className="sb-menu-item" onClick={props.onEditLimit}>
+              {t("column.limit")}
+            </button>
+
+            <div className="sb-menu-sep" />
+
+            <button
+              className="sb-menu-item"
+              onClick={props.onDeleteColumnMoveCards}
+              disabled={props.columnsCount <= 1}
+              title={props.columnsCount <= 1 ? t("column.lastColumn") : ""}
+            >
+              {t("column.deleteMove")}
+            </button>
+
+            <button
+              className="sb-menu-item sb-danger"
+              onClick={props.onDeleteColumnAndCards}
+              disabled={props.columnsCount <= 1}
+              title={props.columnsCount <= 1 ? t("column.lastColumn") : ""}
+            >
+              {t("column.deleteCards")}
+            </button>
+          </div>
+        </details>
+      </div>
+    </div>
+  );
+}
+
+// Drop target with its sortable cards: a whole column, or one column of a
+// swimlane (droppableData tells the drag handlers which lane).
+function CardList(
+  props: CardListProps & {
+    cardIds: string[];
+    droppableId: string;
+    droppableData?: { type: "lane"; columnId: ColumnId; laneId: string };
+    empty: string;
+  }
+) {
+  const { setNodeRef, isOver } = useDroppable({
+    id: props.droppableId,
+    data: props.droppableData,
+  });
+
+  return (
+    <SortableContext
+      items={props.cardIds}
+      strategy={verticalListSortingStrategy}
+    >
+      <div
+        ref={setNodeRef}
+        className={`sb-col-body ${isOver ? "sb-col-over" : ""}`}
+        data-list-column={props.droppableData?.columnId ?? props.droppableId}
+        data-list-lane={props.droppableData?.laneId ?? ""}
+      >
+        {props.cardIds.length === 0 ? (
+          <div className="sb-empty">{props.empty}</div>
+        ) : null}
+
+        {props.cardIds.map((cardId) => (
+          <SortableCard
+            key={cardId}
+            card={props.cardsById[cardId]}
+            labels={props.labels}
+            members={props.members}
+            overdue={isOverdue(props.cardsById[cardId], props.doneColumnId)}
+            query={props.query}
+            syncStatus={props.syncStatusByCard[cardId]}
+            selected={props.selectedIds.includes(cardId)}
+            groupDrag={props.groupDrag}
+            onOpen={() => props.onOpenCard(cardId)}
+            onSelect={(range) =>
+              props.onSelectCard(cardId, range ? props.cardIds : null)
+            }
+            onEdit={() => props.onEditCard(cardId)}
+            onRemove={() => props.onRemoveCard(cardId)}
+            onToggleTask={(index) => props.onToggleTask(cardId, index)}
+          />
+        ))}
+      </div>
+    </SortableContext>
+  );
+}
+
+// Column headers above the lanes; still sortable to reorder columns.
+export function SwimlaneHeader(props: ColumnHeaderProps) {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({
+    id: COLUMN_DRAG_PREFIX + props.col.id,
+    data: { type: "column" },
+  });
+  const overLimit = overWipLimit(props.col.wipLimit, props.usage);
+  return (
+    <div
+      ref={setNodeRef}
+      style={columnDragStyle(transform, transition, isDragging)}
+      className={`sb-col sb-col-head-only ${overLimit ? "sb-col-overlimit" : ""}`}
+    >
+      <ColumnHeader {...props} handleProps={{ ...attributes, ...listeners }} />
+    </div>
+  );
+}
+
+export function SwimlaneRow(
+  props: CardListProps & {
+    lane: Lane;
+    columns: Column[];
+    // visible cards of the lane, per column
+    cardIdsByColumn: Record<ColumnId, string[]>;
+    collapsed: boolean;
+    onToggle: () => void;
+  }
+) {
+  const { lane } = props;
+  const ids = props.columns.flatMap((c) => props.cardIdsByColumn[c.id]);
+  const points = ids.reduce(
+    (n, id) => n + (props.cardsById[id]?.points || 0),
+    0
+  );
+
+  return (
+    <div className="sb-lane">
+      <button
+        className="sb-lane-head"
+        onClick={props.onToggle}
+        aria-expanded={!props.collapsed}
+      >
+        <span className="sb-lane-caret">{props.collapsed ? "▸" : "▾"}</span>
+        <span className="sb-lane-title">{lane.title}</span>
+        <span className="sb-muted">
+          {t("lanes.cards", { count: ids.length })}
+        </span>
+        <span className="sb-pill">{formatPoints(points)}</span>
+      </button>
+      {props.collapsed ? null : (
+        <div
+          className="sb-board sb-lane-row"
+          style={{
+            gridTemplateColumns: `repeat(${props.columns.length}, minmax(260px, 1fr))`,
+          }}
+        >
+          {props.columns.map((col) => (
+            <div key={col.id} className="sb-col sb-lane-cell">
+              <CardList
+                {...props}
+                cardIds={props.cardIdsByColumn[col.id]}
+                droppableId={`${LANE_DROP_PREFIX}${col.id}:${lane.id}`}
+                droppableData={{
+                  type: "lane",
+                  columnId: col.id,
+                  laneId: lane.id,
+                }}
+                empty=""
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function initials(name: string) {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((w) => w[0].toUpperCase())
+    .join("");
+}
+
+function SortableCard(props: {
+  card: Card;
+  labels: Label[];
+  members: Member[];
+  overdue: boolean;
+  query: string;
+  syncStatus?: OutboxStatus;
+  selected: boolean;
+  groupDrag: boolean;
+  onOpen: () => void;
+  // range: Shift+click
+  onSelect: (range: boolean) => void;
+  onEdit: () => void;
+  onRemove: () => void;
+  onToggleTask: (index: number) => void;
+}) {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({
+    id: props.card.id,
+  });
+
+  const style: CSSProperties = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.6 : props.groupDrag && props.selected ? 0.35 : 1,
+  };
+
+  const { card } = props;
+  const cardLabels = props.labels.filter((l) => card.labelIds?.includes(l.id));
+  const tasks = taskProgress(card.description || "");
+  const assignees = (card.assigneeIds || []).map(
+    (id) => props.members.find((m) => m.id === id) ?? { id, name: id }
+  );
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      className={`sb-card ${props.overdue ? "sb-card-overdue" : ""} ${
+        props.selected ? "sb-card-selected" : ""
+      }`}
+      tabIndex={0}
+      data-card-id={card.id}
+      aria-label={card.title || t("card.untitled")}
+      onClick={(e) => {
+        if (!(e.ctrlKey || e.metaKey || e.shiftKey)) return;
+        // links, checkboxes and the action buttons keep their own click
+        if ((e.target as HTMLElement).closest("a, input, .sb-card-actions")) {
+          return;
+        }
+        e.preventDefault();
+        props.onSelect(e.shiftKey);
+      }}
+    >
+      {cardLabels.length > 0 ? (
+        <div className="sb-tags">
+          {cardLabels.map((l) => (
+            <LabelChip key={l.id} label={l} />
+          ))}
+        </div>
+      ) : null}
+
+      <div className="sb-card-top">
+        <button
+          className="sb-card-title sb-card-open"
+          onClick={(e) => {
+            // modifier clicks select instead (handled on the card)
+            if (!(e.ctrlKey || e.metaKey || e.shiftKey)) props.onOpen();
+          }}
+          title={t("card.open")}
+        >
+          {props.card.title ? (
+            <Highlight text={props.card.title} query={props.query} />
+          ) : (
+            t("card.untitled")
+          )}
+        </button>
+        {tasks.total > 0 ? (
+          <div
+            className={`sb-pill ${tasks.done === tasks.total ? "sb-pill-done" : ""}`}
+            title={t("card.checklist")}
+          >
+            ☑ {tasks.done}/{tasks.total}
+          </div>
+        ) : null}
+        <div className="sb-pill">{formatPoints(props.card.points)}</div>
+      </div>
+
+      {props.syncStatus === "pending" ? (
+        <div className="sb-sync sb-sync-pending">{t("card.pending")}</div>
+      ) : props.syncStatus === "failed" ? (
+        <div className="sb-sync sb-sync-failed">{t("card.failed")}</div>
+      ) : props.syncStatus === "conflict" ? (
+        <div className="sb-sync sb-sync-failed">{t("card.conflict")}</div>
+      ) : null}
+
+      {props.card.description ? (
+        <div className="sb-card-desc">
+          <Markdown
+            text={props.card.description}
+            query={props.query}
+            onToggleTask={props.onToggleTask}
+          />
+        </div>
+      ) : (
+        <div className="sb-card-desc sb-muted">{t("card.noDescription")}</div>
+      )}
+
+      {card.priority || card.dueDate || assignees.length > 0 ? (
+        <div className="sb-card-meta">
+          {card.priority ? (
+            <span className={`sb-prio sb-prio-${card.priority}`}>
+              {t(`priority.${card.priority}`)}
+            </span>
+          ) : null}
+          {card.dueDate ? (
+            <span
+              className={`sb-due ${props.overdue ? "sb-due-overdue" : ""}`}
+              title={props.overdue ? t("card.overdue") : t("card.due")}
+            >
+              {formatDate(card.dueDate)}
+            </span>
+          ) : null}
+          <div className="sb-spacer" />
+          {assignees.map((m) => (
+            <span key={m.id} className="sb-avatar" title={m.name}>
+              {initials(m.name)}
+            </span>
+          ))}
+        </div>
+      ) : null}
+
+      <div className="sb-card-actions">
+        <button
+          className="sb-btn sb-btn-mini sb-btn-ghost"
+          onClick={props.onEdit}
+        >
+          {t("card.edit")}
+        </button>
+        <button
+          className="sb-btn sb-btn-mini sb-btn-danger"
+          onClick={props.onRemove}
+        >
+          {t("card.delete")}
+        </button>
+        <div className="sb-spacer" />
+        <button
+          className="sb-handle"
+          {...attributes}
+          {...listeners}
+          title={t("card.drag")}
+          aria-label={t("card.move", {
+            title: card.title || t("card.untitled"),
+          })}
+        >
+          ⠿
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,342 @@
+import { getApiBase } from "../lib/api";
+import { setDataSourceKind, type DataSourceKind } from "../lib/dataSource";
+import type { BoardFilter } from "../lib/filter";
+import {
+  LOCALES,
+  LOCALE_NAMES,
+  setLocale,
+  t,
+  useLocale,
+  type Locale,
+} from "../lib/i18n";
+import type { LiveStatus } from "../lib/realtime";
+import {
+  BOARD_VIEWS,
+  VIEW_LABELS,
+  boardPath,
+  navigate,
+  type BoardView,
+} from "../lib/router";
+import {
+  SWIMLANE_KEYS,
+  SWIMLANE_LABELS,
+  type SwimlaneKey,
+} from "../lib/swimlanes";
+import type { BoardState, Member } from "../lib/types";
+import { TransferMenu } from "./ImportExport";
+import SearchBar from "./SearchBar";
+import { SprintSelect } from "./Sprints";
+import UserMenu from "./UserMenu";
+
+// The board page's title bar and toolbar, and what the page shows when the
+// board could not be loaded. Uses the board's sb-* styles.
+
+export function BoardHeader(props: {
+  board: BoardState;
+  view: BoardView;
+  dataSource: DataSourceKind;
+  loading: boolean;
+  offline: boolean;
+  liveStatus: LiveStatus;
+  pendingCount: number;
+  failedCount: number;
+  conflict: boolean;
+  canUndo: boolean;
+  canRedo: boolean;
+  // search bar, shown on the board view
+  filter: BoardFilter;
+  shownCount: number;
+  inViewCount: number;
+  members: Member[];
+  onFilterChange: (filter: BoardFilter) => void;
+  // sprint picked in the toolbar (or ALL_CARDS / BACKLOG)
+  sprintView: string;
+  onSprintView: (value: string) => void;
+  swimlaneKey: SwimlaneKey;
+  onSwimlaneKey: (key: SwimlaneKey) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onRetryFailed: () => void;
+  onDiscardFailed: () => void;
+  onAddSprint: () => void;
+  onLabels: () => void;
+  onAddColumn: () => void;
+  onRefresh: () => void;
+  onPalette: () => void;
+  onImport: () => void;
+}) {
+  const { board, liveStatus } = props;
+
+  return (
+    <div className="sb-header">
+      <div>
+        <div className="sb-title">{board.name || t("app.title")}</div>
+        <div className="sb-subtitle">
+          {t("header.board")} <span className="sb-mono">{board.boardId}</span> ·
+          v{board.version}
+          {props.loading ? t("header.syncing") : ""}
+          {props.offline ? t("header.offline") : ""}
+          {" · "}
+          <span className={`sb-live sb-live-${liveStatus}`}>
+            {liveStatus === "live"
+              ? t("header.live")
+              : liveStatus === "connecting"
+                ? t("header.connecting")
+                : t("header.reconnecting")}
+          </span>
+        </div>
+      </div>
+
+      {props.view === "board" ? (
+        <SearchBar
+          filter={props.filter}
+          shown={props.shownCount}
+          total={props.inViewCount}
+          members={props.members}
+          labels={board.labels || []}
+          onChange={props.onFilterChange}
+        />
+      ) : null}
+
+      <div className="sb-actions">
+        {props.pendingCount > 0 ? (
+          <span className="sb-pill sb-pill-pending">
+            {t("header.pending", { count: props.pendingCount })}
+          </span>
+        ) : null}
+
+        {props.conflict ? (
+          <span className="sb-pill sb-pill-failed">{t("header.conflict")}</span>
+        ) : null}
+
+        {props.failedCount > 0 ? (
+          <>
+            <span className="sb-pill sb-pill-failed">
+              {t("header.failed", { count: props.failedCount })}
+            </span>
+            <button
+              className="sb-btn sb-btn-mini sb-btn-ghost"
+              onClick={props.onRetryFailed}
+            >
+              {t("app.retry")}
+            </button>
+            <button
+              className="sb-btn sb-btn-mini sb-btn-danger"
+              onClick={props.onDiscardFailed}
+              title={t("header.discardTitle")}
+            >
+              {t("header.discard")}
+            </button>
+          </>
+        ) : null}
+
+        <button
+          className="sb-btn sb-btn-ghost"
+          onClick={props.onUndo}
+          disabled={!props.canUndo}
+          title={t("header.undoTitle")}
+        >
+          {t("header.undo")}
+        </button>
+        <button
+          className="sb-btn sb-btn-ghost"
+          onClick={props.onRedo}
+          disabled={!props.canRedo}
+          title={t("header.redoTitle")}
+        >
+          {t("header.redo")}
+        </button>
+
+        <LocaleSelect />
+
+        <DataSourceSelect value={props.dataSource} />
+
+        <SprintSelect
+          sprints={board.sprints || []}
+          value={props.sprintView}
+          onChange={props.onSprintView}
+        />
+
+        {props.view === "board" ? (
+          <SwimlaneSelect
+            value={props.swimlaneKey}
+            onChange={props.onSwimlaneKey}
+          />
+        ) : null}
+
+        <button className="sb-btn sb-btn-ghost" onClick={props.onAddSprint}>
+          {t("header.addSprint")}
+        </button>
+
+        <button className="sb-btn sb-btn-ghost" onClick={props.onLabels}>
+          {t("header.labels")}
+        </button>
+
+        <button className="sb-btn" onClick={props.onAddColumn}>
+          {t("header.addColumn")}
+        </button>
+
+        <div className="sb-views" role="group" aria-label={t("header.views")}>
+          {BOARD_VIEWS.map((v) => (
+            <button
+              key={v}
+              className={`sb-btn sb-btn-ghost ${
+                props.view === v ? "sb-view-active" : ""
+              }`}
+              aria-pressed={props.view === v}
+              onClick={() =>
+                navigate(boardPath(board.boardId, v) + window.location.search)
+              }
+            >
+              {t(VIEW_LABELS[v])}
+            </button>
+          ))}
+        </div>
+
+        <button
+          className="sb-btn sb-btn-ghost"
+          onClick={props.onRefresh}
+          disabled={props.loading}
+        >
+          {t("header.refresh")}
+        </button>
+
+        <button
+          className="sb-btn sb-btn-ghost"
+          onClick={props.onPalette}
+          title={t("header.palette")}
+        >
+          Ctrl+K
+        </button>
+
+        <TransferMenu board={board} onImport={props.onImport} />
+
+        <UserMenu dataSource={props.dataSource} />
+      </div>
+    </div>
+  );
+}
+
+// no board to show: where it was looked for, and the load error
+export function NoBoardView(props: {
+  dataSource: DataSourceKind;
+  boardId: string;
+  accountId: string | null;
+  loading: boolean;
+  errMsg: string | null;
+  onRetry: () => void;
+}) {
+  return (
+    <div className="sb-root">
+      <div className="sb-header">
+        <div>
+          <div className="sb-title">{t("app.title")}</div>
+          <div className="sb-subtitle">
+            {props.dataSource === "local"
+              ? t("app.localMode")
+              : t("app.apiMode")}
+          </div>
+        </div>
+
+        <div className="sb-actions">
+          <LocaleSelect />
+          <DataSourceSelect value={props.dataSource} />
+          <UserMenu dataSource={props.dataSource} />
+          <button
+            className="sb-btn sb-btn-ghost"
+            onClick={props.onRetry}
+            disabled={props.loading}
+          >
+            {props.loading ? t("app.loading") : t("app.retry")}
+          </button>
+        </div>
+      </div>
+
+      <div className="sb-muted">
+        {t("app.apiBase")} {getApiBase() || window.location.origin} ·{" "}
+        <a
+          href="/settings"
+          onClick={(e) => {
+            e.preventDefault();
+            navigate("/settings");
+          }}
+        >
+          {t("settings.open")}
+        </a>
+        <br />
+        {t("app.account")}{" "}
+        <span className="sb-mono">{props.accountId ?? props.dataSource}</span>
+        <br />
+        {t("app.boardId")} <span className="sb-mono">{props.boardId}</span>
+      </div>
+
+      {props.errMsg ? (
+        <div className="sb-alert">
+          {props.errMsg}
+          <div className="sb-muted" style={{ marginTop: 8 }}>
+            {t("app.notFoundHint")}
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+function DataSourceSelect(props: { value: DataSourceKind }) {
+  return (
+    <select
+      className="sb-input sb-select"
+      value={props.value}
+      title={t("app.source")}
+      onChange={(e) => {
+        setDataSourceKind(e.target.value as DataSourceKind);
+        // drop a ?source= override so the saved choice applies
+        const url = new URL(window.location.href);
+        url.searchParams.delete("source");
+        window.location.replace(url.toString());
+      }}
+    >
+      <option value="rest">{t("app.source.rest")}</option>
+      <option value="local">{t("app.source.local")}</option>
+    </select>
+  );
+}
+
+function LocaleSelect() {
+  const locale = useLocale();
+  return (
+    <select
+      className="sb-input sb-select"
+      value={locale}
+      title={t("app.language")}
+      aria-label={t("app.language")}
+      onChange={(e) => setLocale(e.target.value as Locale)}
+    >
+      {LOCALES.map((locale) => (
+        <option key={locale} value={locale}>
+          {LOCALE_NAMES[locale]}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+function SwimlaneSelect(props: {
+  value: SwimlaneKey;
+  onChange: (key: SwimlaneKey) => void;
+}) {
+  return (
+    <select
+      className="sb-input sb-select"
+      value={props.value}
+      title={t("lanes.title")}
+      onChange={(e) => props.onChange(e.target.value as SwimlaneKey)}
+    >
+      {SWIMLANE_KEYS.map((key) => (
+        <option key={key} value={key}>
+          {t(SWIMLANE_LABELS[key])}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,234 @@
+import { useEffect, useState } from "react";
+import type { BoardDataSource } from "../lib/dataSource";
+import { t } from "../lib/i18n";
+import { boardPath, navigate } from "../lib/router";
+import type { BoardSummary } from "../lib/types";
+
+export default function BoardSidebar(props: {
+  dataSource: BoardDataSource;
+  currentBoardId: string;
+  onCurrentRenamed: () => void;
+}) {
+  const { dataSource, currentBoardId } = props;
+
+  const [boards, setBoards] = useState<BoardSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [errMsg, setErrMsg] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+
+  // inline forms: new board name / board being renamed
+  const [newName, setNewName] = useState<string | null>(null);
+  const [renaming, setRenaming] = useState<{
+    boardId: string;
+    name: string;
+  } | null>(null);
+
+  async function reload() {
+    setLoading(true);
+    try {
+      setBoards(await dataSource.listBoards());
+      setErrMsg(null);
+    } catch (e) {
+      setErrMsg((e as Error)?.message || t("boards.loadFailed"));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    void reload();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [dataSource]);
+
+  async function createBoard(name: string) {
+    setNewName(null);
+    if (!name.trim()) return;
+    try {
+      const created = await dataSource.createBoard(name.trim());
+      await reload();
+      navigate(boardPath(created.boardId));
+    } catch (e) {
+      setErrMsg((e as Error)?.message || t("boards.createFailed"));
+    }
+  }
+
+  async function renameBoard(boardId: string, name: string) {
+    setRenaming(null);
+    if (!name.trim()) return;
+    try {
+      await dataSource.renameBoard(boardId, name.trim());
+      await reload();
+      if (boardId === currentBoardId) props.onCurrentRenamed();
+    } catch (e) {
+      setErrMsg((e as Error)?.message || t("boards.renameFailed"));
+    }
+  }
+
+  async function archiveBoard(board: BoardSummary, archived: boolean) {
+    if (
+      archived &&
+      !confirm(t("confirm.archiveBoard", { board: board.name }))
+    ) {
+      return;
+    }
+    try {
+      await dataSource.archiveBoard(board.boardId, archived);
+      await reload();
+      // don't leave the user on a board they just archived
+      if (archived && board.boardId === currentBoardId) {
+        const next = boards.find(
+          (b) => !b.archived && b.boardId !== board.boardId
+        );
+        if (next) navigate(boardPath(next.boardId));
+      }
+    } catch (e) {
+      setErrMsg((e as Error)?.message || t("boards.archiveFailed"));
+    }
+  }
+
+  const visible = boards.filter((b) => !!b.archived === showArchived);
+
+  return (
+    <nav className="sb-side">
+      <style>{css}</style>
+
+      <div className="sb-side-head">
+        <div className="sb-side-title">{t("boards.title")}</div>
+        <button
+          className="sb-btn sb-btn-mini"
+          onClick={() => setNewName("")}
+          disabled={newName !== null}
+        >
+          {t("boards.new")}
+        </button>
+      </div>
+
+      {newName !== null ? (
+        <form
+          className="sb-side-form"
+          onSubmit={(e) => {
+            e.preventDefault();
+            void createBoard(newName);
+          }}
+        >
+          <input
+            className="sb-input"
+            placeholder={t("boards.name")}
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === "Escape" && setNewName(null)}
+            autoFocus
+          />
+        </form>
+      ) : null}
+
+      {errMsg ? <div className="sb-side-err">{errMsg}</div> : null}
+
+      <ul className="sb-side-list">
+        {visible.map((b) =>
+          renaming?.boardId === b.boardId ? (
+            <li key={b.boardId}>
+              <form
+                className="sb-side-form"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  void renameBoard(b.boardId, renaming.name);
+                }}
+              >
+                <input
+                  className="sb-input"
+                  value={renaming.name}
+                  onChange={(e) =>
+                    setRenaming({ boardId: b.boardId, name: e.target.value })
+                  }
+                  onKeyDown={(e) => e.key === "Escape" && setRenaming(null)}
+                  autoFocus
+                />
+              </form>
+            </li>
+          ) : (
+            <li
+              key={b.boardId}
+              className={`sb-side-item ${
+                b.boardId === currentBoardId ? "sb-side-current" : ""
+              }`}
+            >
+              <a
+                className="sb-side-link"
+                href={boardPath(b.boardId)}
+                onClick={(e) => {
+                  e.preventDefault();
+                  navigate(boardPath(b.boardId));
+                }}
+              >
+                {b.name || t("card.untitled")}
+              </a>
+              <div className="sb-side-tools">
+                {b.archived ? (
+                  <button
+                    className="sb-side-tool"
+                    onClick={() => archiveBoard(b, false)}
+                  >
+                    {t("boards.restore")}
+                  </button>
+                ) : (
+                  <>
+                    <button
+                      className="sb-side-tool"
+                      onClick={() =>
+                        setRenaming({ boardId: b.boardId, name: b.name })
+                      }
+                    >
+                      {t("boards.rename")}
+                    </button>
+                    <button
+                      className="sb-side-tool"
+                      onClick={() => archiveBoard(b, true)}
+                    >
+                      {t("boards.archive")}
+                    </button>
+                  </>
+                )}
+              </div>
+            </li>
+          )
+        )}
+
+        {!loading && visible.length === 0 ? (
+          <li className="sb-side-empty">
+            {showArchived ? t("boards.noArchived") : t("boards.none")}
+          </li>
+        ) : null}
+      </ul>
+
+      <label className="sb-side-toggle">
+        <input
+          type="checkbox"
+          checked={showArchived}
+          onChange={(e) => setShowArchived(e.target.checked)}
+        />
+        {t("boards.showArchived")}
+      </label>
+    </nav>
+  );
+}
+
+const css = `
+.sb-side{width:230px; flex:none; box-sizing:border-box; padding:18px 12px; border-right:1px solid #e2e8f0; background:#fff; font-family: ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Arial; color:#0f172a;}
+.sb-side-head{display:flex; align-items:center; justify-content:space-between; margin-bottom:10px;}
+.sb-side-title{font-weight:800; font-size:15px;}
+.sb-side-form{margin:6px 0;}
+.sb-side-form .sb-input{width:100%; box-sizing:border-box;}
+.sb-side-err{font-size:12px; color:#9a3412; background:#fff7ed; border:1px solid #fed7aa; border-radius:10px; padding:6px 8px; margin:6px 0;}
+.sb-side-list{list-style:none; margin:0; padding:0; display:flex; flex-direction:column; gap:2px;}
+.sb-side-item{border-radius:10px; padding:6px 8px;}
+.sb-side-item:hover{background:#f1f5f9;}
+.sb-side-current{background:#0f172a0d;}
+.sb-side-link{display:block; color:#0f172a; text-decoration:none; font-weight:700; font-size:13px; overflow:hidden; text-overflow:ellipsis; white-space:nowrap;}
+.sb-side-tools{display:none; gap:6px; margin-top:4px;}
+.sb-side-item:hover .sb-side-tools, .sb-side-item:focus-within .sb-side-tools{display:flex;}
+.sb-side-tool{border:none; background:transparent; padding:0; font-size:11.5px; color:#64748b; cursor:pointer; font-weight:700;}
+.sb-side-tool:hover{color:#0f172a;}
+.sb-side-empty{font-size:12px; color:#94a3b8; padding:6px 8px;}
+.sb-side-toggle{display:flex; gap:6px; align-items:center; font-size:12px; color:#64748b; margin-top:14px;}
+`;
@@ -0,0 +1,100 @@
+import { useState } from "react";
+import { t } from "../lib/i18n";
+import type { Column, Label } from "../lib/types";
+
+// Actions for the cards picked with Ctrl/Shift+click. Shown above the board
+// while anything is selected. Uses the board's sb-* styles.
+export default function BulkBar(props: {
+  count: number;
+  columns: Column[];
+  labels: Label[];
+  onMove: (columnId: string) => void;
+  onSetPoints: (points: number) => void;
+  onAddLabel: (labelId: string) => void;
+  onDelete: () => void;
+  onClear: () => void;
+}) {
+  const [points, setPoints] = useState("");
+  const parsedPoints = points.trim() === "" ? NaN : Number(points);
+  const pointsValid = Number.isFinite(parsedPoints) && parsedPoints >= 0;
+
+  return (
+    <div className="sb-bulk" role="toolbar" aria-label={t("bulk.toolbar")}>
+      <span className="sb-bulk-count">
+        {t("bulk.count", { count: props.count })}
+      </span>
+
+      <select
+        className="sb-input sb-bulk-select"
+        value=""
+        aria-label={t("bulk.moveTo")}
+        onChange={(e) => e.target.value && props.onMove(e.target.value)}
+      >
+        <option value="">{t("bulk.movePlaceholder")}</option>
+        {props.columns.map((c) => (
+          <option key={c.id} value={c.id}>
+            {c.title}
+          </option>
+        ))}
+      </select>
+
+      <input
+        className="sb-input sb-bulk-points"
+        type="number"
+        min={0}
+        placeholder={t("bulk.points")}
+        aria-label={t("bulk.points")}
+        value={points}
+        onChange={(e) => setPoints(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && pointsValid) {
+            props.onSetPoints(parsedPoints);
+            setPoints("");
+          }
+        }}
+      />
+      <button
+        className="sb-btn sb-btn-mini"
+        disabled={!pointsValid}
+        onClick={() => {
+          props.onSetPoints(parsedPoints);
+          setPoints("");
+        }}
+      >
+        {t("bulk.setPoints")}
+      </button>
+
+      {props.labels.length > 0 ? (
+        <select
+          className="sb-input sb-bulk-select"
+          value=""
+          aria-label={t("bulk.addLabel")}
+          onChange={(e) => e.target.value && props.onAddLabel(e.target.value)}
+        >
+          <option value="">{t("bulk.labelPlaceholder")}</option>
+          {props.labels.map((l) => (
+            <option key={l.id} value={l.id}>
+              {l.name}
+            </option>
+          ))}
+        </select>
+      ) : null}
+
+      <button
+        className="sb-btn sb-btn-mini sb-btn-danger"
+        onClick={props.onDelete}
+      >
+        {t("bulk.delete")}
+      </button>
+
+      <div className="sb-spacer" />
+      <button
+        className="sb-btn sb-btn-mini sb-btn-ghost"
+        onClick={props.onClear}
+        title={t("bulk.clearTitle")}
+      >
+        {t("bulk.clear")}
+      </button>
+    </div>
+  );
+}
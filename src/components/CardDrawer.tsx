@@ -0,0 +1,351 @@
+import { useEffect, useState } from "react";
+import {
+  cardTimeline,
+  commentThreads,
+  describeActivity,
+} from "../lib/activity";
+import { doneColumnId, isOverdue } from "../lib/board";
+import type { BoardDataSource } from "../lib/dataSource";
+import { formatDate, formatDateTime, formatPoints, t } from "../lib/i18n";
+import { isTempId } from "../lib/outbox";
+import type {
+  BoardState,
+  CardActivity,
+  CardComment,
+  Member,
+} from "../lib/types";
+import { LabelChip } from "./Labels";
+import Markdown from "./Markdown";
+
+// Side panel with everything about one card: fields, description, comments
+// and the history of changes. Opened from /boards/:boardId/cards/:cardId.
+// Uses the board's sb-* styles.
+
+export default function CardDrawer(props: {
+  board: BoardState;
+  cardId: string;
+  members: Member[];
+  dataSource: BoardDataSource;
+  onClose: () => void;
+  onEdit: () => void;
+  onToggleTask: (index: number) => void;
+}) {
+  const { board, cardId, dataSource } = props;
+  const card = board.cardsById[cardId];
+  // not on the server yet: nothing to fetch
+  const pending = isTempId(cardId);
+
+  const [comments, setComments] = useState<CardComment[] | null>(null);
+  const [activity, setActivity] = useState<CardActivity[]>([]);
+  const [loadErr, setLoadErr] = useState<string | null>(null);
+  const [reload, setReload] = useState(0);
+
+  // refetched when the card changes so the timeline stays current
+  useEffect(() => {
+    if (pending) return;
+    let cancelled = false;
+    Promise.all([
+      dataSource.listComments(board.boardId, cardId),
+      dataSource.listActivity(board.boardId, cardId),
+    ])
+      .then(([c, a]) => {
+        if (cancelled) return;
+        setComments(c);
+        setActivity(a);
+        setLoadErr(null);
+      })
+      .catch((e: unknown) => {
+        if (cancelled) return;
+        setLoadErr(e instanceof Error ? e.message : "Failed to load");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    dataSource,
+    board.boardId,
+    cardId,
+    pending,
+    card?.updatedAt,
+    card?.columnId,
+    reload,
+  ]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape" && !e.defaultPrevented) props.onClose();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [props]);
+
+  async function addComment(body: string, parentId: string | null) {
+    const comment = await dataSource.addComment(board.boardId, cardId, {
+      body,
+      parentId,
+    });
+    setComments((cur) => [...(cur || []), comment]);
+    setReload((n) => n + 1);
+  }
+
+  return (
+    <aside className="sb-drawer" aria-label={t("drawer.label")}>
+      <div className="sb-drawer-head">
+        <div className="sb-modal-title">
+          {card?.title || t("card.untitled")}
+        </div>
+        <div className="sb-spacer" />
+        {card ? (
+          <button className="sb-btn sb-btn-mini" onClick={props.onEdit}>
+            {t("card.edit")}
+          </button>
+        ) : null}
+        <button
+          className="sb-btn sb-btn-mini sb-btn-ghost"
+          onClick={props.onClose}
+          aria-label={t("dialog.close")}
+        >
+          ×
+        </button>
+      </div>
+
+      {!card ? (
+        <div className="sb-muted">{t("drawer.gone")}</div>
+      ) : (
+        <>
+          <CardFields board={board} cardId={cardId} members={props.members} />
+
+          <section className="sb-drawer-section">
+            <div className="sb-drawer-label">{t("drawer.description")}</div>
+            {card.description ? (
+              <Markdown
+                text={card.description}
+                onToggleTask={props.onToggleTask}
+              />
+            ) : (
+              <div className="sb-muted">{t("card.noDescription")}</div>
+            )}
+          </section>
+
+          {pending ? (
+            <div className="sb-muted">{t("drawer.pending")}</div>
+          ) : (
+            <>
+              {loadErr ? <div className="sb-alert">{loadErr}</div> : null}
+
+              <section className="sb-drawer-section">
+                <div className="sb-drawer-label">{t("drawer.comments")}</div>
+                {comments === null ? (
+                  <div className="sb-muted">{t("drawer.loading")}</div>
+                ) : (
+                  <CommentThread comments={comments} onReply={addComment} />
+                )}
+                <CommentForm
+                  placeholder={t("drawer.writeComment")}
+                  onSubmit={(body) => addComment(body, null)}
+                />
+              </section>
+
+              <section className="sb-drawer-section">
+                <div className="sb-drawer-label">{t("drawer.activity")}</div>
+                <ol className="sb-timeline">
+                  {cardTimeline(card, activity).map((a) => (
+                    <li key={a.id}>
+                      <span className="sb-timeline-who">
+                        {a.actorName ?? t("drawer.someone")}
+                      </span>{" "}
+                      {describeActivity(board, a)}
+                      <div className="sb-subtitle">{formatDateTime(a.at)}</div>
+                    </li>
+                  ))}
+                </ol>
+                {card.createdAt ? (
+                  <div className="sb-subtitle">
+                    {t("drawer.created", {
+                      time: formatDateTime(card.createdAt),
+                    })}
+                  </div>
+                ) : null}
+                {card.updatedAt ? (
+                  <div className="sb-subtitle">
+                    {t("drawer.updated", {
+                      time: formatDateTime(card.updatedAt),
+                    })}
+                  </div>
+                ) : null}
+              </section>
+            </>
+          )}
+        </>
+      )}
+    </aside>
+  );
+}
+
+function CardFields(props: {
+  board: BoardState;
+  cardId: string;
+  members: Member[];
+}) {
+  const { board } = props;
+  const card = board.cardsById[props.cardId];
+  const column = board.columns.find((c) => c.id === card.columnId);
+  const sprint = (board.sprints || []).find((s) => s.id === card.sprintId);
+  const labels = (board.labels || []).filter((l) =>
+    card.labelIds?.includes(l.id)
+  );
+  const assignees = (card.assigneeIds || []).map(
+    (id) => props.members.find((m) => m.id === id)?.name ?? id
+  );
+  const overdue = isOverdue(card, doneColumnId(board.columns));
+  const epic = card.epicId ? board.cardsById[card.epicId] : undefined;
+
+  return (
+    <dl className="sb-fields">
+      <dt>{t("drawer.column")}</dt>
+      <dd>{column?.title ?? "—"}</dd>
+      <dt>{t("drawer.points")}</dt>
+      <dd>{formatPoints(card.points)}</dd>
+      <dt>{t("drawer.sprint")}</dt>
+      <dd>{sprint?.name ?? t("sprint.backlog")}</dd>
+      <dt>{t("drawer.priority")}</dt>
+      <dd>{card.priority ? t(`priority.${card.priority}`) : "—"}</dd>
+      <dt>{t("drawer.due")}</dt>
+      <dd className={overdue ? "sb-due-overdue" : undefined}>
+        {card.dueDate ? formatDate(card.dueDate) : "—"}
+        {overdue ? t("drawer.overdue") : ""}
+      </dd>
+      <dt>{t("drawer.epic")}</dt>
+      <dd>{epic ? epic.title || t("card.untitled") : "—"}</dd>
+      <dt>{t("drawer.assignees")}</dt>
+      <dd>{assignees.length > 0 ? assignees.join(", ") : "—"}</dd>
+      <dt>{t("drawer.labels")}</dt>
+      <dd>
+        {labels.length > 0 ? (
+          <div className="sb-tags">
+            {labels.map((l) => (
+              <LabelChip key={l.id} label={l} />
+            ))}
+          </div>
+        ) : (
+          "—"
+        )}
+      </dd>
+    </dl>
+  );
+}
+
+function CommentThread(props: {
+  comments: CardComment[];
+  onReply: (body: string, parentId: string) => Promise<void>;
+}) {
+  const { roots, replies } = commentThreads(props.comments);
+  if (roots.length === 0) {
+    return <div className="sb-muted">{t("drawer.noComments")}</div>;
+  }
+
+  const renderComment = (c: CardComment) => (
+    <li key={c.id} className="sb-comment">
+      <div className="sb-comment-head">
+        <span className="sb-timeline-who">{c.authorName}</span>
+        <span className="sb-subtitle">{formatDateTime(c.createdAt)}</span>
+      </div>
+      <Markdown text={c.body} />
+      {c.parentId === null ? (
+        <ReplyBox onSubmit={(body) => props.onReply(body, c.id)} />
+      ) : null}
+      {(replies.get(c.id) || []).length > 0 ? (
+        <ul className="sb-comments sb-replies">
+          {(replies.get(c.id) || []).map(renderComment)}
+        </ul>
+      ) : null}
+    </li>
+  );
+
+  return <ul className="sb-comments">{roots.map(renderComment)}</ul>;
+}
+
+function ReplyBox(props: { onSubmit: (body: string) => Promise<void> }) {
+  const [open, setOpen] = useState(false);
+  if (!open) {
+    return (
+      <button
+        className="sb-btn sb-btn-mini sb-btn-ghost"
+        onClick={() => setOpen(true)}
+      >
+        {t("drawer.reply")}
+      </button>
+    );
+  }
+  return (
+    <CommentForm
+      placeholder={t("drawer.writeReply")}
+      autoFocus
+      onSubmit={async (body) => {
+        await props.onSubmit(body);
+        setOpen(false);
+      }}
+      onCancel={() => setOpen(false)}
+    />
+  );
+}
+
+function CommentForm(props: {
+  placeholder: string;
+  autoFocus?: boolean;
+  onSubmit: (body: string) => Promise<void>;
+  onCancel?: () => void;
+}) {
+  const [body, setBody] = useState("");
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function submit() {
+    if (!body.trim() || sending) return;
+    setSending(true);
+    setError(null);
+    try {
+      await props.onSubmit(body.trim());
+      setBody("");
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : t("drawer.sendFailed"));
+    } finally {
+      setSending(false);
+    }
+  }
+
+  return (
+    <div className="sb-comment-form">
+      <textarea
+        className="sb-input sb-textarea"
+        placeholder={props.placeholder}
+        aria-label={props.placeholder}
+        value={body}
+        autoFocus={props.autoFocus}
+        onChange={(e) => setBody(e.target.value)}
+        onKeyDown={(e) => {
+          // Ctrl/Cmd+Enter sends
+          if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) void submit();
+        }}
+      />
+      {error ? <div className="sb-sync sb-sync-failed">{error}</div> : null}
+      <div className="sb-modal-actions">
+        {props.onCancel ? (
+          <button
+            className="sb-btn sb-btn-mini sb-btn-ghost"
+            onClick={props.onCancel}
+          >
+            {t("dialog.cancel")}
+          </button>
+        ) : null}
+        <button
+          className="sb-btn sb-btn-mini"
+          disabled={!body.trim() || sending}
+          onClick={() => void submit()}
+        >
+          {sending ? t("drawer.sending") : t("drawer.comment")}
+        </button>
+      </div>
+    </div>
+  );
+}
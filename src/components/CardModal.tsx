@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { BACKLOG, CARD_PRIORITIES } from "../lib/board";
+import { t } from "../lib/i18n";
+import { toggleTask } from "../lib/markdown";
+import type {
+  Card,
+  CardInput,
+  CardPriority,
+  Label,
+  Member,
+  Sprint,
+} from "../lib/types";
+import { LabelChip } from "./Labels";
+import Markdown from "./Markdown";
+import Modal from "./Modal";
+
+// Create/edit dialog for a card. Opened anew for each card (see the key on
+// it in SprintBoard), so the form starts from the card it was opened for.
+// Uses the board's sb-* styles.
+
+export default function CardModal(props: {
+  mode: "create" | "edit";
+  card: Card | null;
+  sprints: Sprint[];
+  labels: Label[];
+  members: Member[];
+  // cards this one can belong to as its epic
+  epics: Card[];
+  defaultSprintId: string | null;
+  onClose: () => void;
+  onSubmit: (data: CardInput) => void;
+}) {
+  const [title, setTitle] = useState(props.card?.title ?? "");
+  const [description, setDescription] = useState(props.card?.description ?? "");
+  const [preview, setPreview] = useState(false);
+  const [points, setPoints] = useState(props.card?.points ?? 1);
+  const [sprintId, setSprintId] = useState(
+    props.card ? (props.card.sprintId ?? null) : props.defaultSprintId
+  );
+  const [assigneeIds, setAssigneeIds] = useState(props.card?.assigneeIds ?? []);
+  const [labelIds, setLabelIds] = useState(props.card?.labelIds ?? []);
+  const [dueDate, setDueDate] = useState(props.card?.dueDate ?? "");
+  const [priority, setPriority] = useState<CardPriority | null>(
+    props.card?.priority ?? null
+  );
+  const [epicId, setEpicId] = useState(props.card?.epicId ?? null);
+  const toggle = (ids: string[], id: string) =>
+    ids.includes(id) ? ids.filter((x) => x !== id) : [...ids, id];
+
+  return (
+    <Modal
+      title={
+        props.mode === "create" ? t("cardModal.create") : t("cardModal.edit")
+      }
+      onClose={props.onClose}
+    >
+      <label className="sb-label">
+        {t("cardModal.title")}
+        <input
+          className="sb-input"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          autoFocus
+        />
+      </label>
+
+      <div className="sb-label">
+        <div className="sb-tabs" role="tablist">
+          {t("cardModal.description")}
+          <div className="sb-spacer" />
+          <button
+            type="button"
+            role="tab"
+            className={`sb-tab ${preview ? "" : "sb-tab-on"}`}
+            aria-selected={!preview}
+            onClick={() => setPreview(false)}
+          >
+            {t("cardModal.write")}
+          </button>
+          <button
+            type="button"
+            role="tab"
+            className={`sb-tab ${preview ? "sb-tab-on" : ""}`}
+            aria-selected={preview}
+            onClick={() => setPreview(true)}
+          >
+            {t("cardModal.preview")}
+          </button>
+        </div>
+        {preview ? (
+          <div className="sb-input sb-preview">
+            {description.trim() ? (
+              <Markdown
+                text={description}
+                onToggleTask={(index) =>
+                  setDescription(toggleTask(description, index))
+                }
+              />
+            ) : (
+              <span className="sb-muted">{t("cardModal.nothing")}</span>
+            )}
+          </div>
+        ) : (
+          <textarea
+            className="sb-input sb-textarea"
+            aria-label={t("cardModal.description")}
+            placeholder={t("cardModal.markdown")}
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+          />
+        )}
+      </div>
+
+      <label className="sb-label">
+        {t("cardModal.points")}
+        <input
+          className="sb-input"
+          type="number"
+          min={0}
+          step={1}
+          value={points}
+          onChange={(e) => setPoints(Number(e.target.value))}
+        />
+      </label>
+
+      <label className="sb-label">
+        {t("cardModal.sprint")}
+        <select
+          className="sb-input"
+          value={sprintId ?? BACKLOG}
+          onChange={(e) =>
+            setSprintId(e.target.value === BACKLOG ? null : e.target.value)
+          }
+        >
+          <option value={BACKLOG}>{t("sprint.backlog")}</option>
+          {props.sprints
+            .filter((s) => s.state !== "closed" || s.id === sprintId)
+            .map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.name}
+              </option>
+            ))}
+        </select>
+      </label>
+
+      <div className="sb-sprint-dates">
+        <label className="sb-label">
+          {t("cardModal.dueDate")}
+          <input
+            className="sb-input"
+            type="date"
+            value={dueDate}
+            onChange={(e) => setDueDate(e.target.value)}
+          />
+        </label>
+        <label className="sb-label">
+          {t("cardModal.priority")}
+          <select
+            className="sb-input"
+            value={priority ?? ""}
+            onChange={(e) =>
+              setPriority((e.target.value || null) as CardPriority | null)
+            }
+          >
+            <option value="">{t("dialog.none")}</option>
+            {CARD_PRIORITIES.map((p) => (
+              <option key={p} value={p}>
+                {t(`priority.${p}`)}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {props.epics.length > 0 ? (
+        <label className="sb-label">
+          {t("cardModal.epic")}
+          <select
+            className="sb-input"
+            value={epicId ?? ""}
+            onChange={(e) => setEpicId(e.target.value || null)}
+          >
+            <option value="">{t("dialog.none")}</option>
+            {props.epics.map((c) => (
+              <option key={c.id} value={c.id}>
+                {c.title || t("card.untitled")}
+              </option>
+            ))}
+          </select>
+        </label>
+      ) : null}
+
+      {props.members.length > 0 ? (
+        <fieldset className="sb-fieldset">
+          <legend className="sb-label">{t("cardModal.assignees")}</legend>
+          {props.members.map((m) => (
+            <label key={m.id} className="sb-check-inline">
+              <input
+                type="checkbox"
+                checked={assigneeIds.includes(m.id)}
+                onChange={() => setAssigneeIds(toggle(assigneeIds, m.id))}
+              />
+              {m.name}
+            </label>
+          ))}
+        </fieldset>
+      ) : null}
+
+      {props.labels.length > 0 ? (
+        <fieldset className="sb-fieldset">
+          <legend className="sb-label">{t("cardModal.labels")}</legend>
+          <div className="sb-tags">
+            {props.labels.map((l) => (
+              <LabelChip
+                key={l.id}
+                label={l}
+                selected={labelIds.includes(l.id)}
+                onClick={() => setLabelIds(toggle(labelIds, l.id))}
+              />
+            ))}
+          </div>
+        </fieldset>
+      ) : null}
+
+      <div className="sb-modal-actions">
+        <button className="sb-btn sb-btn-ghost" onClick={props.onClose}>
+          {t("dialog.cancel")}
+        </button>
+        <button
+          className="sb-btn"
+          onClick={() =>
+            props.onSubmit({
+              title: title.trim(),
+              description: description.trim(),
+              points: Number.isFinite(points) ? points : 0,
+              sprintId,
+              assigneeIds,
+              // labels deleted while the dialog was open are dropped
+              labelIds: labelIds.filter((id) =>
+                props.labels.some((l) => l.id === id)
+              ),
+              dueDate: dueDate || null,
+              priority,
+              // an epic deleted while the dialog was open is dropped
+              epicId:
+                epicId && props.epics.some((c) => c.id === epicId)
+                  ? epicId
+                  : null,
+            })
+          }
+        >
+          {props.mode === "create" ? t("dialog.create") : t("dialog.save")}
+        </button>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,168 @@
+import { formatNumber, t } from "../lib/i18n";
+import type { BurndownPoint, VelocityPoint } from "../lib/reports";
+
+// Small hand-rolled SVG charts for the reports view. Drawn in a fixed
+// viewBox and scaled to the container width.
+
+const W = 560;
+const H = 240;
+const PAD = { top: 16, right: 16, bottom: 36, left: 40 };
+const PLOT_W = W - PAD.left - PAD.right;
+const PLOT_H = H - PAD.top - PAD.bottom;
+
+// round axis maximum with 4 gridlines
+function niceMax(value: number) {
+  if (value <= 4) return 4;
+  const step = 10 ** Math.floor(Math.log10(value / 4));
+  const nice = [1, 2, 2.5, 5, 10].find((m) => value / 4 <= m * step) ?? 10;
+  return 4 * nice * step;
+}
+
+function YAxis(props: { max: number; y: (v: number) => number }) {
+  const ticks = [0, 1, 2, 3, 4].map((i) => (props.max * i) / 4);
+  return (
+    <g className="sb-chart-grid">
+      {ticks.map((tick) => (
+        <g key={tick}>
+          <line
+            x1={PAD.left}
+            x2={W - PAD.right}
+            y1={props.y(tick)}
+            y2={props.y(tick)}
+          />
+          <text
+            x={PAD.left - 6}
+            y={props.y(tick)}
+            textAnchor="end"
+            dominantBaseline="middle"
+          >
+            {formatNumber(Math.round(tick * 10) / 10)}
+          </text>
+        </g>
+      ))}
+    </g>
+  );
+}
+
+export function BurndownChart(props: { points: BurndownPoint[] }) {
+  const { points } = props;
+  if (points.length === 0) {
+    return <div className="sb-muted">{t("chart.noDays")}</div>;
+  }
+
+  const max = niceMax(
+    Math.max(...points.map((p) => Math.max(p.ideal, p.remaining ?? 0)))
+  );
+  const x = (i: number) =>
+    PAD.left + (points.length === 1 ? 0 : (PLOT_W * i) / (points.length - 1));
+  const y = (v: number) => PAD.top + PLOT_H - (PLOT_H * v) / max;
+
+  const ideal = points.map((p, i) => `${x(i)},${y(p.ideal)}`).join(" ");
+  const actual = points
+    .map((p, i) => (p.remaining === null ? null : `${x(i)},${y(p.remaining)}`))
+    .filter((p) => p !== null)
+    .join(" ");
+  // label every day on short sprints, about 7 labels otherwise
+  const every = Math.max(1, Math.ceil(points.length / 7));
+
+  return (
+    <svg
+      className="sb-chart"
+      viewBox={`0 0 ${W} ${H}`}
+      role="img"
+      aria-label={t("chart.burndown")}
+    >
+      <YAxis max={max} y={y} />
+      {points.map((p, i) =>
+        i % every === 0 || i === points.length - 1 ? (
+          <text
+            key={p.date}
+            className="sb-chart-label"
+            x={x(i)}
+            y={H - PAD.bottom + 16}
+            textAnchor="middle"
+          >
+            {p.date.slice(5)}
+          </text>
+        ) : null
+      )}
+      <polyline className="sb-chart-ideal" points={ideal} />
+      <polyline className="sb-chart-line" points={actual} />
+      {points.map((p, i) =>
+        p.remaining === null ? null : (
+          <circle
+            key={p.date}
+            className="sb-chart-dot"
+            cx={x(i)}
+            cy={y(p.remaining)}
+            r={3}
+          >
+            <title>
+              {t("chart.remaining", { date: p.date, points: p.remaining })}
+            </title>
+          </circle>
+        )
+      )}
+    </svg>
+  );
+}
+
+export function VelocityChart(props: { points: VelocityPoint[] }) {
+  const { points } = props;
+  if (points.length === 0) {
+    return <div className="sb-muted">{t("chart.noVelocity")}</div>;
+  }
+
+  const max = niceMax(Math.max(...points.map((p) => p.committed)));
+  const slot = PLOT_W / points.length;
+  const bar = Math.min(28, slot / 3);
+  const y = (v: number) => PAD.top + PLOT_H - (PLOT_H * v) / max;
+
+  return (
+    <svg
+      className="sb-chart"
+      viewBox={`0 0 ${W} ${H}`}
+      role="img"
+      aria-label={t("chart.velocity")}
+    >
+      <YAxis max={max} y={y} />
+      {points.map((p, i) => {
+        const cx = PAD.left + slot * i + slot / 2;
+        return (
+          <g key={p.sprintId}>
+            <rect
+              className="sb-chart-committed"
+              x={cx - bar}
+              y={y(p.committed)}
+              width={bar}
+              height={y(0) - y(p.committed)}
+            >
+              <title>
+                {t("chart.committed", { sprint: p.name, points: p.committed })}
+              </title>
+            </rect>
+            <rect
+              className="sb-chart-completed"
+              x={cx}
+              y={y(p.completed)}
+              width={bar}
+              height={y(0) - y(p.completed)}
+            >
+              <title>
+                {t("chart.completed", { sprint: p.name, points: p.completed })}
+              </title>
+            </rect>
+            <text
+              className="sb-chart-label"
+              x={cx}
+              y={H - PAD.bottom + 16}
+              textAnchor="middle"
+            >
+              {p.name}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
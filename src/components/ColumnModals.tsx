@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { t } from "../lib/i18n";
+import type { Card, Column, ColumnId, WipLimit } from "../lib/types";
+import Modal from "./Modal";
+
+// Small dialogs around columns: name, WIP limit, and picking the column a
+// card moves to. Uses the board's sb-* styles.
+
+export function WipLimitModal(props: {
+  column: Column | undefined;
+  onClose: () => void;
+  onSubmit: (limit: WipLimit | null) => void;
+}) {
+  const cur = props.column?.wipLimit;
+  const [cards, setCards] = useState(cur?.cards?.toString() ?? "");
+  const [points, setPoints] = useState(cur?.points?.toString() ?? "");
+  const [hard, setHard] = useState(cur?.hard ?? false);
+
+  const parse = (raw: string) => {
+    const n = Number(raw);
+    return raw.trim() === "" || !Number.isFinite(n) || n < 0
+      ? null
+      : Math.floor(n);
+  };
+
+  function save() {
+    const limit = { cards: parse(cards), points: parse(points), hard };
+    props.onSubmit(
+      limit.cards === null && limit.points === null ? null : limit
+    );
+  }
+
+  return (
+    <Modal
+      title={t("limit.title", { column: props.column?.title ?? "" })}
+      onClose={props.onClose}
+    >
+      <label className="sb-label">
+        {t("limit.cards")}
+        <input
+          className="sb-input"
+          type="number"
+          min={0}
+          step={1}
+          placeholder={t("limit.none")}
+          value={cards}
+          onChange={(e) => setCards(e.target.value)}
+          autoFocus
+        />
+      </label>
+
+      <label className="sb-label">
+        {t("limit.points")}
+        <input
+          className="sb-input"
+          type="number"
+          min={0}
+          step={1}
+          placeholder={t("limit.none")}
+          value={points}
+          onChange={(e) => setPoints(e.target.value)}
+        />
+      </label>
+
+      <label className="sb-check">
+        <input
+          type="checkbox"
+          checked={hard}
+          onChange={(e) => setHard(e.target.checked)}
+        />
+        {t("limit.hard")}
+      </label>
+
+      <div className="sb-modal-actions">
+        {cur ? (
+          <button
+            className="sb-btn sb-btn-danger"
+            onClick={() => props.onSubmit(null)}
+          >
+            {t("limit.remove")}
+          </button>
+        ) : null}
+        <div className="sb-spacer" />
+        <button className="sb-btn sb-btn-ghost" onClick={props.onClose}>
+          {t("dialog.cancel")}
+        </button>
+        <button className="sb-btn" onClick={save}>
+          {t("dialog.save")}
+        </button>
+      </div>
+    </Modal>
+  );
+}
+
+// "m" on a focused card: pick the column with the arrows, Enter moves
+export function MoveCardModal(props: {
+  card: Card | undefined;
+  columns: Column[];
+  onClose: () => void;
+  onSubmit: (columnId: ColumnId) => void;
+}) {
+  const [columnId, setColumnId] = useState(
+    () =>
+      props.columns.find((c) => c.id !== props.card?.columnId)?.id ??
+      props.columns[0]?.id ??
+      ""
+  );
+
+  return (
+    <Modal
+      title={t("moveModal.title", {
+        title: props.card?.title || t("card.untitled"),
+      })}
+      onClose={props.onClose}
+    >
+      <label className="sb-label">
+        {t("moveModal.column")}
+        <select
+          className="sb-input"
+          value={columnId}
+          onChange={(e) => setColumnId(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && columnId) {
+              e.preventDefault();
+              props.onSubmit(columnId);
+            }
+          }}
+          autoFocus
+        >
+          {props.columns.map((c) => (
+            <option key={c.id} value={c.id}>
+              {c.title}
+              {c.id === props.card?.columnId ? t("moveModal.current") : ""}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <div className="sb-modal-actions">
+        <button className="sb-btn sb-btn-ghost" onClick={props.onClose}>
+          {t("dialog.cancel")}
+        </button>
+        <button
+          className="sb-btn"
+          disabled={!columnId || columnId === props.card?.columnId}
+          onClick={() => props.onSubmit(columnId)}
+        >
+          {t("moveModal.move")}
+        </button>
+      </div>
+    </Modal>
+  );
+}
+
+export function ColumnModal(props: {
+  title: string;
+  initialValue: string;
+  onClose: () => void;
+  onSubmit: (name: string) => void;
+}) {
+  const [name, setName] = useState(props.initialValue);
+
+  return (
+    <Modal title={props.title} onClose={props.onClose}>
+      <label className="sb-label">
+        {t("columnModal.name")}
+        <input
+          className="sb-input"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          autoFocus
+        />
+      </label>
+
+      <div className="sb-modal-actions">
+        <button className="sb-btn sb-btn-ghost" onClick={props.onClose}>
+          {t("dialog.cancel")}
+        </button>
+        <button className="sb-btn" onClick={() => props.onSubmit(name)}>
+          {t("dialog.save")}
+        </button>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { formatPoints, t } from "../lib/i18n";
+import type { Card } from "../lib/types";
+import Modal from "./Modal";
+
+// Ctrl+K palette: type to find a board action or jump to a card by title.
+// Arrows pick, Enter runs, Esc closes. Uses the board's sb-* styles.
+
+export type PaletteCommand = {
+  id: string;
+  label: string;
+  // key hint shown on the right, e.g. "Ctrl+Z"
+  shortcut?: string;
+  run: () => void;
+};
+
+// cards listed for a query; the rest are one more keystroke away
+const MAX_CARDS = 8;
+
+type Item =
+  { type: "command"; command: PaletteCommand } | { type: "card"; card: Card };
+
+// every word of the query appears in the text
+function matches(text: string, query: string) {
+  const t = text.toLowerCase();
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .every((w) => t.includes(w));
+}
+
+export default function CommandPalette(props: {
+  commands: PaletteCommand[];
+  cards: Card[];
+  onOpenCard: (cardId: string) => void;
+  onClose: () => void;
+}) {
+  const [query, setQuery] = useState("");
+  const [active, setActive] = useState(0);
+
+  const q = query.trim();
+  const items: Item[] = [
+    ...props.commands
+      .filter((c) => !q || matches(c.label, q))
+      .map((command) => ({ type: "command" as const, command })),
+    ...(q
+      ? props.cards
+          .filter((c) => matches(c.title, q))
+          .slice(0, MAX_CARDS)
+          .map((card) => ({ type: "card" as const, card }))
+      : []),
+  ];
+  const current = Math.min(active, items.length - 1);
+
+  function run(item: Item) {
+    props.onClose();
+    if (item.type === "command") item.command.run();
+    else props.onOpenCard(item.card.id);
+  }
+
+  function onKeyDown(e: React.KeyboardEvent) {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      if (items.length === 0) return;
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActive((current + step + items.length) % items.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      if (items[current]) run(items[current]);
+    }
+  }
+
+  const itemId = (i: number) => `sb-palette-item-${i}`;
+
+  return (
+    <Modal
+      title={t("palette.title")}
+      hideTitle
+      onClose={props.onClose}
+      className="sb-palette"
+      backdropClassName="sb-palette-backdrop"
+    >
+      <input
+        className="sb-input sb-palette-input"
+        placeholder={t("palette.placeholder")}
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setActive(0);
+        }}
+        onKeyDown={onKeyDown}
+        role="combobox"
+        aria-expanded="true"
+        aria-controls="sb-palette-list"
+        aria-activedescendant={items.length > 0 ? itemId(current) : undefined}
+        autoFocus
+      />
+      <ul className="sb-palette-list" id="sb-palette-list" role="listbox">
+        {items.length === 0 ? (
+          <li className="sb-muted sb-palette-empty">{t("palette.empty")}</li>
+        ) : null}
+        {items.map((item, i) => (
+          <li
+            key={
+              item.type === "command"
+                ? `cmd:${item.command.id}`
+                : `card:${item.card.id}`
+            }
+            id={itemId(i)}
+            role="option"
+            aria-selected={i === current}
+            className={`sb-palette-item ${i === current ? "sb-palette-active" : ""}`}
+            onMouseEnter={() => setActive(i)}
+            onMouseDown={(e) => {
+              // keep focus in the input
+              e.preventDefault();
+              run(item);
+            }}
+          >
+            {item.type === "command" ? (
+              <>
+                <span>{item.command.label}</span>
+                {item.command.shortcut ? (
+                  <kbd className="sb-kbd">{item.command.shortcut}</kbd>
+                ) : null}
+              </>
+            ) : (
+              <>
+                <span>
+                  <span className="sb-muted">{t("palette.card")}</span>
+                  {item.card.title || t("card.untitled")}
+                </span>
+                <span className="sb-muted">
+                  {formatPoints(item.card.points)}
+                </span>
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+    </Modal>
+  );
+}
@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { describeConflict } from "../lib/conflicts";
+import { t } from "../lib/i18n";
+import type { Mutation } from "../lib/outbox";
+import type { BoardState } from "../lib/types";
+import Modal from "./Modal";
+
+// Shown when the server rejected a queued edit as stale: our value and the
+// server's side by side, with a per-field pick for plain card edits. Uses the
+// board's sb-* styles.
+
+export default function ConflictDialog(props: {
+  mutation: Mutation;
+  server: BoardState;
+  local: BoardState;
+  onKeepMine: () => void;
+  onTakeTheirs: () => void;
+  onMerge: (keepMine: Set<string>) => void;
+}) {
+  const info = describeConflict(props.mutation, props.server, props.local);
+  // fields where the user picked their own value (default: all of them)
+  const [keepMine, setKeepMine] = useState<Set<string>>(
+    () => new Set(info.fields.map((f) => f.field))
+  );
+
+  function pick(field: string, mine: boolean) {
+    setKeepMine((prev) => {
+      const next = new Set(prev);
+      if (mine) next.add(field);
+      else next.delete(field);
+      return next;
+    });
+  }
+
+  return (
+    <Modal title={t("conflict.title")}>
+      <div className="sb-muted">
+        {info.missing
+          ? t("conflict.deleted", { subject: info.subject })
+          : t("conflict.changed", {
+              subject: info.subject,
+              version: String(props.server.version),
+            })}
+      </div>
+
+      {info.fields.length > 0 ? (
+        <table className="sb-diff">
+          <thead>
+            <tr>
+              <th />
+              <th>{t("conflict.yours")}</th>
+              <th>{t("conflict.theirs")}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {info.fields.map((f) => (
+              <tr
+                key={f.field}
+                className={f.mine !== f.theirs ? "sb-diff-changed" : ""}
+              >
+                <th>{f.label}</th>
+                <td>
+                  <label className="sb-diff-pick">
+                    {info.mergeable ? (
+                      <input
+                        type="radio"
+                        name={`pick-${f.field}`}
+                        checked={keepMine.has(f.field)}
+                        onChange={() => pick(f.field, true)}
+                      />
+                    ) : null}
+                    <span>{f.mine}</span>
+                  </label>
+                </td>
+                <td>
+                  <label className="sb-diff-pick">
+                    {info.mergeable ? (
+                      <input
+                        type="radio"
+                        name={`pick-${f.field}`}
+                        checked={!keepMine.has(f.field)}
+                        onChange={() => pick(f.field, false)}
+                      />
+                    ) : null}
+                    <span>{f.theirs}</span>
+                  </label>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : null}
+
+      <div className="sb-modal-actions">
+        <button className="sb-btn sb-btn-ghost" onClick={props.onTakeTheirs}>
+          {t("conflict.takeTheirs")}
+        </button>
+        {info.mergeable ? (
+          <button
+            className="sb-btn sb-btn-ghost"
+            onClick={() => props.onMerge(keepMine)}
+          >
+            {t("conflict.merge")}
+          </button>
+        ) : null}
+        <button
+          className="sb-btn"
+          onClick={props.onKeepMine}
+          disabled={info.missing}
+        >
+          {t("conflict.keepMine")}
+        </button>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,360 @@
+import { useState } from "react";
+import { sortedColumns } from "../lib/board";
+import { formatPoints, t, type MessageKey } from "../lib/i18n";
+import { menuKeyDown } from "../lib/keyboard";
+import {
+  IMPORT_FIELDS,
+  ImportError,
+  downloadExport,
+  guessMapping,
+  matchColumn,
+  parseCsv,
+  planFromCsv,
+  planFromJson,
+  type CsvMapping,
+  type ImportField,
+  type ImportPlan,
+} from "../lib/transfer";
+import type { BoardState } from "../lib/types";
+import Modal from "./Modal";
+
+// Board menu for JSON/CSV export and the import wizard (pick a file, map
+// spreadsheet columns, preview). Uses the board's sb-* styles.
+
+const FIELD_LABELS: Record<ImportField, MessageKey> = {
+  column: "transfer.fieldColumn",
+  title: "transfer.fieldTitle",
+  description: "transfer.fieldDescription",
+  points: "transfer.fieldPoints",
+  sprint: "transfer.fieldSprint",
+  labels: "transfer.fieldLabels",
+  due: "transfer.fieldDue",
+  priority: "transfer.fieldPriority",
+};
+
+// cards listed per column in the preview
+const PREVIEW_CARDS = 5;
+const PREVIEW_WARNINGS = 10;
+
+export function TransferMenu(props: {
+  board: BoardState;
+  onImport: () => void;
+}) {
+  const { board } = props;
+  return (
+    <details className="sb-menu" onKeyDown={menuKeyDown}>
+      <summary className="sb-menu-btn" title={t("transfer.menu")}>
+        {t("transfer.data")}
+      </summary>
+      <div className="sb-menu-pop">
+        <button
+          className="sb-menu-item"
+          onClick={() => downloadExport(board, "json")}
+        >
+          {t("transfer.exportJson")}
+        </button>
+        <button
+          className="sb-menu-item"
+          onClick={() => downloadExport(board, "csv")}
+        >
+          {t("transfer.exportCsv")}
+        </button>
+        <div className="sb-menu-sep" />
+        <button className="sb-menu-item" onClick={props.onImport}>
+          {t("transfer.import")}
+        </button>
+      </div>
+    </details>
+  );
+}
+
+type WizardStep =
+  | { step: "file" }
+  | { step: "map"; rows: string[][]; mapping: CsvMapping; hasHeader: boolean }
+  | { step: "preview"; plan: ImportPlan };
+
+export function ImportWizard(props: {
+  board: BoardState;
+  onClose: () => void;
+  onImport: (plan: ImportPlan) => void;
+}) {
+  const [state, setState] = useState<WizardStep>({ step: "file" });
+  const [error, setError] = useState<string | null>(null);
+  const defaultColumn =
+    sortedColumns(props.board.columns)[0]?.title ?? t("transfer.defaultColumn");
+
+  async function pickFile(file: File) {
+    setError(null);
+    const text = await file.text();
+    try {
+      if (/\.json$/i.test(file.name) || text.trimStart().startsWith("{")) {
+        setState({ step: "preview", plan: planFromJson(text) });
+        return;
+      }
+      const rows = parseCsv(text);
+      if (rows.length === 0) throw new ImportError(t("transfer.empty"));
+      setState({
+        step: "map",
+        rows,
+        mapping: guessMapping(rows[0]),
+        hasHeader: true,
+      });
+    } catch (e: unknown) {
+      setError(e instanceof ImportError ? e.message : t("transfer.readFailed"));
+    }
+  }
+
+  function toPreview(
+    rows: string[][],
+    mapping: CsvMapping,
+    hasHeader: boolean
+  ) {
+    setError(null);
+    try {
+      const plan = planFromCsv(rows, mapping, { hasHeader, defaultColumn });
+      setState({ step: "preview", plan });
+    } catch (e: unknown) {
+      setError(e instanceof ImportError ? e.message : t("transfer.readFailed"));
+    }
+  }
+
+  const cardCount =
+    state.step === "preview"
+      ? state.plan.columns.reduce((n, c) => n + c.cards.length, 0)
+      : 0;
+
+  return (
+    <Modal title={t("transfer.title")} onClose={props.onClose} wide>
+      {state.step === "file" ? (
+        <>
+          <div className="sb-muted">{t("transfer.intro")}</div>
+          <label className="sb-label">
+            {t("transfer.file")}
+            <input
+              className="sb-input"
+              type="file"
+              accept=".json,.csv,application/json,text/csv"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) void pickFile(file);
+              }}
+            />
+          </label>
+        </>
+      ) : null}
+
+      {state.step === "map" ? (
+        <CsvMappingStep
+          rows={state.rows}
+          mapping={state.mapping}
+          hasHeader={state.hasHeader}
+          defaultColumn={defaultColumn}
+          onChange={(mapping, hasHeader) =>
+            setState({ ...state, mapping, hasHeader })
+          }
+        />
+      ) : null}
+
+      {state.step === "preview" ? (
+        <PlanPreview board={props.board} plan={state.plan} />
+      ) : null}
+
+      {error ? <div className="sb-alert">{error}</div> : null}
+
+      <div className="sb-modal-actions">
+        <button className="sb-btn sb-btn-ghost" onClick={props.onClose}>
+          {t("transfer.cancel")}
+        </button>
+        {state.step !== "file" ? (
+          <button
+            className="sb-btn sb-btn-ghost"
+            onClick={() => {
+              setError(null);
+              setState({ step: "file" });
+            }}
+          >
+            {t("transfer.back")}
+          </button>
+        ) : null}
+        {state.step === "map" ? (
+          <button
+            className="sb-btn"
+            onClick={() =>
+              toPreview(state.rows, state.mapping, state.hasHeader)
+            }
+          >
+            {t("transfer.preview")}
+          </button>
+        ) : null}
+        {state.step === "preview" ? (
+          <button
+            className="sb-btn"
+            disabled={cardCount === 0}
+            onClick={() => props.onImport(state.plan)}
+          >
+            {t("transfer.importCards", { count: cardCount })}
+          </button>
+        ) : null}
+      </div>
+    </Modal>
+  );
+}
+
+function CsvMappingStep(props: {
+  rows: string[][];
+  mapping: CsvMapping;
+  hasHeader: boolean;
+  defaultColumn: string;
+  onChange: (mapping: CsvMapping, hasHeader: boolean) => void;
+}) {
+  const width = Math.max(...props.rows.map((r) => r.length));
+  const names = Array.from({ length: width }, (_, i) =>
+    props.hasHeader && props.rows[0][i]?.trim()
+      ? props.rows[0][i].trim()
+      : t("transfer.sheetColumn", { index: i + 1 })
+  );
+  const first = props.hasHeader ? 1 : 0;
+  const sample = props.rows.slice(first, first + 3);
+
+  return (
+    <>
+      <label className="sb-check">
+        <input
+          type="checkbox"
+          checked={props.hasHeader}
+          onChange={(e) => props.onChange(props.mapping, e.target.checked)}
+        />
+        {t("transfer.hasHeader")}
+      </label>
+
+      <div className="sb-map">
+        {IMPORT_FIELDS.map((field) => (
+          <label key={field} className="sb-label">
+            {t(FIELD_LABELS[field])}
+            <select
+              className="sb-input"
+              value={props.mapping[field] ?? ""}
+              onChange={(e) =>
+                props.onChange(
+                  {
+                    ...props.mapping,
+                    [field]:
+                      e.target.value === "" ? null : Number(e.target.value),
+                  },
+                  props.hasHeader
+                )
+              }
+            >
+              <option value="">
+                {field === "column"
+                  ? t("transfer.allInto", { column: props.defaultColumn })
+                  : t("transfer.notImported")}
+              </option>
+              {names.map((name, i) => (
+                <option key={i} value={i}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      <table className="sb-report-table sb-sample">
+        <thead>
+          <tr>
+            {names.map((name, i) => (
+              <th key={i}>{name}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {sample.map((row, r) => (
+            <tr key={r}>
+              {names.map((_, i) => (
+                <td key={i}>{row[i] ?? ""}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </>
+  );
+}
+
+function PlanPreview(props: { board: BoardState; plan: ImportPlan }) {
+  const { plan } = props;
+  const warnings = plan.warnings;
+  return (
+    <>
+      <table className="sb-report-table">
+        <thead>
+          <tr>
+            <th>{t("transfer.column")}</th>
+            <th>{t("transfer.cards")}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {plan.columns.map((col, i) => (
+            <tr key={i}>
+              <td>
+                {col.title}{" "}
+                {matchColumn(props.board, col.title) ? null : (
+                  <span className="sb-pill sb-pill-pending">
+                    {t("transfer.new")}
+                  </span>
+                )}
+                <ul className="sb-preview-cards">
+                  {col.cards.slice(0, PREVIEW_CARDS).map((c, j) => (
+                    <li key={j}>
+                      {c.title}{" "}
+                      <span className="sb-muted">{formatPoints(c.points)}</span>
+                    </li>
+                  ))}
+                  {col.cards.length > PREVIEW_CARDS ? (
+                    <li className="sb-muted">
+                      {t("transfer.more", {
+                        count: col.cards.length - PREVIEW_CARDS,
+                      })}
+                    </li>
+                  ) : null}
+                </ul>
+              </td>
+              <td>{col.cards.length}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {plan.sprints.length > 0 ? (
+        <div className="sb-muted">
+          {t("transfer.sprints", {
+            names: plan.sprints.map((sp) => sp.name).join(", "),
+          })}
+        </div>
+      ) : null}
+      {plan.labels.length > 0 ? (
+        <div className="sb-muted">
+          {t("transfer.labels", {
+            names: plan.labels.map((l) => l.name).join(", "),
+          })}
+        </div>
+      ) : null}
+
+      {warnings.length > 0 ? (
+        <div className="sb-alert">
+          {warnings.slice(0, PREVIEW_WARNINGS).map((w, i) => (
+            <div key={i}>{w}</div>
+          ))}
+          {warnings.length > PREVIEW_WARNINGS ? (
+            <div>
+              {t("transfer.more", {
+                count: warnings.length - PREVIEW_WARNINGS,
+              })}
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+    </>
+  );
+}
@@ -0,0 +1,167 @@
+import { useState, type CSSProperties } from "react";
+import { t } from "../lib/i18n";
+import type { Label, LabelInput, LabelPatch } from "../lib/types";
+import Modal from "./Modal";
+
+// Board labels: the colored chip shown on cards and the dialog that manages
+// the board's label set. Uses the board's sb-* styles.
+
+const LABEL_COLORS = [
+  "#ef4444",
+  "#f97316",
+  "#eab308",
+  "#22c55e",
+  "#06b6d4",
+  "#3b82f6",
+  "#8b5cf6",
+  "#ec4899",
+  "#64748b",
+];
+
+export function LabelChip(props: {
+  label: Label;
+  selected?: boolean;
+  onClick?: () => void;
+}) {
+  const style = { "--sb-tag": props.label.color } as CSSProperties;
+  if (!props.onClick) {
+    return (
+      <span className="sb-tag" style={style}>
+        {props.label.name}
+      </span>
+    );
+  }
+  return (
+    <button
+      type="button"
+      className={`sb-tag ${props.selected ? "" : "sb-tag-off"}`}
+      style={style}
+      aria-pressed={!!props.selected}
+      onClick={props.onClick}
+    >
+      {props.label.name}
+    </button>
+  );
+}
+
+function ColorPicker(props: {
+  value: string;
+  onChange: (color: string) => void;
+}) {
+  return (
+    <div className="sb-colors">
+      {LABEL_COLORS.map((color) => (
+        <button
+          key={color}
+          type="button"
+          className={`sb-color ${props.value === color ? "sb-color-on" : ""}`}
+          style={{ background: color }}
+          aria-label={color}
+          aria-pressed={props.value === color}
+          onClick={() => props.onChange(color)}
+        />
+      ))}
+    </div>
+  );
+}
+
+function LabelRow(props: {
+  label: Label;
+  onUpdate: (patch: LabelPatch) => void;
+  onDelete: () => void;
+}) {
+  const [name, setName] = useState(props.label.name);
+  const rename = () => {
+    const next = name.trim();
+    if (next && next !== props.label.name) props.onUpdate({ name: next });
+    else setName(props.label.name);
+  };
+
+  return (
+    <div className="sb-tag-row">
+      <input
+        className="sb-input"
+        value={name}
+        aria-label={t("labels.name")}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={rename}
+        onKeyDown={(e) => e.key === "Enter" && rename()}
+      />
+      <ColorPicker
+        value={props.label.color}
+        onChange={(color) => props.onUpdate({ color })}
+      />
+      <button
+        className="sb-btn sb-btn-mini sb-btn-danger"
+        onClick={props.onDelete}
+      >
+        {t("labels.delete")}
+      </button>
+    </div>
+  );
+}
+
+export function LabelManager(props: {
+  labels: Label[];
+  onCreate: (data: LabelInput) => void;
+  onUpdate: (labelId: string, patch: LabelPatch) => void;
+  onDelete: (labelId: string) => void;
+  onClose: () => void;
+}) {
+  const [name, setName] = useState("");
+  const [color, setColor] = useState(LABEL_COLORS[0]);
+
+  const create = () => {
+    if (!name.trim()) return;
+    props.onCreate({ name: name.trim(), color });
+    setName("");
+  };
+
+  return (
+    <Modal title={t("labels.title")} onClose={props.onClose}>
+      {props.labels.length === 0 ? (
+        <div className="sb-muted">{t("labels.none")}</div>
+      ) : null}
+      {props.labels.map((label) => (
+        <LabelRow
+          key={label.id}
+          label={label}
+          onUpdate={(patch) => props.onUpdate(label.id, patch)}
+          onDelete={() => {
+            if (confirm(t("confirm.deleteLabel", { label: label.name }))) {
+              props.onDelete(label.id);
+            }
+          }}
+        />
+      ))}
+
+      <div className="sb-menu-sep" />
+
+      <div className="sb-tag-row">
+        <input
+          className="sb-input"
+          placeholder={t("labels.new")}
+          aria-label={t("labels.newName")}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && create()}
+          autoFocus
+        />
+        <ColorPicker value={color} onChange={setColor} />
+        <button
+          className="sb-btn sb-btn-mini"
+          disabled={!name.trim()}
+          onClick={create}
+        >
+          {t("labels.add")}
+        </button>
+      </div>
+
+      <div className="sb-modal-actions">
+        <button className="sb-btn" onClick={props.onClose}>
+          {t("labels.done")}
+        </button>
+      </div>
+    </Modal>
+  );
+}
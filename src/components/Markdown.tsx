@@ -0,0 +1,110 @@
+import { parseMarkdown, type Block, type Inline } from "../lib/markdown";
+import { Highlight } from "./SearchBar";
+
+// Renders a card description (see lib/markdown). Task items get a checkbox
+// when onToggleTask is given, otherwise they show read-only. Uses the board's
+// sb-* styles.
+export default function Markdown(props: {
+  text: string;
+  query?: string;
+  onToggleTask?: (index: number) => void;
+}) {
+  const query = props.query ?? "";
+  return (
+    <div className="sb-md">
+      {parseMarkdown(props.text).map((block, i) => (
+        <MarkdownBlock
+          key={i}
+          block={block}
+          query={query}
+          onToggleTask={props.onToggleTask}
+        />
+      ))}
+    </div>
+  );
+}
+
+function MarkdownBlock(props: {
+  block: Block;
+  query: string;
+  onToggleTask?: (index: number) => void;
+}) {
+  const { block, query } = props;
+  switch (block.type) {
+    case "heading":
+      return (
+        <div className={`sb-md-h sb-md-h${Math.min(block.level, 3)}`}>
+          <Inlines nodes={block.children} query={query} />
+        </div>
+      );
+    case "paragraph":
+      return (
+        <p>
+          <Inlines nodes={block.children} query={query} />
+        </p>
+      );
+    case "quote":
+      return (
+        <blockquote>
+          <Inlines nodes={block.children} query={query} />
+        </blockquote>
+      );
+    case "code":
+      return (
+        <pre>
+          <code>{block.text}</code>
+        </pre>
+      );
+    case "list": {
+      const items = block.items.map((item, i) => (
+        <li key={i} className={item.task ? "sb-md-task" : undefined}>
+          {item.task ? (
+            <input
+              type="checkbox"
+              checked={item.task.checked}
+              disabled={!props.onToggleTask}
+              onChange={() => props.onToggleTask?.(item.task!.index)}
+              // keep the click away from the card's drag/open handlers
+              onPointerDown={(e) => e.stopPropagation()}
+            />
+          ) : null}
+          <Inlines nodes={item.children} query={query} />
+        </li>
+      ));
+      return block.ordered ? <ol>{items}</ol> : <ul>{items}</ul>;
+    }
+  }
+}
+
+function Inlines(props: { nodes: Inline[]; query: string }) {
+  return (
+    <>
+      {props.nodes.map((node, i) => {
+        switch (node.type) {
+          case "text":
+            return <Highlight key={i} text={node.text} query={props.query} />;
+          case "code":
+            return <code key={i}>{node.text}</code>;
+          case "strong":
+            return (
+              <strong key={i}>
+                <Inlines nodes={node.children} query={props.query} />
+              </strong>
+            );
+          case "em":
+            return (
+              <em key={i}>
+                <Inlines nodes={node.children} query={props.query} />
+              </em>
+            );
+          case "link":
+            return (
+              <a key={i} href={node.href} target="_blank" rel="noreferrer">
+                <Inlines nodes={node.children} query={props.query} />
+              </a>
+            );
+        }
+      })}
+    </>
+  );
+}
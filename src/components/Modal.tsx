@@ -0,0 +1,102 @@
+import { useEffect, useId, useRef, useState, type ReactNode } from "react";
+
+// Shell of the board's dialogs (sb-modal styles). Labelled by its title,
+// keeps Tab inside, closes on Esc or a click on the backdrop, and gives focus
+// back to what had it before once it closes. Without onClose the dialog
+// waits for one of its own buttons (e.g. resolving a conflict).
+
+const FOCUSABLE = [
+  "a[href]",
+  "button:not(:disabled)",
+  "input:not(:disabled)",
+  "select:not(:disabled)",
+  "textarea:not(:disabled)",
+  "summary",
+  '[tabindex]:not([tabindex="-1"])',
+].join(",");
+
+export default function Modal(props: {
+  title: ReactNode;
+  onClose?: () => void;
+  wide?: boolean;
+  // read out but not shown (the palette's input speaks for itself)
+  hideTitle?: boolean;
+  className?: string;
+  backdropClassName?: string;
+  children: ReactNode;
+}) {
+  const titleId = useId();
+  const panelRef = useRef<HTMLDivElement>(null);
+  // taken before autoFocus inside the dialog moves it
+  const [returnTo] = useState(() =>
+    document.activeElement instanceof HTMLElement
+      ? document.activeElement
+      : null
+  );
+
+  useEffect(() => {
+    const panel = panelRef.current;
+    if (panel && !panel.contains(document.activeElement)) panel.focus();
+    return () => {
+      // unless the next dialog already took focus
+      const current = document.activeElement;
+      if (current && current !== document.body) return;
+      if (returnTo?.isConnected) returnTo.focus();
+    };
+  }, [returnTo]);
+
+  function onKeyDown(e: React.KeyboardEvent<HTMLDivElement>) {
+    if (e.key === "Escape" && props.onClose && !e.defaultPrevented) {
+      e.preventDefault();
+      props.onClose();
+      return;
+    }
+    if (e.key !== "Tab" || !panelRef.current) return;
+    const items = [
+      ...panelRef.current.querySelectorAll<HTMLElement>(FOCUSABLE),
+    ].filter((el) => el.offsetParent !== null || el === document.activeElement);
+    if (items.length === 0) {
+      e.preventDefault();
+      return;
+    }
+    const first = items[0];
+    const last = items[items.length - 1];
+    const active = document.activeElement;
+    if (e.shiftKey && (active === first || active === panelRef.current)) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && active === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  }
+
+  return (
+    <div
+      className={`sb-modal-backdrop ${props.backdropClassName ?? ""}`}
+      onMouseDown={(e) =>
+        e.target === e.currentTarget && props.onClose && props.onClose()
+      }
+    >
+      <div
+        ref={panelRef}
+        className={`sb-modal ${props.wide ? "sb-modal-wide" : ""} ${
+          props.className ?? ""
+        }`}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        tabIndex={-1}
+        onKeyDown={onKeyDown}
+      >
+        <div
+          id={titleId}
+          className={props.hideTitle ? "sb-sr-only" : "sb-modal-title"}
+        >
+          {props.title}
+        </div>
+        {props.children}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { ALL_CARDS, activeSprint } from "../lib/board";
+import { burndown, columnTotals, velocity } from "../lib/reports";
+import { formatNumber, t } from "../lib/i18n";
+import type { BoardState } from "../lib/types";
+import { BurndownChart, VelocityChart } from "./Charts";
+import { SprintSelect } from "./Sprints";
+
+// Reports tab of the board page. Works on the displayed board, so queued
+// offline changes are already counted. Uses the board's sb-* styles.
+export default function ReportsView(props: { board: BoardState }) {
+  const { board } = props;
+  const sprints = board.sprints || [];
+  const started = sprints.filter((s) => s.state !== "planned");
+
+  const [totalsView, setTotalsView] = useState(
+    () => activeSprint(board)?.id ?? ALL_CARDS
+  );
+  // active sprint, else the most recent one that has started
+  const [burndownId, setBurndownId] = useState(() => {
+    const latest = started
+      .slice()
+      .sort((a, b) => b.startDate.localeCompare(a.startDate))[0];
+    return activeSprint(board)?.id ?? latest?.id ?? null;
+  });
+
+  const totals = columnTotals(board, totalsView);
+  const totalCards = totals.reduce((sum, row) => sum + row.cards, 0);
+  const totalPoints = totals.reduce((sum, row) => sum + row.points, 0);
+
+  const burndownSprint = sprints.find((s) => s.id === burndownId) || null;
+  const velocityPoints = velocity(board);
+  const recent = velocityPoints.slice(-3);
+  const average =
+    recent.length > 0
+      ? Math.round(
+          (recent.reduce((sum, p) => sum + p.completed, 0) / recent.length) * 10
+        ) / 10
+      : null;
+
+  return (
+    <div className="sb-reports">
+      <section className="sb-report">
+        <div className="sb-report-head">
+          <div className="sb-report-title">{t("reports.byColumn")}</div>
+          <SprintSelect
+            sprints={sprints}
+            value={totalsView}
+            onChange={setTotalsView}
+          />
+        </div>
+        <table className="sb-report-table">
+          <thead>
+            <tr>
+              <th>{t("reports.column")}</th>
+              <th>{t("reports.cards")}</th>
+              <th>{t("reports.points")}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {totals.map((row) => (
+              <tr key={row.columnId}>
+                <td>{row.title}</td>
+                <td>{formatNumber(row.cards)}</td>
+                <td>{formatNumber(row.points)}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr>
+              <th>{t("reports.total")}</th>
+              <th>{formatNumber(totalCards)}</th>
+              <th>{formatNumber(totalPoints)}</th>
+            </tr>
+          </tfoot>
+        </table>
+      </section>
+
+      <section className="sb-report">
+        <div className="sb-report-head">
+          <div className="sb-report-title">{t("reports.burndown")}</div>
+          {started.length > 0 ? (
+            <select
+              className="sb-input sb-select"
+              value={burndownId ?? ""}
+              aria-label={t("reports.pickSprint")}
+              onChange={(e) => setBurndownId(e.target.value)}
+            >
+              {started.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.name}
+                </option>
+              ))}
+            </select>
+          ) : null}
+        </div>
+        {burndownSprint ? (
+          <>
+            <BurndownChart points={burndown(board, burndownSprint)} />
+            <div className="sb-chart-legend">
+              <span className="sb-chart-key sb-chart-key-line" />{" "}
+              {t("reports.remaining")}
+              <span className="sb-chart-key sb-chart-key-ideal" />{" "}
+              {t("reports.ideal")}
+            </div>
+          </>
+        ) : (
+          <div className="sb-muted">{t("reports.noBurndown")}</div>
+        )}
+      </section>
+
+      <section className="sb-report">
+        <div className="sb-report-head">
+          <div className="sb-report-title">{t("reports.velocity")}</div>
+          {average !== null ? (
+            <div className="sb-subtitle">
+              {t("reports.average", { count: recent.length, points: average })}
+            </div>
+          ) : null}
+        </div>
+        <VelocityChart points={velocityPoints} />
+        {velocityPoints.length > 0 ? (
+          <div className="sb-chart-legend">
+            <span className="sb-chart-key sb-chart-key-committed" />{" "}
+            {t("reports.committed")}
+            <span className="sb-chart-key sb-chart-key-completed" />{" "}
+            {t("reports.completed")}
+          </div>
+        ) : null}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import {
+  EMPTY_FILTER,
+  isFilterActive,
+  splitMatches,
+  type BoardFilter,
+} from "../lib/filter";
+import { t } from "../lib/i18n";
+import type { Label, Member } from "../lib/types";
+
+// Search/filter inputs in the board header. Uses the board's sb-* styles.
+export default function SearchBar(props: {
+  filter: BoardFilter;
+  shown: number;
+  total: number;
+  members: Member[];
+  labels: Label[];
+  onChange: (filter: BoardFilter) => void;
+}) {
+  const { filter } = props;
+  const points = (raw: string) => (raw === "" ? null : Number(raw));
+
+  return (
+    <div className="sb-search" role="search">
+      <input
+        className="sb-input sb-search-text"
+        type="search"
+        placeholder={t("search.placeholder")}
+        aria-label={t("search.placeholder")}
+        value={filter.q}
+        onChange={(e) => props.onChange({ ...filter, q: e.target.value })}
+        onKeyDown={(e) =>
+          e.key === "Escape" && props.onChange({ ...filter, q: "" })
+        }
+      />
+      <input
+        className="sb-input sb-search-points"
+        type="number"
+        min={0}
+        placeholder={t("search.minPoints")}
+        aria-label={t("search.minPointsLabel")}
+        value={filter.minPoints ?? ""}
+        onChange={(e) =>
+          props.onChange({ ...filter, minPoints: points(e.target.value) })
+        }
+      />
+      <input
+        className="sb-input sb-search-points"
+        type="number"
+        min={0}
+        placeholder={t("search.maxPoints")}
+        aria-label={t("search.maxPointsLabel")}
+        value={filter.maxPoints ?? ""}
+        onChange={(e) =>
+          props.onChange({ ...filter, maxPoints: points(e.target.value) })
+        }
+      />
+      {props.members.length > 0 ? (
+        <select
+          className="sb-input sb-select"
+          aria-label={t("search.assignee")}
+          value={filter.assigneeId ?? ""}
+          onChange={(e) =>
+            props.onChange({ ...filter, assigneeId: e.target.value || null })
+          }
+        >
+          <option value="">{t("search.anyone")}</option>
+          {props.members.map((m) => (
+            <option key={m.id} value={m.id}>
+              {m.name}
+            </option>
+          ))}
+        </select>
+      ) : null}
+      {props.labels.length > 0 ? (
+        <select
+          className="sb-input sb-select"
+          aria-label={t("search.label")}
+          value={filter.labelId ?? ""}
+          onChange={(e) =>
+            props.onChange({ ...filter, labelId: e.target.value || null })
+          }
+        >
+          <option value="">{t("search.anyLabel")}</option>
+          {props.labels.map((l) => (
+            <option key={l.id} value={l.id}>
+              {l.name}
+            </option>
+          ))}
+        </select>
+      ) : null}
+      {isFilterActive(filter) ? (
+        <>
+          <span className="sb-subtitle">
+            {t("search.shown", { shown: props.shown, total: props.total })}
+          </span>
+          <button
+            className="sb-btn sb-btn-mini sb-btn-ghost"
+            onClick={() => props.onChange(EMPTY_FILTER)}
+          >
+            {t("search.clear")}
+          </button>
+        </>
+      ) : null}
+    </div>
+  );
+}
+
+// text with the search matches marked
+export function Highlight(props: { text: string; query: string }) {
+  return (
+    <>
+      {splitMatches(props.text, props.query).map((part, i) =>
+        part.match ? (
+          <mark key={i} className="sb-mark">
+            {part.text}
+          </mark>
+        ) : (
+          part.text
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,281 @@
+import { useState } from "react";
+import {
+  ALL_CARDS,
+  BACKLOG,
+  sprintDaysLeft,
+  sprintPoints,
+  unfinishedCardIds,
+} from "../lib/board";
+import { formatDate, t, type MessageKey } from "../lib/i18n";
+import type { BoardState, Sprint, SprintInput } from "../lib/types";
+import Modal from "./Modal";
+
+// Sprint switcher + summary shown under the board header. Uses the board's
+// sb-* styles (see SprintBoard).
+
+const STATE_LABELS: Record<Sprint["state"], MessageKey> = {
+  planned: "sprint.planned",
+  active: "sprint.active",
+  closed: "sprint.closed",
+};
+
+function isoDate(d: Date) {
+  return d.toISOString().slice(0, 10);
+}
+
+function daysLabel(sprint: Sprint) {
+  const days = sprintDaysLeft(sprint);
+  if (days < 0) return t("sprint.daysOver", { count: -days });
+  if (days === 0) return t("sprint.lastDay");
+  return t("sprint.daysLeft", { count: days });
+}
+
+export function SprintSelect(props: {
+  sprints: Sprint[];
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  const open = props.sprints.filter((s) => s.state !== "closed");
+  const closed = props.sprints.filter((s) => s.state === "closed");
+
+  return (
+    <select
+      className="sb-input sb-select"
+      value={props.value}
+      title={t("sprint.show")}
+      onChange={(e) => props.onChange(e.target.value)}
+    >
+      <option value={ALL_CARDS}>{t("sprint.all")}</option>
+      <option value={BACKLOG}>{t("sprint.backlog")}</option>
+      {open.map((s) => (
+        <option key={s.id} value={s.id}>
+          {s.name}
+          {s.state === "active" ? t("sprint.activeSuffix") : ""}
+        </option>
+      ))}
+      {closed.length > 0 ? (
+        <optgroup label={t("sprint.closed")}>
+          {closed.map((s) => (
+            <option key={s.id} value={s.id}>
+              {s.name}
+            </option>
+          ))}
+        </optgroup>
+      ) : null}
+    </select>
+  );
+}
+
+export function SprintBar(props: {
+  board: BoardState;
+  sprint: Sprint;
+  onEdit: () => void;
+  onStart: () => void;
+  onComplete: () => void;
+}) {
+  const { board, sprint } = props;
+  const points = sprintPoints(board, sprint.id);
+  const otherActive = (board.sprints || []).some(
+    (s) => s.state === "active" && s.id !== sprint.id
+  );
+
+  return (
+    <div className="sb-sprint">
+      <div className="sb-sprint-main">
+        <div className="sb-sprint-name">
+          {sprint.name}
+          <span className={`sb-pill sb-sprint-${sprint.state}`}>
+            {t(STATE_LABELS[sprint.state])}
+          </span>
+        </div>
+        <div className="sb-subtitle">
+          {formatDate(sprint.startDate)} → {formatDate(sprint.endDate)}
+          {sprint.state === "active" ? ` · ${daysLabel(sprint)}` : ""}
+          {` · ${t("sprint.pointsDone", points)}`}
+        </div>
+        {sprint.goal ? (
+          <div className="sb-sprint-goal">{sprint.goal}</div>
+        ) : null}
+      </div>
+
+      <div className="sb-actions">
+        {sprint.state !== "closed" ? (
+          <button
+            className="sb-btn sb-btn-mini sb-btn-ghost"
+            onClick={props.onEdit}
+          >
+            {t("sprint.edit")}
+          </button>
+        ) : null}
+        {sprint.state === "planned" ? (
+          <button
+            className="sb-btn sb-btn-mini"
+            onClick={props.onStart}
+            disabled={otherActive}
+            title={otherActive ? t("sprint.otherActive") : ""}
+          >
+            {t("sprint.start")}
+          </button>
+        ) : null}
+        {sprint.state === "active" ? (
+          <button className="sb-btn sb-btn-mini" onClick={props.onComplete}>
+            {t("sprint.complete")}
+          </button>
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
+export function SprintModal(props: {
+  sprint: Sprint | null;
+  onClose: () => void;
+  onSubmit: (data: SprintInput) => void;
+}) {
+  const [name, setName] = useState(props.sprint?.name ?? "");
+  const [goal, setGoal] = useState(props.sprint?.goal ?? "");
+  const [startDate, setStartDate] = useState(
+    () => props.sprint?.startDate ?? isoDate(new Date())
+  );
+  const [endDate, setEndDate] = useState(
+    () => props.sprint?.endDate ?? isoDate(new Date(Date.now() + 13 * 86400000))
+  );
+
+  const invalid = !name.trim() || !startDate || endDate < startDate;
+
+  return (
+    <Modal
+      title={props.sprint ? t("sprint.editTitle") : t("sprint.createTitle")}
+      onClose={props.onClose}
+    >
+      <label className="sb-label">
+        {t("sprint.name")}
+        <input
+          className="sb-input"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          autoFocus
+        />
+      </label>
+
+      <label className="sb-label">
+        {t("sprint.goal")}
+        <textarea
+          className="sb-input sb-textarea"
+          value={goal}
+          onChange={(e) => setGoal(e.target.value)}
+        />
+      </label>
+
+      <div className="sb-sprint-dates">
+        <label className="sb-label">
+          {t("sprint.startDate")}
+          <input
+            className="sb-input"
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+          />
+        </label>
+        <label className="sb-label">
+          {t("sprint.endDate")}
+          <input
+            className="sb-input"
+            type="date"
+            value={endDate}
+            min={startDate}
+            onChange={(e) => setEndDate(e.target.value)}
+          />
+        </label>
+      </div>
+
+      <div className="sb-modal-actions">
+        <button className="sb-btn sb-btn-ghost" onClick={props.onClose}>
+          {t("dialog.cancel")}
+        </button>
+        <button
+          className="sb-btn"
+          disabled={invalid}
+          onClick={() =>
+            props.onSubmit({
+              name: name.trim(),
+              goal: goal.trim(),
+              startDate,
+              endDate,
+            })
+          }
+        >
+          {props.sprint ? t("dialog.save") : t("dialog.create")}
+        </button>
+      </div>
+    </Modal>
+  );
+}
+
+// asks where the sprint's unfinished cards go: the next planned sprint
+// (default) or the backlog
+export function CompleteSprintModal(props: {
+  board: BoardState;
+  sprint: Sprint;
+  onClose: () => void;
+  onSubmit: (moveToSprintId: string | null) => void;
+}) {
+  const { board, sprint } = props;
+  const planned = (board.sprints || [])
+    .filter((s) => s.state === "planned")
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+  const unfinished = unfinishedCardIds(board, sprint.id);
+  const unfinishedPoints = unfinished.reduce(
+    (sum, id) => sum + (board.cardsById[id]?.points || 0),
+    0
+  );
+
+  const [target, setTarget] = useState(planned[0]?.id ?? BACKLOG);
+
+  return (
+    <Modal
+      title={t("sprint.completeTitle", { sprint: sprint.name })}
+      onClose={props.onClose}
+    >
+      {unfinished.length === 0 ? (
+        <div className="sb-muted">{t("sprint.allDone")}</div>
+      ) : (
+        <>
+          <div className="sb-muted">
+            {t("sprint.unfinished", {
+              count: unfinished.length,
+              points: unfinishedPoints,
+            })}
+          </div>
+          <label className="sb-label">
+            {t("sprint.moveTo")}
+            <select
+              className="sb-input"
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+            >
+              {planned.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.name}
+                </option>
+              ))}
+              <option value={BACKLOG}>{t("sprint.backlog")}</option>
+            </select>
+          </label>
+        </>
+      )}
+
+      <div className="sb-modal-actions">
+        <button className="sb-btn sb-btn-ghost" onClick={props.onClose}>
+          {t("dialog.cancel")}
+        </button>
+        <button
+          className="sb-btn"
+          onClick={() => props.onSubmit(target === BACKLOG ? null : target)}
+        >
+          {t("sprint.complete")}
+        </button>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,26 @@
+import { t } from "../lib/i18n";
+
+// Bottom-of-screen notice after an edit, with a one-click undo (or redo).
+// Uses the board's sb-* styles.
+export default function UndoToast(props: {
+  message: string;
+  actionLabel: string;
+  onAction: () => void;
+  onClose: () => void;
+}) {
+  return (
+    <div className="sb-toast" role="status">
+      <span className="sb-toast-msg">{props.message}</span>
+      <button className="sb-toast-action" onClick={props.onAction}>
+        {props.actionLabel}
+      </button>
+      <button
+        className="sb-toast-close"
+        onClick={props.onClose}
+        aria-label={t("toast.dismiss")}
+      >
+        ×
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { signOut, useSession } from "../lib/auth";
+import type { DataSourceKind } from "../lib/dataSource";
+import { t } from "../lib/i18n";
+import { menuKeyDown } from "../lib/keyboard";
+import { navigate } from "../lib/router";
+
+// current user in the board header; uses the board's sb-menu styles
+export default function UserMenu(props: { dataSource: DataSourceKind }) {
+  const session = useSession();
+
+  if (props.dataSource === "local") {
+    return <span className="sb-pill">{t("user.localMode")}</span>;
+  }
+  if (!session) return null;
+
+  const { user } = session;
+  const initials = (user.name || user.email || "?")
+    .split(/\s+/)
+    .map((p) => p[0])
+    .slice(0, 2)
+    .join("")
+    .toUpperCase();
+
+  return (
+    <details className="sb-menu" onKeyDown={menuKeyDown}>
+      <summary
+        className="sb-menu-btn sb-user-btn"
+        title={user.name}
+        aria-label={t("user.menu", { name: user.name })}
+      >
+        {initials}
+      </summary>
+      <div className="sb-menu-pop">
+        <div className="sb-user-info">
+          <div className="sb-user-name">{user.name}</div>
+          {user.email ? <div className="sb-muted">{user.email}</div> : null}
+          <div className="sb-muted">
+            {t("user.account")}{" "}
+            <span className="sb-mono">{user.accountId}</span>
+          </div>
+        </div>
+
+        <div className="sb-menu-sep" />
+
+        <button className="sb-menu-item" onClick={() => navigate("/settings")}>
+          {t("user.settings")}
+        </button>
+        <button
+          className="sb-menu-item"
+          onClick={() => {
+            signOut();
+            navigate("/login", { replace: true });
+          }}
+        >
+          {t("user.signOut")}
+        </button>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,101 @@
+import { CARD_FIELD_LABELS } from "./conflicts";
+import { t } from "./i18n";
+import type {
+  BoardState,
+  Card,
+  CardActivity,
+  CardChange,
+  CardComment,
+} from "./types";
+
+// Wording for the card detail timeline and the comment thread layout.
+
+function columnTitle(board: BoardState, columnId: string) {
+  return (
+    board.columns.find((c) => c.id === columnId)?.title ??
+    t("activity.deletedColumn")
+  );
+}
+
+function describeChange(board: BoardState, c: CardChange) {
+  const key = CARD_FIELD_LABELS[c.field];
+  const label = (key ? t(key) : c.field).toLowerCase();
+  const value = (v: unknown) => {
+    if (v === null || v === undefined || v === "") return "—";
+    if (c.field === "sprintId") {
+      return (
+        (board.sprints || []).find((s) => s.id === v)?.name ??
+        t("activity.sprint")
+      );
+    }
+    if (c.field === "epicId") {
+      return board.cardsById[String(v)]?.title ?? t("activity.card");
+    }
+    return String(v);
+  };
+  switch (c.field) {
+    case "points":
+    case "dueDate":
+    case "priority":
+    case "sprintId":
+    case "epicId":
+      return t("activity.change", {
+        field: label,
+        from: value(c.from),
+        to: value(c.to),
+      });
+    default:
+      return label;
+  }
+}
+
+export function describeActivity(board: BoardState, a: CardActivity) {
+  switch (a.type) {
+    case "created":
+      return t("activity.created", { column: columnTitle(board, a.columnId) });
+    case "moved":
+      return t("activity.moved", {
+        from: columnTitle(board, a.fromColumnId),
+        to: columnTitle(board, a.toColumnId),
+      });
+    case "updated":
+      return t("activity.updated", {
+        changes: a.changes.map((c) => describeChange(board, c)).join(", "),
+      });
+    case "commented":
+      return t("activity.commented");
+  }
+}
+
+// Backends that predate the activity log return nothing for older cards;
+// the card's own timestamps still give a start.
+export function cardTimeline(card: Card, activity: CardActivity[]) {
+  const out = activity.slice().sort((a, b) => a.at - b.at);
+  if (card.createdAt && !out.some((a) => a.type === "created")) {
+    out.unshift({
+      id: `created:${card.id}`,
+      cardId: card.id,
+      at: card.createdAt,
+      type: "created",
+      columnId: card.columnId,
+    });
+  }
+  return out;
+}
+
+// comments grouped under their parent, oldest first; replies to missing
+// comments are shown at the top level
+export function commentThreads(comments: CardComment[]) {
+  const ids = new Set(comments.map((c) => c.id));
+  const sorted = comments.slice().sort((a, b) => a.createdAt - b.createdAt);
+  const replies = new Map<string, CardComment[]>();
+  const roots: CardComment[] = [];
+  for (const c of sorted) {
+    if (c.parentId && ids.has(c.parentId)) {
+      replies.set(c.parentId, [...(replies.get(c.parentId) || []), c]);
+    } else {
+      roots.push(c);
+    }
+  }
+  return { roots, replies };
+}
@@ -0,0 +1,228 @@
+import { getAccessToken, getSession, refreshSession, signOut } from "./auth";
+import { getEnvProfile } from "./config";
+import { t } from "./i18n";
+import { navigate } from "./router";
+import { parse, type Schema } from "./validate";
+
+export const STORAGE_BOARD_ID = "sb_board_id";
+
+// of the active environment profile (see lib/config)
+export function getApiBase() {
+  return getEnvProfile().apiBase;
+}
+
+// Every failed request comes out as an ApiError. status is 0 when no HTTP
+// response arrived (network down, timeout, aborted). retryable says whether
+// the same request may succeed later without changes.
+export type ApiErrorCode =
+  | "NETWORK"
+  | "TIMEOUT"
+  | "ABORTED"
+  | "INVALID_RESPONSE"
+  | "HTTP"
+  // codes sent by the backend, e.g. VERSION_CONFLICT, NOT_FOUND
+  | (string & {});
+
+export class ApiError extends Error {
+  status: number;
+  code: ApiErrorCode;
+  retryable: boolean;
+  body: unknown;
+
+  constructor(
+    message: string,
+    status: number,
+    opts: { code?: ApiErrorCode; retryable?: boolean; body?: unknown } = {}
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.body = opts.body;
+    const bodyCode = (opts.body as { code?: unknown } | undefined)?.code;
+    this.code = opts.code ?? (typeof bodyCode === "string" ? bodyCode : "HTTP");
+    this.retryable =
+      opts.retryable ?? (status >= 500 || status === 408 || status === 429);
+  }
+}
+
+// the write was based on an older BoardState.version than the server has
+export function isConflictError(e: unknown): e is ApiError {
+  return e instanceof ApiError && (e.status === 409 || e.status === 412);
+}
+
+// the session is gone; the request may succeed once signed in again
+export function isAuthError(e: unknown): e is ApiError {
+  return e instanceof ApiError && e.status === 401;
+}
+
+// true when the request may succeed later without changes (backend/tunnel down)
+export function isTransientError(e: unknown) {
+  if (e instanceof ApiError) return e.retryable;
+  return e instanceof TypeError;
+}
+
+// session is gone for good: back to the sign-in page, then return here
+function redirectToSignIn() {
+  signOut();
+  const here = `${window.location.pathname}${window.location.search}`;
+  navigate(`/login?next=${encodeURIComponent(here)}`, { replace: true });
+}
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+// an empty or non-JSON body reads as {}
+function parseJson(text: string): Record<string, unknown> {
+  try {
+    const data = JSON.parse(text);
+    return data && typeof data === "object" ? data : {};
+  } catch {
+    return {};
+  }
+}
+
+// extra attempts for idempotent requests, waiting BACKOFF_MS * 2^n (+ jitter)
+const DEFAULT_RETRIES = 2;
+const BACKOFF_MS = 400;
+const IDEMPOTENT = new Set(["GET", "HEAD", "PUT", "DELETE", "OPTIONS"]);
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    const onAbort = () => {
+      window.clearTimeout(timer);
+      resolve();
+    };
+    const timer = window.setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export type ApiFetchOptions<T> = {
+  method?: string;
+  // sent as JSON
+  body?: unknown;
+  // BoardState.version the write is based on; the server rejects stale writes
+  ifMatch?: number;
+  // checks the response body (see lib/validate); without it the JSON is cast
+  parse?: Schema<T>;
+  // per attempt
+  timeoutMs?: number;
+  // defaults to DEFAULT_RETRIES for idempotent methods, 0 otherwise
+  retries?: number;
+  signal?: AbortSignal;
+};
+
+export async function apiFetch<T>(
+  path: string,
+  options: ApiFetchOptions<T> = {}
+): Promise<T> {
+  const method = (options.method || "GET").toUpperCase();
+  const retries =
+    options.retries ?? (IDEMPOTENT.has(method) ? DEFAULT_RETRIES : 0);
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await apiFetchOnce(path, method, options);
+    } catch (e) {
+      const again =
+        attempt < retries &&
+        e instanceof ApiError &&
+        e.retryable &&
+        !options.signal?.aborted;
+      if (!again) throw e;
+      const delay = BACKOFF_MS * 2 ** attempt * (1 + Math.random() * 0.3);
+      await sleep(delay, options.signal);
+    }
+  }
+}
+
+async function apiFetchOnce<T>(
+  path: string,
+  method: string,
+  options: ApiFetchOptions<T>
+): Promise<T> {
+  const base = getApiBase();
+
+  const send = async (token: string | null) => {
+    const headers: Record<string, string> = {
+      "content-type": "application/json",
+    };
+    if (token) headers.authorization = `Bearer ${token}`;
+    if (options.ifMatch !== undefined) {
+      headers["if-match"] = `"${options.ifMatch}"`;
+    }
+
+    // aborts on timeout or when the caller's signal fires
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = window.setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener("abort", onAbort);
+
+    // the timeout covers reading the body too, a stalled one would hang
+    try {
+      const res = await fetch(`${base}${path}`, {
+        method,
+        headers,
+        body: options.body ? JSON.stringify(options.body) : undefined,
+        signal: controller.signal,
+      });
+      return { res, data: parseJson(await res.text()) };
+    } catch (e) {
+      if (timedOut) {
+        throw new ApiError(t("app.timedOut"), 0, {
+          code: "TIMEOUT",
+          retryable: true,
+        });
+      }
+      if (controller.signal.aborted) {
+        throw new ApiError(t("app.aborted"), 0, {
+          code: "ABORTED",
+          retryable: false,
+        });
+      }
+      // fetch rejects with a TypeError when the server can't be reached
+      throw new ApiError(
+        e instanceof Error ? e.message : t("app.networkError"),
+        0,
+        {
+          code: "NETWORK",
+          retryable: true,
+        }
+      );
+    } finally {
+      window.clearTimeout(timer);
+      options.signal?.removeEventListener("abort", onAbort);
+    }
+  };
+
+  let { res, data } = await send(await getAccessToken(base));
+
+  // expired or revoked token: renew once and retry, else sign in again
+  if (res.status === 401 && getSession()) {
+    const renewed = await refreshSession(base);
+    if (renewed) ({ res, data } = await send(renewed.accessToken));
+  }
+  if (res.status === 401) redirectToSignIn();
+
+  if (!res.ok) {
+    const msg =
+      typeof data?.message === "string" ? data.message : `HTTP ${res.status}`;
+    throw new ApiError(msg, res.status, { body: data });
+  }
+  if (!options.parse) return data as T;
+  try {
+    return parse(options.parse, data);
+  } catch (e) {
+    throw new ApiError(
+      `Invalid response from server (${e instanceof Error ? e.message : "malformed"})`,
+      res.status,
+      { code: "INVALID_RESPONSE", retryable: false, body: data }
+    );
+  }
+}
@@ -0,0 +1,305 @@
+import { useEffect, useState } from "react";
+import { getConfig } from "./config";
+import { t } from "./i18n";
+
+// Sign-in state for the REST backend. Two ways in:
+//   - username/password against POST /auth/login on the API
+//   - OpenID Connect (authorization code + PKCE) against a configurable issuer
+// Either way we end up with a bearer token (+ refresh token) kept in
+// localStorage; the API resolves the account from the token.
+
+export type AuthUser = {
+  id: string;
+  name: string;
+  email?: string;
+  accountId: string;
+};
+
+export type AuthSession = {
+  method: "password" | "oidc";
+  accessToken: string;
+  refreshToken?: string;
+  // epoch ms; refreshed a little before this
+  expiresAt?: number;
+  user: AuthUser;
+};
+
+export type AuthConfig = {
+  oidcIssuer?: string;
+  oidcClientId?: string;
+  oidcScope?: string;
+};
+
+type TokenResponse = {
+  accessToken: string;
+  refreshToken?: string;
+  // seconds
+  expiresIn?: number;
+};
+
+const STORAGE_AUTH = "sb_auth";
+const STORAGE_OIDC_FLOW = "sb_oidc_flow";
+const AUTH_EVENT = "sb:auth";
+
+// refresh when the token has less than this left
+const REFRESH_MARGIN_MS = 30000;
+
+export function getAuthConfig(): AuthConfig {
+  const { oidcIssuer, oidcClientId, oidcScope } = getConfig();
+  return { oidcIssuer, oidcClientId, oidcScope };
+}
+
+export function isOidcConfigured() {
+  const cfg = getAuthConfig();
+  return !!(cfg.oidcIssuer && cfg.oidcClientId);
+}
+
+// ---------- Session store ----------
+export function getSession(): AuthSession | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_AUTH);
+    return raw ? (JSON.parse(raw) as AuthSession) : null;
+  } catch {
+    return null;
+  }
+}
+
+function setSession(session: AuthSession | null) {
+  if (session) localStorage.setItem(STORAGE_AUTH, JSON.stringify(session));
+  else localStorage.removeItem(STORAGE_AUTH);
+  window.dispatchEvent(new Event(AUTH_EVENT));
+}
+
+export function signOut() {
+  setSession(null);
+}
+
+export function useSession() {
+  const [session, setState] = useState(getSession);
+
+  useEffect(() => {
+    const update = () => setState(getSession());
+    // storage: signed in/out in another tab
+    window.addEventListener(AUTH_EVENT, update);
+    window.addEventListener("storage", update);
+    return () => {
+      window.removeEventListener(AUTH_EVENT, update);
+      window.removeEventListener("storage", update);
+    };
+  }, []);
+
+  return session;
+}
+
+// ---------- API calls ----------
+// Plain fetch: these run before we have (or while renewing) a token, so they
+// must not go through apiFetch's 401 handling.
+async function authPost<T>(base: string, path: string, body: unknown) {
+  const res = await fetch(`${base}${path}`, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data?.message || `HTTP ${res.status}`);
+  return data as T;
+}
+
+async function fetchMe(base: string, accessToken: string): Promise<AuthUser> {
+  const res = await fetch(`${base}/auth/me`, {
+    headers: { authorization: `Bearer ${accessToken}` },
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data?.message || `HTTP ${res.status}`);
+  return data.user as AuthUser;
+}
+
+function expiresAt(expiresIn?: number) {
+  return expiresIn ? Date.now() + expiresIn * 1000 : undefined;
+}
+
+export async function signInWithPassword(
+  base: string,
+  username: string,
+  password: string
+) {
+  const r = await authPost<TokenResponse & { user: AuthUser }>(
+    base,
+    "/auth/login",
+    { username, password }
+  );
+  setSession({
+    method: "password",
+    accessToken: r.accessToken,
+    refreshToken: r.refreshToken,
+    expiresAt: expiresAt(r.expiresIn),
+    user: r.user,
+  });
+}
+
+// ---------- OIDC ----------
+type OidcMetadata = {
+  authorization_endpoint: string;
+  token_endpoint: string;
+};
+
+type OidcFlow = { state: string; verifier: string; next: string };
+
+async function discover(issuer: string): Promise<OidcMetadata> {
+  const url = `${issuer.replace(/\/$/, "")}/.well-known/openid-configuration`;
+  const res = await fetch(url);
+  if (!res.ok)
+    throw new Error(t("login.discoveryFailed", { status: res.status }));
+  return (await res.json()) as OidcMetadata;
+}
+
+function randomString(bytes = 32) {
+  const buf = crypto.getRandomValues(new Uint8Array(bytes));
+  return base64Url(buf);
+}
+
+function base64Url(buf: Uint8Array) {
+  let s = "";
+  buf.forEach((b) => (s += String.fromCharCode(b)));
+  return btoa(s).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+async function pkceChallenge(verifier: string) {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(verifier)
+  );
+  return base64Url(new Uint8Array(digest));
+}
+
+function redirectUri() {
+  return `${window.location.origin}/auth/callback`;
+}
+
+async function oidcToken(params: Record<string, string>) {
+  const cfg = getAuthConfig();
+  const meta = await discover(cfg.oidcIssuer!);
+  const res = await fetch(meta.token_endpoint, {
+    method: "POST",
+    headers: { "content-type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({ client_id: cfg.oidcClientId!, ...params }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(data?.error_description || `HTTP ${res.status}`);
+  }
+  return {
+    accessToken: data.access_token as string,
+    refreshToken: data.refresh_token as string | undefined,
+    expiresIn: data.expires_in as number | undefined,
+  };
+}
+
+// sends the browser to the identity provider; comes back on /auth/callback
+export async function startOidcSignIn(next: string) {
+  const cfg = getAuthConfig();
+  if (!cfg.oidcIssuer || !cfg.oidcClientId) {
+    throw new Error(t("login.ssoNotConfigured"));
+  }
+  const meta = await discover(cfg.oidcIssuer);
+  const flow: OidcFlow = {
+    state: randomString(16),
+    verifier: randomString(48),
+    next,
+  };
+  sessionStorage.setItem(STORAGE_OIDC_FLOW, JSON.stringify(flow));
+
+  const url = new URL(meta.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: cfg.oidcClientId,
+    redirect_uri: redirectUri(),
+    scope: cfg.oidcScope || "openid profile email offline_access",
+    state: flow.state,
+    code_challenge: await pkceChallenge(flow.verifier),
+    code_challenge_method: "S256",
+  }).toString();
+  window.location.assign(url.toString());
+}
+
+// finishes the redirect; returns the path to continue to
+export async function completeOidcSignIn(base: string, search: string) {
+  const params = new URLSearchParams(search);
+  const raw = sessionStorage.getItem(STORAGE_OIDC_FLOW);
+  sessionStorage.removeItem(STORAGE_OIDC_FLOW);
+  const flow = raw ? (JSON.parse(raw) as OidcFlow) : null;
+
+  const error = params.get("error");
+  if (error) throw new Error(params.get("error_description") || error);
+  if (!flow || params.get("state") !== flow.state) {
+    throw new Error(t("login.ssoMismatch"));
+  }
+
+  const tokens = await oidcToken({
+    grant_type: "authorization_code",
+    code: params.get("code") || "",
+    redirect_uri: redirectUri(),
+    code_verifier: flow.verifier,
+  });
+  // the API maps the IdP identity to a user and account
+  const user = await fetchMe(base, tokens.accessToken);
+  setSession({
+    method: "oidc",
+    accessToken: tokens.accessToken,
+    refreshToken: tokens.refreshToken,
+    expiresAt: expiresAt(tokens.expiresIn),
+    user,
+  });
+  return flow.next;
+}
+
+// ---------- Token refresh ----------
+let refreshing: Promise<AuthSession | null> | null = null;
+
+async function doRefresh(base: string, cur: AuthSession) {
+  if (!cur.refreshToken) return null;
+  try {
+    const r =
+      cur.method === "oidc"
+        ? await oidcToken({
+            grant_type: "refresh_token",
+            refresh_token: cur.refreshToken,
+          })
+        : await authPost<TokenResponse>(base, "/auth/refresh", {
+            refreshToken: cur.refreshToken,
+          });
+    const next: AuthSession = {
+      ...cur,
+      accessToken: r.accessToken,
+      refreshToken: r.refreshToken || cur.refreshToken,
+      expiresAt: expiresAt(r.expiresIn),
+    };
+    setSession(next);
+    return next;
+  } catch {
+    return null;
+  }
+}
+
+// one refresh at a time, however many requests hit a 401 together
+export function refreshSession(base: string) {
+  const cur = getSession();
+  if (!cur) return Promise.resolve(null);
+  if (!refreshing) {
+    refreshing = doRefresh(base, cur).finally(() => {
+      refreshing = null;
+    });
+  }
+  return refreshing;
+}
+
+// current access token, renewed first if it is about to expire
+export async function getAccessToken(base: string) {
+  const cur = getSession();
+  if (!cur) return null;
+  if (cur.expiresAt && cur.expiresAt - Date.now() < REFRESH_MARGIN_MS) {
+    const next = await refreshSession(base);
+    return next?.accessToken ?? cur.accessToken;
+  }
+  return cur.accessToken;
+}
@@ -0,0 +1,96 @@
+import {
+  activeSprint,
+  doneColumnId,
+  inBoardOrder,
+  insertAt,
+  sprintPoints,
+} from "./board";
+import type { Mutation } from "./outbox";
+import type { BoardState, Card, Sprint } from "./types";
+
+// The backlog: every card outside the running sprint in one ranked list.
+// Card.rank is the position inside a column, so the ranking across the board
+// is kept in BoardState.backlogOrder and changed with rank_card, which takes
+// the same before/after neighbours as move_card.
+
+// every card id, ranked ones first, then the rest in board order
+export function backlogOrder(board: BoardState): string[] {
+  const ranked = (board.backlogOrder || []).filter((id) => board.cardsById[id]);
+  const seen = new Set(ranked);
+  const rest = inBoardOrder(board, Object.keys(board.cardsById)).filter(
+    (id) => !seen.has(id)
+  );
+  return [...ranked, ...rest];
+}
+
+// Cards of the backlog view. Cards in the done column are finished work and
+// only shown on request.
+export function backlogCards(
+  board: BoardState,
+  opts: { includeDone: boolean }
+): Card[] {
+  const active = activeSprint(board)?.id;
+  const done = doneColumnId(board.columns);
+  return backlogOrder(board)
+    .map((id) => board.cardsById[id])
+    .filter(
+      (c) =>
+        (!active || c.sprintId !== active) &&
+        (opts.includeDone || c.columnId !== done)
+    );
+}
+
+// rank_card that puts the card where it sits in `list`
+export function rankMutation(list: string[], cardId: string): Mutation | null {
+  const idx = list.indexOf(cardId);
+  if (idx === -1) return null;
+  return {
+    kind: "rank_card",
+    cardId,
+    beforeCardId: idx > 0 ? list[idx - 1] : null,
+    afterCardId: idx < list.length - 1 ? list[idx + 1] : null,
+  };
+}
+
+// Full ranking after a rank_card. No card before it means the top of the
+// list; neighbours that are gone leave it at the end.
+export function rankCard(
+  board: BoardState,
+  cardId: string,
+  beforeCardId: string | null,
+  afterCardId: string | null
+): string[] {
+  const list = backlogOrder(board).filter((id) => id !== cardId);
+  let index = list.length;
+  if (beforeCardId && list.includes(beforeCardId)) {
+    index = list.indexOf(beforeCardId) + 1;
+  } else if (afterCardId && list.includes(afterCardId)) {
+    index = list.indexOf(afterCardId);
+  } else if (beforeCardId === null) {
+    index = 0;
+  }
+  return insertAt(list, index, cardId);
+}
+
+// sprints cards can be pulled into
+export function plannableSprints(board: BoardState): Sprint[] {
+  return (board.sprints || []).filter((s) => s.state !== "closed");
+}
+
+// the sprint a planning meeting is about: the next planned one, else the
+// running one
+export function planningSprint(board: BoardState): Sprint | null {
+  const sprints = plannableSprints(board);
+  return sprints.find((s) => s.state === "planned") ?? sprints[0] ?? null;
+}
+
+// committed points against capacity; over when capacity is set and exceeded
+export function sprintLoad(board: BoardState, sprint: Sprint) {
+  const committed = sprintPoints(board, sprint.id).total;
+  const capacity = sprint.capacity ?? null;
+  return {
+    committed,
+    capacity,
+    over: capacity !== null && committed > capacity,
+  };
+}
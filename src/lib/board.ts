@@ -0,0 +1,176 @@
+import type {
+  BoardState,
+  Card,
+  CardInput,
+  CardPriority,
+  Column,
+  ColumnId,
+  Sprint,
+  WipLimit,
+} from "./types";
+
+// columns a new board starts with
+export const DEFAULT_COLUMN_TITLES = ["To Do", "In Progress", "Done"];
+
+export function isColumnId(id: string, columns: Column[]) {
+  return columns.some((c) => c.id === id);
+}
+
+export function findContainerOf(
+  id: string,
+  columnCardIds: Record<ColumnId, string[]>,
+  columns: Column[]
+): ColumnId | null {
+  if (isColumnId(id, columns)) return id;
+  for (const colId of Object.keys(columnCardIds)) {
+    if ((columnCardIds[colId] || []).includes(id)) return colId;
+  }
+  return null;
+}
+
+export function insertAt<T>(arr: T[], index: number, item: T) {
+  const next = arr.slice();
+  const i = Math.max(0, Math.min(index, next.length));
+  next.splice(i, 0, item);
+  return next;
+}
+
+export function removeFrom<T>(arr: T[], item: T) {
+  const idx = arr.indexOf(item);
+  if (idx === -1) return arr.slice();
+  const next = arr.slice();
+  next.splice(idx, 1);
+  return next;
+}
+
+export function sortedColumns(columns: Column[]) {
+  return columns.slice().sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+}
+
+// the given cards as they appear on the board: column by column, top down
+export function inBoardOrder(board: BoardState, cardIds: string[]) {
+  return sortedColumns(board.columns).flatMap((c) =>
+    (board.columnCardIds[c.id] || []).filter((id) => cardIds.includes(id))
+  );
+}
+
+// cards in the last column count as finished
+export function doneColumnId(columns: Column[]): ColumnId | null {
+  const sorted = sortedColumns(columns);
+  return sorted.length > 0 ? sorted[sorted.length - 1].id : null;
+}
+
+export function activeSprint(board: BoardState): Sprint | null {
+  return (board.sprints || []).find((s) => s.state === "active") || null;
+}
+
+// ids of a sprint's cards that are not in the done column
+export function unfinishedCardIds(board: BoardState, sprintId: string) {
+  const doneId = doneColumnId(board.columns);
+  return Object.values(board.cardsById)
+    .filter((c) => c.sprintId === sprintId && c.columnId !== doneId)
+    .map((c) => c.id);
+}
+
+// what the board shows: every card, the backlog, or one sprint's cards
+export const ALL_CARDS = "all";
+export const BACKLOG = "backlog";
+
+export function inSprintView(card: Card, view: string) {
+  if (view === ALL_CARDS) return true;
+  if (view === BACKLOG) return !card.sprintId;
+  return card.sprintId === view;
+}
+
+// committed vs finished points of a sprint
+export function sprintPoints(board: BoardState, sprintId: string) {
+  const doneId = doneColumnId(board.columns);
+  let total = 0;
+  let done = 0;
+  for (const c of Object.values(board.cardsById)) {
+    if (c.sprintId !== sprintId) continue;
+    total += c.points || 0;
+    if (c.columnId === doneId) done += c.points || 0;
+  }
+  return { total, done };
+}
+
+// whole days until the end date (negative once overdue)
+export function sprintDaysLeft(sprint: Sprint, now = Date.now()) {
+  const end = new Date(`${sprint.endDate}T23:59:59`).getTime();
+  return Math.ceil((end - now) / 86400000) - 1;
+}
+
+export const CARD_PRIORITIES: CardPriority[] = [
+  "low",
+  "medium",
+  "high",
+  "urgent",
+];
+
+// the editable fields of a card, e.g. to re-create it
+export function cardInput(card: Card): CardInput {
+  return {
+    title: card.title,
+    description: card.description,
+    points: card.points,
+    sprintId: card.sprintId ?? null,
+    assigneeIds: card.assigneeIds ?? [],
+    labelIds: card.labelIds ?? [],
+    dueDate: card.dueDate ?? null,
+    priority: card.priority ?? null,
+    epicId: card.epicId ?? null,
+  };
+}
+
+// past its due date and not in the done column yet
+export function isOverdue(
+  card: Card,
+  doneColumn: ColumnId | null,
+  now = Date.now()
+) {
+  if (!card.dueDate || card.columnId === doneColumn) return false;
+  return new Date(`${card.dueDate}T23:59:59`).getTime() < now;
+}
+
+export type WipUsage = { cards: number; points: number };
+
+export function wipUsage(board: BoardState, columnId: ColumnId): WipUsage {
+  const ids = board.columnCardIds[columnId] || [];
+  return {
+    cards: ids.length,
+    points: ids.reduce(
+      (sum, id) => sum + (board.cardsById[id]?.points || 0),
+      0
+    ),
+  };
+}
+
+export function overWipLimit(limit: WipLimit | null | undefined, u: WipUsage) {
+  if (!limit) return false;
+  return (
+    (limit.cards !== null && u.cards > limit.cards) ||
+    (limit.points !== null && u.points > limit.points)
+  );
+}
+
+// whether moving the cards into the column breaks a hard limit there
+export function breaksHardLimit(
+  board: BoardState,
+  cardIds: string[],
+  columnId: ColumnId
+) {
+  const col = board.columns.find((c) => c.id === columnId);
+  if (!col?.wipLimit?.hard) return false;
+  const inColumn = board.columnCardIds[columnId] || [];
+  const incoming = cardIds
+    .filter((id) => !inColumn.includes(id))
+    .map((id) => board.cardsById[id])
+    .filter(Boolean);
+  if (incoming.length === 0) return false;
+  const usage = wipUsage(board, columnId);
+  return overWipLimit(col.wipLimit, {
+    cards: usage.cards + incoming.length,
+    points: incoming.reduce((n, c) => n + (c.points || 0), usage.points),
+  });
+}
@@ -0,0 +1,90 @@
+import type { DragEndEvent } from "@dnd-kit/core";
+import { describe, expect, it, vi } from "vitest";
+import { dragHandlers } from "./boardDnd";
+import { boardReducer, type BoardAction } from "./boardStore";
+import { shortcutsPaused } from "./keyboard";
+import type { Mutation } from "./outbox";
+import { board } from "./testFixtures";
+import type { BoardState } from "./types";
+
+// the parts of a dnd-kit event the handlers read
+function dragEvent(activeId: string, overId: string | null = null) {
+  const data = { current: undefined };
+  return {
+    active: { id: activeId, data },
+    over: overId === null ? null : { id: overId, data },
+  } as unknown as DragEndEvent;
+}
+
+// the handlers on a board kept like useBoard keeps it
+function setup() {
+  const boardRef = { current: board() as BoardState | null };
+  const activeCardIdRef = { current: null as string | null };
+  const drops: Mutation[][] = [];
+  const reset = vi.fn(() => {
+    boardRef.current = board();
+  });
+  const handlers = dragHandlers({
+    boardRef,
+    dispatch: (action: BoardAction) => {
+      if (!boardRef.current) return null;
+      boardRef.current = boardReducer(boardRef.current, action);
+      return boardRef.current;
+    },
+    reset,
+    activeCardIdRef,
+    selectedIdsRef: { current: [] },
+    swimlaneKey: "none",
+    onDrop: (mutations) => drops.push(mutations),
+    dragStartRef: { current: null },
+    setActiveCardId: () => {},
+  });
+  return { boardRef, activeCardIdRef, drops, reset, handlers };
+}
+
+describe("dragHandlers", () => {
+  it("keeps the board shortcuts working after a cancelled drag", () => {
+    const { boardRef, activeCardIdRef, reset, handlers } = setup();
+    handlers.onDragStart(dragEvent("b"));
+    expect(shortcutsPaused(false, activeCardIdRef.current)).toBe(true);
+
+    handlers.onDragOver(dragEvent("b", "e"));
+    expect(boardRef.current?.columnCardIds.doing).toEqual(["d", "b", "e"]);
+
+    handlers.onDragCancel();
+    expect(shortcutsPaused(false, activeCardIdRef.current)).toBe(false);
+    // the preview is gone again
+    expect(reset).toHaveBeenCalledTimes(1);
+    expect(boardRef.current?.columnCardIds.doing).toEqual(["d", "e"]);
+  });
+
+  it("starts the next drag from scratch after a cancel", () => {
+    const { drops, handlers } = setup();
+    handlers.onDragStart(dragEvent("b"));
+    handlers.onDragOver(dragEvent("b", "e"));
+    handlers.onDragCancel();
+
+    handlers.onDragStart(dragEvent("a"));
+    handlers.onDragEnd(dragEvent("a", "c"));
+    expect(drops).toEqual([
+      [
+        {
+          kind: "move_card",
+          cardId: "a",
+          toColumnId: "todo",
+          beforeCardId: "c",
+          afterCardId: null,
+        },
+      ],
+    ]);
+  });
+
+  it("renders again after a drop that changes nothing", () => {
+    const { activeCardIdRef, drops, reset, handlers } = setup();
+    handlers.onDragStart(dragEvent("a"));
+    handlers.onDragEnd(dragEvent("a", "a"));
+    expect(drops).toEqual([]);
+    expect(reset).toHaveBeenCalledTimes(1);
+    expect(activeCardIdRef.current).toBeNull();
+  });
+});
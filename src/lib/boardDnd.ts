@@ -0,0 +1,452 @@
+import { useRef, useState, type RefObject } from "react";
+import {
+  KeyboardSensor,
+  PointerSensor,
+  closestCenter,
+  closestCorners,
+  type Announcements,
+  type CollisionDetection,
+  type DragEndEvent,
+  type DragOverEvent,
+  type DragStartEvent,
+  type Over,
+  useSensor,
+  useSensors,
+} from "@dnd-kit/core";
+import { arrayMove, sortableKeyboardCoordinates } from "@dnd-kit/sortable";
+import {
+  breaksHardLimit,
+  findContainerOf,
+  inBoardOrder,
+  isColumnId,
+  sortedColumns,
+  wipUsage,
+} from "./board";
+import { cardsIn, columnOf, type BoardAction } from "./boardStore";
+import { formatNumber, formatPoints, t } from "./i18n";
+import {
+  groupMoveMutation,
+  moveColumnMutation,
+  moveMutationFromSnapshot,
+  type Mutation,
+} from "./outbox";
+import { lanePatch, laneOf, type SwimlaneKey } from "./swimlanes";
+import type { BoardState, ColumnId } from "./types";
+
+// Dragging on the board: cards (alone or with the rest of the selection)
+// between columns and swimlanes, and columns among each other. While a card
+// is dragged the board shows it where it would land; the drop turns the
+// difference to where the drag started into outbox edits.
+
+// Column headers are sortable under their own ids; the column body keeps the
+// plain column id as the drop target for cards.
+export const COLUMN_DRAG_PREFIX = "column:";
+
+// Swimlane cells are drop targets of their own; for moving cards they stand
+// for their column, the lane only matters on drop.
+export const LANE_DROP_PREFIX = "lane:";
+
+function isColumnDrag(id: string) {
+  return id.startsWith(COLUMN_DRAG_PREFIX);
+}
+
+function dropTarget(over: Over): { overId: string; laneId: string | null } {
+  const data = over.data.current;
+  return data?.type === "lane"
+    ? { overId: data.columnId, laneId: data.laneId }
+    : { overId: String(over.id), laneId: null };
+}
+
+// a finished card drop, synced by syncDrop
+type CardDrop = {
+  cardId: string;
+  // every dragged card, in board order
+  group: string[];
+  // false when only the swimlane changed
+  moved: boolean;
+  // swimlane the cards were dropped in (lane mode only)
+  laneId: string | null;
+};
+
+// where a card drag started
+type DragStart = {
+  cardId: string;
+  fromColId: string;
+  fromIndex: number;
+  // every card being dragged, in board order; just cardId unless the
+  // dragged card is part of a selection
+  group: string[];
+};
+
+// columns only collide with columns, cards never with column headers
+const collisionDetection: CollisionDetection = (args) => {
+  const columnDrag = args.active.data.current?.type === "column";
+  const droppableContainers = args.droppableContainers.filter(
+    (c) => (c.data.current?.type === "column") === columnDrag
+  );
+  return columnDrag
+    ? closestCenter({ ...args, droppableContainers })
+    : closestCorners({ ...args, droppableContainers });
+};
+
+type DragOptions = {
+  // the rendered board and its actions, see useBoard
+  boardRef: RefObject<BoardState | null>;
+  dispatch: (action: BoardAction) => BoardState | null;
+  // shows the board without the drag preview again
+  reset: () => void;
+  // set while a card is dragged
+  activeCardIdRef: RefObject<string | null>;
+  selectedIdsRef: RefObject<string[]>;
+  swimlaneKey: SwimlaneKey;
+  // the edits of a drop, undone as one
+  onDrop: (mutations: Mutation[]) => void;
+};
+
+export function useBoardDnd(opts: DragOptions) {
+  const { boardRef, selectedIdsRef } = opts;
+  const [activeCardId, setActiveCardId] = useState<string | null>(null);
+  const dragStartRef = useRef<DragStart | null>(null);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 6 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  );
+  // the refs are only read once a drag starts
+  // eslint-disable-next-line react-hooks/refs
+  const handlers = dragHandlers({ ...opts, dragStartRef, setActiveCardId });
+
+  // ---------- Screen reader announcements ----------
+  // Read out by dnd-kit's live region during pointer and keyboard drags.
+
+  function cardName(cardId: string) {
+    return `'${boardRef.current?.cardsById[cardId]?.title || t("drag.untitled")}'`;
+  }
+
+  function columnName(columnId: string) {
+    return (
+      boardRef.current?.columns.find((c) => c.id === columnId)?.title ??
+      t("drag.aColumn")
+    );
+  }
+
+  // where the dragged card is or would land: column and 1-based position
+  function dropSpot(cardId: string, over: Over | null) {
+    const cur = boardRef.current;
+    if (!cur) return null;
+    const overId = over ? dropTarget(over).overId : cardId;
+    const columnId = findContainerOf(overId, cur.columnCardIds, cur.columns);
+    if (!columnId) return null;
+    const list = cur.columnCardIds[columnId] || [];
+    const own = list.indexOf(cardId);
+    const overIndex = overId === cardId ? -1 : list.indexOf(overId);
+    const index = overIndex !== -1 ? overIndex : own !== -1 ? own : list.length;
+    const count = own === -1 ? list.length + 1 : list.length;
+    return t("drag.spot", {
+      column: columnName(columnId),
+      position: index + 1,
+      count,
+    });
+  }
+
+  // column drags: position among the columns
+  function columnSpot(over: Over | null) {
+    const cur = boardRef.current;
+    if (!cur || !over) return null;
+    const overId = String(over.id);
+    const columnId = isColumnDrag(overId)
+      ? overId.slice(COLUMN_DRAG_PREFIX.length)
+      : findContainerOf(
+          dropTarget(over).overId,
+          cur.columnCardIds,
+          cur.columns
+        );
+    const sorted = sortedColumns(cur.columns);
+    const i = sorted.findIndex((c) => c.id === columnId);
+    return i === -1
+      ? null
+      : t("drag.position", { position: i + 1, count: sorted.length });
+  }
+
+  function groupName(cardId: string) {
+    const selected = selectedIdsRef.current;
+    return selected.includes(cardId) && selected.length > 1
+      ? t("drag.group", {
+          card: cardName(cardId),
+          count: selected.length - 1,
+        })
+      : cardName(cardId);
+  }
+
+  const announcements: Announcements = {
+    onDragStart({ active }) {
+      const id = String(active.id);
+      if (isColumnDrag(id)) {
+        const columnId = id.slice(COLUMN_DRAG_PREFIX.length);
+        return t("drag.pickColumn", { column: columnName(columnId) });
+      }
+      return t("drag.pick", {
+        card: groupName(id),
+        spot: dropSpot(id, null) ?? "",
+      });
+    },
+    onDragOver({ active, over }) {
+      const id = String(active.id);
+      if (isColumnDrag(id)) {
+        const spot = columnSpot(over);
+        return spot ? t("drag.columnOver", { spot }) : undefined;
+      }
+      if (!over) return t("drag.notOver", { card: cardName(id) });
+      return t("drag.over", {
+        card: cardName(id),
+        spot: dropSpot(id, over) ?? "",
+      });
+    },
+    onDragEnd({ active, over }) {
+      const id = String(active.id);
+      if (isColumnDrag(id)) {
+        const spot = columnSpot(over);
+        const name = columnName(id.slice(COLUMN_DRAG_PREFIX.length));
+        return spot
+          ? t("drag.columnMoved", { column: name, spot })
+          : t("drag.columnDropped", { column: name });
+      }
+      if (!over) return t("drag.outside", { card: cardName(id) });
+      return t("drag.moved", {
+        card: groupName(id),
+        spot: dropSpot(id, over) ?? "",
+      });
+    },
+    onDragCancel({ active }) {
+      const id = String(active.id);
+      const name = isColumnDrag(id)
+        ? t("drag.column", {
+            column: columnName(id.slice(COLUMN_DRAG_PREFIX.length)),
+          })
+        : cardName(id);
+      return t("drag.cancel", { name });
+    },
+  };
+
+  return {
+    activeCardId,
+    // spread onto the DndContext
+    contextProps: {
+      sensors,
+      collisionDetection,
+      ...handlers,
+      accessibility: {
+        announcements,
+        screenReaderInstructions: { draggable: t("drag.instructions") },
+      },
+    },
+  };
+}
+
+// The DndContext callbacks. Apart from React state they only work through
+// refs, so they can be driven without rendering anything.
+export function dragHandlers(
+  opts: DragOptions & {
+    dragStartRef: RefObject<DragStart | null>;
+    setActiveCardId: (cardId: string | null) => void;
+  }
+) {
+  const {
+    boardRef,
+    dispatch,
+    activeCardIdRef,
+    selectedIdsRef,
+    dragStartRef,
+    setActiveCardId,
+  } = opts;
+
+  // The snapshot holds the full columnCardIds, so the neighbours sent to the
+  // server are the real ones even when filtered-out cards sit in between.
+  // A drop into another swimlane also rewrites the lane field of every
+  // dragged card; all of it is undone as one edit.
+  function syncDrop(snapshot: BoardState, pending: CardDrop) {
+    const mutations: Mutation[] = [];
+    if (pending.moved) {
+      const move =
+        pending.group.length > 1
+          ? groupMoveMutation(snapshot, pending.cardId, pending.group)
+          : moveMutationFromSnapshot(snapshot, pending.cardId);
+      if (move) mutations.push(move);
+    }
+    if (pending.laneId !== null) {
+      for (const cardId of pending.group) {
+        const card = snapshot.cardsById[cardId];
+        const patch =
+          card && lanePatch(snapshot, card, opts.swimlaneKey, pending.laneId);
+        if (patch) mutations.push({ kind: "update_card", cardId, patch });
+      }
+    }
+    opts.onDrop(mutations);
+  }
+
+  function handleDragStart(e: DragStartEvent) {
+    const cur = boardRef.current;
+    if (!cur) return;
+
+    const id = String(e.active.id);
+    if (isColumnId(id, cur.columns) || isColumnDrag(id)) return;
+
+    activeCardIdRef.current = id;
+    setActiveCardId(id);
+
+    const fromCol = columnOf(cur, id);
+    if (!fromCol) return;
+
+    const fromIndex = cardsIn(cur, fromCol).indexOf(id);
+    const selected = selectedIdsRef.current;
+    const group =
+      selected.includes(id) && selected.length > 1
+        ? inBoardOrder(cur, selected)
+        : [id];
+    dragStartRef.current = { cardId: id, fromColId: fromCol, fromIndex, group };
+  }
+
+  function handleDragOver(e: DragOverEvent) {
+    const cur = boardRef.current;
+    if (!cur) return;
+
+    const activeId = String(e.active.id);
+    if (!e.over) return;
+    const { overId } = dropTarget(e.over);
+    if (isColumnId(activeId, cur.columns) || isColumnDrag(activeId)) return;
+
+    const fromColId = dragStartRef.current?.fromColId;
+    const group = dragStartRef.current?.group ?? [activeId];
+
+    // a full column with a hard limit doesn't take the preview; the drop
+    // asks for confirmation instead
+    const overCol = columnOf(cur, overId);
+    if (
+      overCol &&
+      overCol !== fromColId &&
+      breaksHardLimit(cur, group, overCol)
+    ) {
+      return;
+    }
+    dispatch({ type: "moveCard", cardId: activeId, overId });
+  }
+
+  function endDrag() {
+    setActiveCardId(null);
+    activeCardIdRef.current = null;
+    dragStartRef.current = null;
+  }
+
+  // Every way out of a drag renders the board again: that drops a preview
+  // no edit came of and shows what arrived live meanwhile (see
+  // applyServerEvent). A drop that does edit renders through the outbox too.
+  function handleDragEnd(e: DragEndEvent) {
+    const snap = dragStartRef.current;
+    endDrag();
+    drop(e, snap);
+    opts.reset();
+  }
+
+  // Esc during a keyboard drag
+  function handleDragCancel() {
+    endDrag();
+    opts.reset();
+  }
+
+  function drop(e: DragEndEvent, snap: DragStart | null) {
+    const cur = boardRef.current;
+    if (!cur) return;
+
+    const activeId = String(e.active.id);
+    const target = e.over ? dropTarget(e.over) : null;
+    const overId = target?.overId ?? null;
+
+    if (isColumnDrag(activeId)) {
+      if (overId) dropColumn(activeId.slice(COLUMN_DRAG_PREFIX.length), overId);
+      return;
+    }
+    // dropped outside
+    if (!target || !overId) return;
+    if (isColumnId(activeId, cur.columns)) return;
+
+    // lane of the cell, or of the card it was dropped on
+    const { swimlaneKey } = opts;
+    const overCard = cur.cardsById[overId];
+    const laneId =
+      swimlaneKey === "none"
+        ? null
+        : (target.laneId ??
+          (overCard ? laneOf(cur, overCard, swimlaneKey) : null));
+
+    const dropCol = columnOf(cur, overId);
+    const col = cur.columns.find((c) => c.id === dropCol);
+    if (
+      col?.wipLimit &&
+      dropCol !== snap?.fromColId &&
+      breaksHardLimit(cur, snap?.group ?? [activeId], col.id)
+    ) {
+      const usage = wipUsage(cur, col.id);
+      const limit = [
+        col.wipLimit.cards !== null
+          ? t("column.cardsLimit", {
+              count: usage.cards,
+              limit: col.wipLimit.cards,
+            })
+          : null,
+        col.wipLimit.points !== null
+          ? `${formatNumber(usage.points)}/${formatPoints(col.wipLimit.points)}`
+          : null,
+      ]
+        .filter(Boolean)
+        .join(", ");
+      if (!confirm(t("confirm.atLimit", { column: col.title, limit }))) {
+        return;
+      }
+    }
+
+    // within the column, or across columns (usually done in onDragOver
+    // already, unless a hard WIP limit held the preview back)
+    const laneDrop = target.laneId !== null;
+    const next = dispatch(
+      columnOf(cur, activeId) === columnOf(cur, overId)
+        ? { type: "reorderCard", cardId: activeId, overId, laneDrop }
+        : { type: "moveCard", cardId: activeId, overId }
+    );
+    if (!next || !snap) return;
+
+    // compared with where the drag started, as the preview may have moved
+    // the card already
+    const column = columnOf(next, activeId);
+    const index = column ? cardsIn(next, column).indexOf(activeId) : -1;
+    const moved = column !== snap.fromColId || index !== snap.fromIndex;
+    if (!moved && laneId === null) return;
+    syncDrop(next, {
+      cardId: activeId,
+      group: snap.group,
+      moved,
+      laneId,
+    });
+  }
+
+  // optimistic through the outbox, like every other edit
+  function dropColumn(columnId: ColumnId, overId: string) {
+    const cur = boardRef.current;
+    if (!cur) return;
+    const target = isColumnDrag(overId)
+      ? overId.slice(COLUMN_DRAG_PREFIX.length)
+      : findContainerOf(overId, cur.columnCardIds, cur.columns);
+    const ordered = sortedColumns(cur.columns).map((c) => c.id);
+    const from = ordered.indexOf(columnId);
+    const to = target ? ordered.indexOf(target) : -1;
+    if (from === -1 || to === -1 || from === to) return;
+    const move = moveColumnMutation(arrayMove(ordered, from, to), columnId);
+    if (move) opts.onDrop([move]);
+  }
+
+  return {
+    onDragStart: handleDragStart,
+    onDragOver: handleDragOver,
+    onDragEnd: handleDragEnd,
+    onDragCancel: handleDragCancel,
+  };
+}
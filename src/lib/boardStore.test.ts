@@ -0,0 +1,163 @@
+import { describe, expect, it } from "vitest";
+import { boardReducer, cardsIn, columnOf, reorderSpot } from "./boardStore";
+import { board, card } from "./testFixtures";
+
+describe("moveCard", () => {
+  it("takes the place of the card it is over", () => {
+    const next = boardReducer(board(), {
+      type: "moveCard",
+      cardId: "b",
+      overId: "e",
+    });
+    expect(next.columnCardIds.todo).toEqual(["a", "c"]);
+    expect(next.columnCardIds.doing).toEqual(["d", "b", "e"]);
+    expect(next.cardsById.b.columnId).toBe("doing");
+  });
+
+  it("goes to the bottom when over the column itself", () => {
+    const next = boardReducer(board(), {
+      type: "moveCard",
+      cardId: "a",
+      overId: "doing",
+    });
+    expect(next.columnCardIds.doing).toEqual(["d", "e", "a"]);
+  });
+
+  it("fills an empty column", () => {
+    const next = boardReducer(board(), {
+      type: "moveCard",
+      cardId: "d",
+      overId: "done",
+    });
+    expect(next.columnCardIds.doing).toEqual(["e"]);
+    expect(next.columnCardIds.done).toEqual(["d"]);
+    expect(next.cardsById.d.columnId).toBe("done");
+  });
+
+  it("leaves moves within the column to reorderCard", () => {
+    const state = board();
+    expect(
+      boardReducer(state, { type: "moveCard", cardId: "a", overId: "c" })
+    ).toBe(state);
+  });
+
+  it("ignores unknown cards and targets", () => {
+    const state = board();
+    expect(
+      boardReducer(state, { type: "moveCard", cardId: "x", overId: "d" })
+    ).toBe(state);
+    expect(
+      boardReducer(state, { type: "moveCard", cardId: "a", overId: "x" })
+    ).toBe(state);
+  });
+
+  it("does not touch the original board", () => {
+    const state = board();
+    boardReducer(state, { type: "moveCard", cardId: "a", overId: "d" });
+    expect(state).toEqual(board());
+  });
+});
+
+describe("reorderCard", () => {
+  it("moves down to the card it is over", () => {
+    const next = boardReducer(board(), {
+      type: "reorderCard",
+      cardId: "a",
+      overId: "c",
+      laneDrop: false,
+    });
+    expect(next.columnCardIds.todo).toEqual(["b", "c", "a"]);
+  });
+
+  it("moves up to the card it is over", () => {
+    const next = boardReducer(board(), {
+      type: "reorderCard",
+      cardId: "c",
+      overId: "a",
+      laneDrop: false,
+    });
+    expect(next.columnCardIds.todo).toEqual(["c", "a", "b"]);
+  });
+
+  it("goes to the bottom when dropped on its column", () => {
+    const next = boardReducer(board(), {
+      type: "reorderCard",
+      cardId: "a",
+      overId: "todo",
+      laneDrop: false,
+    });
+    expect(next.columnCardIds.todo).toEqual(["b", "c", "a"]);
+  });
+
+  it("stays put when dropped on a lane cell of its column", () => {
+    const state = board();
+    expect(
+      boardReducer(state, {
+        type: "reorderCard",
+        cardId: "a",
+        overId: "todo",
+        laneDrop: true,
+      })
+    ).toBe(state);
+  });
+
+  it("ignores targets in another column", () => {
+    const state = board();
+    expect(
+      boardReducer(state, {
+        type: "reorderCard",
+        cardId: "a",
+        overId: "d",
+        laneDrop: false,
+      })
+    ).toBe(state);
+  });
+});
+
+describe("addCard and removeCard", () => {
+  it("adds at the bottom or at an index", () => {
+    let next = boardReducer(board(), {
+      type: "addCard",
+      card: card("f", "doing"),
+    });
+    expect(next.columnCardIds.doing).toEqual(["d", "e", "f"]);
+    next = boardReducer(next, {
+      type: "addCard",
+      card: card("g", "doing"),
+      index: 0,
+    });
+    expect(next.columnCardIds.doing).toEqual(["g", "d", "e", "f"]);
+    expect(next.cardsById.g.columnId).toBe("doing");
+  });
+
+  it("removes the card and its place in the column", () => {
+    const next = boardReducer(board(), { type: "removeCard", cardId: "b" });
+    expect(next.columnCardIds.todo).toEqual(["a", "c"]);
+    expect(next.cardsById.b).toBeUndefined();
+  });
+});
+
+describe("selectors", () => {
+  it("finds the column of a card or column id", () => {
+    const state = board();
+    expect(columnOf(state, "e")).toBe("doing");
+    expect(columnOf(state, "done")).toBe("done");
+    expect(columnOf(state, "x")).toBeNull();
+    expect(cardsIn(state, "nope")).toEqual([]);
+  });
+
+  it("reports where a reorder lands", () => {
+    const state = board();
+    expect(reorderSpot(state, "b", "c", false)).toEqual({
+      columnId: "todo",
+      from: 1,
+      to: 2,
+    });
+    expect(reorderSpot(state, "b", "todo", true)).toEqual({
+      columnId: "todo",
+      from: 1,
+      to: 1,
+    });
+    expect(reorderSpot(state, "b", "d", false)).toBeNull();
+  });
+});
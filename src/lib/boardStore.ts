@@ -0,0 +1,177 @@
+import { useCallback, useRef, useState } from "react";
+import { findContainerOf, insertAt, isColumnId, removeFrom } from "./board";
+import type { BoardState, Card, ColumnId } from "./types";
+
+// Local edits to the rendered board. The board page shows server state plus
+// the outbox; these actions cover what happens on top of that between two
+// syncs, i.e. the drag preview and the drop, and are kept pure so the move
+// and reorder rules can be tested without a browser.
+
+export type BoardAction =
+  // into the column of `overId` (a card or a column), in place of that card
+  // or at the end; nothing happens within the card's own column
+  | { type: "moveCard"; cardId: string; overId: string }
+  // within the card's own column, see reorderSpot
+  | { type: "reorderCard"; cardId: string; overId: string; laneDrop: boolean }
+  // at the end of the card's column unless an index is given
+  | { type: "addCard"; card: Card; index?: number }
+  | { type: "removeCard"; cardId: string };
+
+export function boardReducer(
+  state: BoardState,
+  action: BoardAction
+): BoardState {
+  switch (action.type) {
+    case "moveCard":
+      return moveCard(state, action.cardId, action.overId);
+
+    case "reorderCard": {
+      const spot = reorderSpot(
+        state,
+        action.cardId,
+        action.overId,
+        action.laneDrop
+      );
+      if (!spot || spot.from === spot.to) return state;
+      const list = cardsIn(state, spot.columnId);
+      return {
+        ...state,
+        columnCardIds: {
+          ...state.columnCardIds,
+          [spot.columnId]: insertAt(
+            removeFrom(list, action.cardId),
+            spot.to,
+            action.cardId
+          ),
+        },
+      };
+    }
+
+    case "addCard": {
+      const { card } = action;
+      const list = cardsIn(state, card.columnId);
+      return {
+        ...state,
+        cardsById: { ...state.cardsById, [card.id]: card },
+        columnCardIds: {
+          ...state.columnCardIds,
+          [card.columnId]: insertAt(
+            removeFrom(list, card.id),
+            action.index ?? list.length,
+            card.id
+          ),
+        },
+      };
+    }
+
+    case "removeCard": {
+      const columnId = columnOf(state, action.cardId);
+      const nextCards = { ...state.cardsById };
+      delete nextCards[action.cardId];
+      return {
+        ...state,
+        cardsById: nextCards,
+        columnCardIds: columnId
+          ? {
+              ...state.columnCardIds,
+              [columnId]: removeFrom(cardsIn(state, columnId), action.cardId),
+            }
+          : state.columnCardIds,
+      };
+    }
+  }
+}
+
+function moveCard(
+  state: BoardState,
+  cardId: string,
+  overId: string
+): BoardState {
+  const fromCol = columnOf(state, cardId);
+  const toCol = columnOf(state, overId);
+  if (!fromCol || !toCol || fromCol === toCol) return state;
+
+  const toList = cardsIn(state, toCol);
+  if (toList.includes(cardId)) return state;
+
+  let index = toList.length;
+  if (!isColumnId(overId, state.columns)) {
+    const overIndex = toList.indexOf(overId);
+    if (overIndex >= 0) index = overIndex;
+  }
+
+  const nextCards = { ...state.cardsById };
+  const c = nextCards[cardId];
+  if (c) nextCards[cardId] = { ...c, columnId: toCol };
+
+  return {
+    ...state,
+    cardsById: nextCards,
+    columnCardIds: {
+      ...state.columnCardIds,
+      [fromCol]: removeFrom(cardsIn(state, fromCol), cardId),
+      [toCol]: insertAt(toList, index, cardId),
+    },
+  };
+}
+
+// ---------- Selectors ----------
+
+// column holding a card, or the column itself for a column id
+export function columnOf(board: BoardState, id: string): ColumnId | null {
+  return findContainerOf(id, board.columnCardIds, board.columns);
+}
+
+export function cardsIn(board: BoardState, columnId: ColumnId) {
+  return board.columnCardIds[columnId] || [];
+}
+
+// Where a drop in the card's own column puts it: in place of the card it was
+// dropped on, else at the bottom. A drop on a lane cell of the column
+// (laneDrop) only changes the lane, so the card stays where it is. Null when
+// the target is in another column.
+export function reorderSpot(
+  board: BoardState,
+  cardId: string,
+  overId: string,
+  laneDrop: boolean
+): { columnId: ColumnId; from: number; to: number } | null {
+  const columnId = columnOf(board, cardId);
+  if (!columnId || columnOf(board, overId) !== columnId) return null;
+  const list = cardsIn(board, columnId);
+  const from = list.indexOf(cardId);
+  if (from === -1) return null;
+
+  let to = laneDrop ? from : list.length - 1;
+  if (!isColumnId(overId, board.columns)) {
+    const overIndex = list.indexOf(overId);
+    if (overIndex !== -1) to = overIndex;
+  }
+  return { columnId, from, to };
+}
+
+// ---------- Hook ----------
+
+// The rendered board. The ref is updated as soon as an action is dispatched,
+// so drag handlers firing between two renders see the preview they made, and
+// dispatch returns the new board for syncing right away.
+export function useBoard() {
+  const [board, setBoard] = useState<BoardState | null>(null);
+  const boardRef = useRef<BoardState | null>(null);
+
+  const load = useCallback((next: BoardState | null) => {
+    boardRef.current = next;
+    setBoard(next);
+  }, []);
+
+  const dispatch = useCallback((action: BoardAction) => {
+    const cur = boardRef.current;
+    if (!cur) return null;
+    const next = boardReducer(cur, action);
+    boardRef.current = next;
+    setBoard(next);
+    return next;
+  }, []);
+
+  return { board, boardRef, load, dispatch };
+}
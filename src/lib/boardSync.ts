@@ -0,0 +1,300 @@
+import { useEffect, useRef, useState, type RefObject } from "react";
+import {
+  STORAGE_BOARD_ID,
+  isAuthError,
+  isConflictError,
+  isTransientError,
+} from "./api";
+import type { BoardDataSource } from "./dataSource";
+import { t } from "./i18n";
+import {
+  applyOutbox,
+  confirmEntry,
+  createEntry,
+  createdTempId,
+  loadCachedBoard,
+  loadOutbox,
+  rebaseEntries,
+  remapEntries,
+  saveCachedBoard,
+  saveOutbox,
+  sendMutation,
+  versionAfterWrite,
+  type Mutation,
+  type OutboxEntry,
+} from "./outbox";
+import { applyBoardEvent, type BoardEvent, type LiveStatus } from "./realtime";
+import type { BoardState } from "./types";
+
+// Keeps the board page in sync with the backend: the last state the server
+// confirmed, the outbox of edits made on top of it, and live updates from
+// other people. The rendered board is always the server state plus the
+// outbox; edits are replayed to the server in order and survive a reload.
+
+// how often queued mutations are retried while the backend is unreachable
+const OUTBOX_RETRY_MS = 15000;
+
+export function useBoardSync(opts: {
+  boardId: string;
+  dataSource: BoardDataSource;
+  // where the outbox and the cached board are kept, see storageScope
+  scope: string;
+  // shows a board, see useBoard
+  load: (board: BoardState | null) => void;
+  // card being dragged; live updates are shown after the drop
+  activeCardIdRef: RefObject<string | null>;
+  // the server assigned its own id to something created locally
+  onRemap: (localId: string, realId: string) => void;
+}) {
+  const { boardId, dataSource, scope, load } = opts;
+
+  const [loading, setLoading] = useState(false);
+  const [errMsg, setErrMsg] = useState<string | null>(null);
+  const [offline, setOffline] = useState(false);
+  const [liveStatus, setLiveStatus] = useState<LiveStatus>("connecting");
+
+  // last state confirmed by the server; the rendered board is this + outbox
+  const serverBoardRef = useRef<BoardState | null>(null);
+  const [serverBoard, setServerBoard] = useState<BoardState | null>(null);
+
+  const [outbox, setOutbox] = useState<OutboxEntry[]>(() => loadOutbox(scope));
+  const outboxRef = useRef<OutboxEntry[]>(outbox);
+  const flushingRef = useRef(false);
+
+  // the board without any drag preview
+  function outboxBoard() {
+    const server = serverBoardRef.current;
+    return server ? applyOutbox(server, outboxRef.current) : null;
+  }
+
+  function render() {
+    setServerBoard(serverBoardRef.current);
+    load(outboxBoard());
+  }
+
+  function commitOutbox(next: OutboxEntry[]) {
+    outboxRef.current = next;
+    saveOutbox(scope, next);
+    setOutbox(next);
+    render();
+  }
+
+  async function refresh(bid: string) {
+    setLoading(true);
+    setErrMsg(null);
+    try {
+      const state = await dataSource.loadBoard(bid);
+      serverBoardRef.current = state;
+      saveCachedBoard(scope, state);
+      setOffline(false);
+      render();
+      localStorage.setItem(STORAGE_BOARD_ID, bid);
+    } catch (e: unknown) {
+      // backend unreachable: keep working on the cached copy
+      const cached = serverBoardRef.current || loadCachedBoard(scope);
+      if (isTransientError(e) && cached) {
+        serverBoardRef.current = cached;
+        setOffline(true);
+        render();
+        return;
+      }
+      setErrMsg((e instanceof Error && e.message) || t("app.loadFailed"));
+      serverBoardRef.current = null;
+      render();
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // load once, then replay whatever was queued before the last reload
+  useEffect(() => {
+    void refresh(boardId).then(() => flushOutbox());
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // live updates from other people; reload on (re)connect to catch up
+  useEffect(() => {
+    return dataSource.subscribe(boardId, {
+      onEvent: applyServerEvent,
+      onOpen: () => void refresh(boardId),
+      onStatus: setLiveStatus,
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [boardId, dataSource]);
+
+  function applyServerEvent(ev: BoardEvent) {
+    const server = serverBoardRef.current;
+    if (!server) return;
+
+    const next = applyBoardEvent(server, ev);
+    if (next === server) return;
+    if (!next) {
+      void refresh(boardId);
+      return;
+    }
+
+    serverBoardRef.current = next;
+    saveCachedBoard(scope, next);
+    // mid-drag: the end of the drag renders it (see useBoardDnd)
+    if (opts.activeCardIdRef.current) return;
+    render();
+  }
+
+  // retry queued mutations when the browser is back online and periodically
+  useEffect(() => {
+    const onOnline = () => void flushOutbox();
+    window.addEventListener("online", onOnline);
+    const timer = window.setInterval(() => {
+      if (outboxRef.current.some((e) => e.status === "pending")) {
+        void flushOutbox();
+      }
+    }, OUTBOX_RETRY_MS);
+    return () => {
+      window.removeEventListener("online", onOnline);
+      window.clearInterval(timer);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Replays pending entries in order. A transient failure stops the replay and
+  // leaves the rest queued; a rejected entry is marked failed and skipped; a
+  // stale write (version conflict) stops the replay until the user resolves it.
+  async function flushOutbox() {
+    if (flushingRef.current) return;
+    flushingRef.current = true;
+    let synced = false;
+
+    try {
+      for (;;) {
+        const entry = outboxRef.current.find((e) => e.status !== "failed");
+        if (!entry || entry.status === "conflict") break;
+
+        try {
+          const res = await sendMutation(
+            dataSource,
+            entry.boardId,
+            entry.mutation,
+            { baseVersion: entry.baseVersion }
+          );
+          let rest = outboxRef.current.filter((e) => e.id !== entry.id);
+          rest = rebaseEntries(
+            rest,
+            entry.baseVersion,
+            versionAfterWrite(res, entry.baseVersion)
+          );
+          // the write is part of the server state from now on
+          const server = serverBoardRef.current;
+          if (server) {
+            serverBoardRef.current = confirmEntry(server, entry, res);
+            saveCachedBoard(scope, serverBoardRef.current);
+          }
+          const localId = createdTempId(entry.mutation);
+          if (res.id && localId) {
+            rest = remapEntries(rest, localId, res.id);
+            opts.onRemap(localId, res.id);
+          }
+          synced = true;
+          setOffline(false);
+          commitOutbox(rest);
+        } catch (e: unknown) {
+          if (isTransientError(e)) {
+            setOffline(true);
+            break;
+          }
+          // signed out meanwhile: the rest waits for the next sign-in
+          if (isAuthError(e)) break;
+          if (isConflictError(e)) {
+            // reload so the dialog can compare against the server copy
+            commitOutbox(
+              outboxRef.current.map((x) =>
+                x.id === entry.id
+                  ? { ...x, status: "conflict", attempts: x.attempts + 1 }
+                  : x
+              )
+            );
+            synced = true;
+            break;
+          }
+          commitOutbox(
+            outboxRef.current.map((x) =>
+              x.id === entry.id
+                ? {
+                    ...x,
+                    status: "failed",
+                    attempts: x.attempts + 1,
+                    error:
+                      (e instanceof Error && e.message) || t("header.rejected"),
+                  }
+                : x
+            )
+          );
+        }
+      }
+    } finally {
+      flushingRef.current = false;
+    }
+
+    if (synced) await refresh(boardId);
+  }
+
+  function enqueue(mutations: Mutation[]) {
+    const server = serverBoardRef.current;
+    if (!server) return;
+    setErrMsg(null);
+    commitOutbox([
+      ...outboxRef.current,
+      ...mutations.map((m) => createEntry(server.boardId, server.version, m)),
+    ]);
+    void flushOutbox();
+  }
+
+  // keep mine: resend against the version we have now seen
+  function resolveConflict(entryId: string, mutation: Mutation | null) {
+    const entry = outboxRef.current.find((e) => e.id === entryId);
+    if (!entry) return;
+    // The dialog compared against the reloaded server copy, so the entries
+    // queued on the same stale version move to it too instead of each
+    // conflicting again with its own dialog.
+    const version = serverBoardRef.current?.version ?? entry.baseVersion;
+    const rest = rebaseEntries(outboxRef.current, entry.baseVersion, version);
+    commitOutbox(
+      mutation
+        ? rest.map((e) =>
+            e.id === entryId ? { ...e, mutation, status: "pending" } : e
+          )
+        : rest.filter((e) => e.id !== entryId)
+    );
+    void flushOutbox();
+  }
+
+  function retryFailed() {
+    commitOutbox(
+      outboxRef.current.map((e) =>
+        e.status === "failed"
+          ? { ...e, status: "pending", error: undefined }
+          : e
+      )
+    );
+    void flushOutbox();
+  }
+
+  function discardFailed() {
+    commitOutbox(outboxRef.current.filter((e) => e.status !== "failed"));
+  }
+
+  return {
+    serverBoard,
+    outbox,
+    loading,
+    errMsg,
+    offline,
+    liveStatus,
+    outboxBoard,
+    render,
+    refresh,
+    enqueue,
+    resolveConflict,
+    retryFailed,
+    discardFailed,
+  };
+}
@@ -0,0 +1,218 @@
+import {
+  arrayOf,
+  object,
+  optional,
+  parse,
+  str,
+  SchemaError,
+  type Schema,
+} from "./validate";
+import { t } from "./i18n";
+
+// Runtime configuration. Three layers, later ones win:
+//   1. Vite env vars baked in at build time (VITE_*, see vite-env.d.ts)
+//   2. /config.json, fetched once before the app renders, so a deployment
+//      can point at another backend without a rebuild
+//   3. this browser's saved choices from the settings page: which profile is
+//      active and any API base typed in for it (e.g. a new tunnel URL)
+// The API base comes from the active environment profile.
+
+export type EnvProfile = {
+  id: string;
+  name: string;
+  // "" means the app's own origin
+  apiBase: string;
+};
+
+export type AppConfig = {
+  profiles: EnvProfile[];
+  profileId: string;
+  // opened from "/" when this browser has no last board
+  defaultBoardId: string | null;
+  oidcIssuer?: string;
+  oidcClientId?: string;
+  oidcScope?: string;
+};
+
+// what /config.json may contain; everything is optional
+type FileConfig = {
+  profile?: string;
+  profiles?: EnvProfile[];
+  defaultBoardId?: string;
+  oidcIssuer?: string;
+  oidcClientId?: string;
+  oidcScope?: string;
+};
+
+const fileConfigSchema: Schema<FileConfig> = object({
+  profile: optional(str),
+  profiles: optional(arrayOf(object({ id: str, name: str, apiBase: str }))),
+  defaultBoardId: optional(str),
+  oidcIssuer: optional(str),
+  oidcClientId: optional(str),
+  oidcScope: optional(str),
+});
+
+const CONFIG_URL = "/config.json";
+const STORAGE_PROFILE = "sb_env_profile";
+// { [profileId]: apiBase } typed in on the settings page
+const STORAGE_PROFILE_BASES = "sb_env_bases";
+
+const HEALTH_TIMEOUT_MS = 5000;
+
+function envConfig(): AppConfig {
+  const env = import.meta.env;
+  return {
+    profiles: [
+      {
+        id: "local",
+        name: "Local",
+        apiBase: env.VITE_API_BASE_LOCAL ?? "http://localhost:8787",
+      },
+      {
+        id: "staging",
+        name: "Staging",
+        apiBase: env.VITE_API_BASE_STAGING ?? "",
+      },
+      { id: "prod", name: "Production", apiBase: env.VITE_API_BASE_PROD ?? "" },
+    ],
+    profileId: env.VITE_ENV_PROFILE ?? "prod",
+    defaultBoardId: env.VITE_DEFAULT_BOARD_ID || null,
+    oidcIssuer: env.VITE_OIDC_ISSUER,
+    oidcClientId: env.VITE_OIDC_CLIENT_ID,
+    oidcScope: env.VITE_OIDC_SCOPE,
+  };
+}
+
+// file profiles replace env ones with the same id and add the others
+function merge(base: AppConfig, file: FileConfig): AppConfig {
+  const profiles = base.profiles.map(
+    (p) => file.profiles?.find((f) => f.id === p.id) ?? p
+  );
+  for (const f of file.profiles || []) {
+    if (!profiles.some((p) => p.id === f.id)) profiles.push(f);
+  }
+  return {
+    profiles,
+    profileId: file.profile ?? base.profileId,
+    defaultBoardId: file.defaultBoardId ?? base.defaultBoardId,
+    oidcIssuer: file.oidcIssuer ?? base.oidcIssuer,
+    oidcClientId: file.oidcClientId ?? base.oidcClientId,
+    oidcScope: file.oidcScope ?? base.oidcScope,
+  };
+}
+
+function loadSavedBases(): Record<string, string> {
+  try {
+    const raw = localStorage.getItem(STORAGE_PROFILE_BASES);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+// with this browser's choices on top
+function withSaved(base: AppConfig): AppConfig {
+  const bases = loadSavedBases();
+  const profiles = base.profiles.map((p) =>
+    typeof bases[p.id] === "string" ? { ...p, apiBase: bases[p.id] } : p
+  );
+  const saved = localStorage.getItem(STORAGE_PROFILE);
+  const profileId = profiles.some((p) => p.id === saved)
+    ? saved!
+    : base.profileId;
+  return { ...base, profiles, profileId };
+}
+
+// deployment config without this browser's choices, for "reset"
+let shipped = envConfig();
+let config = withSaved(shipped);
+let loadError: string | null = null;
+
+// Called once before the first render. A missing /config.json is fine;
+// a broken one is reported on the settings page and otherwise ignored.
+export async function loadConfig() {
+  try {
+    const res = await fetch(CONFIG_URL, { cache: "no-store" });
+    // the dev server answers unknown paths with index.html
+    const isJson = res.headers.get("content-type")?.includes("json");
+    if (res.ok && isJson) {
+      shipped = merge(envConfig(), parse(fileConfigSchema, await res.json()));
+    } else if (res.ok || res.status === 404) {
+      shipped = envConfig();
+    } else {
+      throw new Error(`HTTP ${res.status}`);
+    }
+  } catch (e) {
+    loadError =
+      e instanceof SchemaError
+        ? `${CONFIG_URL}: ${e.message}`
+        : `${CONFIG_URL} could not be loaded (${
+            e instanceof Error ? e.message : "unknown error"
+          })`;
+  }
+  config = withSaved(shipped);
+}
+
+export function getConfig(): AppConfig {
+  return config;
+}
+
+export function getConfigError() {
+  return loadError;
+}
+
+export function getEnvProfile(): EnvProfile {
+  return (
+    config.profiles.find((p) => p.id === config.profileId) ?? config.profiles[0]
+  );
+}
+
+// the profile's base as deployed, before any edits in this browser
+export function shippedApiBase(profileId: string) {
+  return shipped.profiles.find((p) => p.id === profileId)?.apiBase ?? "";
+}
+
+// From the settings page. Bases equal to the deployed ones are not stored,
+// so a later config.json change still reaches them.
+export function saveEnvProfiles(profiles: EnvProfile[], profileId: string) {
+  const bases: Record<string, string> = {};
+  for (const p of profiles) {
+    if (p.apiBase !== shippedApiBase(p.id)) bases[p.id] = p.apiBase;
+  }
+  localStorage.setItem(STORAGE_PROFILE_BASES, JSON.stringify(bases));
+  localStorage.setItem(STORAGE_PROFILE, profileId);
+  config = withSaved(shipped);
+}
+
+// ---------- Health check ----------
+
+export type HealthResult =
+  { ok: true; ms: number } | { ok: false; error: string };
+
+// GET {apiBase}/health; plain fetch so no token or retries get involved
+export async function checkHealth(apiBase: string): Promise<HealthResult> {
+  const controller = new AbortController();
+  const timer = window.setTimeout(() => controller.abort(), HEALTH_TIMEOUT_MS);
+  const started = performance.now();
+  try {
+    const res = await fetch(`${apiBase}/health`, {
+      signal: controller.signal,
+      cache: "no-store",
+    });
+    if (!res.ok) return { ok: false, error: `HTTP ${res.status}` };
+    return { ok: true, ms: Math.round(performance.now() - started) };
+  } catch (e) {
+    return {
+      ok: false,
+      error: controller.signal.aborted
+        ? t("settings.timedOut")
+        : e instanceof Error
+          ? e.message
+          : t("settings.unreachable"),
+    };
+  } finally {
+    window.clearTimeout(timer);
+  }
+}
@@ -0,0 +1,367 @@
+import { backlogOrder } from "./backlog";
+import { sortedColumns } from "./board";
+import { formatPoints, t, type MessageKey } from "./i18n";
+import type { Mutation } from "./outbox";
+import type {
+  BoardState,
+  Card,
+  CardPatch,
+  SprintState,
+  WipLimit,
+} from "./types";
+
+// Describes a write the server rejected as stale, comparing what we tried to
+// write with the server's current copy of the same card or column.
+
+export type ConflictField = {
+  field: string;
+  label: string;
+  mine: string;
+  theirs: string;
+};
+
+export type ConflictInfo = {
+  subject: string;
+  // set when the entity no longer exists on the server
+  missing: boolean;
+  fields: ConflictField[];
+  // field-by-field merge only makes sense for plain edits
+  mergeable: boolean;
+};
+
+export const CARD_FIELD_LABELS: Record<keyof CardPatch, MessageKey> = {
+  title: "field.title",
+  description: "field.description",
+  points: "field.points",
+  sprintId: "field.sprintId",
+  assigneeIds: "field.assigneeIds",
+  labelIds: "field.labelIds",
+  dueDate: "field.dueDate",
+  priority: "field.priority",
+  epicId: "field.epicId",
+};
+
+function show(v: unknown) {
+  if (v === undefined || v === null || v === "") return "—";
+  return String(v);
+}
+
+function showLimit(limit: WipLimit | null | undefined) {
+  if (!limit) return "—";
+  const parts = [
+    limit.cards !== null
+      ? t("conflict.limitCards", { count: limit.cards })
+      : null,
+    limit.points !== null ? formatPoints(limit.points) : null,
+  ].filter(Boolean);
+  const text = parts.join(", ") || "—";
+  return limit.hard ? t("conflict.hard", { limit: text }) : text;
+}
+
+function sprintState(state: SprintState | undefined) {
+  return state && t(`sprint.${state}`);
+}
+
+function cardSubject(card: Card | undefined, fallbackId: string) {
+  return t("conflict.card", { title: card?.title || fallbackId });
+}
+
+export function describeConflict(
+  m: Mutation,
+  server: BoardState,
+  local: BoardState
+): ConflictInfo {
+  const columnTitle = (state: BoardState, id: string) =>
+    state.columns.find((c) => c.id === id)?.title;
+  const sprintName = (state: BoardState, id: string | null | undefined) =>
+    id
+      ? (state.sprints || []).find((s) => s.id === id)?.name
+      : t("sprint.backlog");
+  const labelName = (state: BoardState, id: string) =>
+    (state.labels || []).find((l) => l.id === id)?.name ?? id;
+  // card field value in words: sprint and label names instead of ids
+  const cardValue = (state: BoardState, field: keyof CardPatch, v: unknown) => {
+    if (field === "sprintId") return sprintName(state, v as string | null);
+    if (field === "epicId") {
+      return v ? (state.cardsById[v as string]?.title ?? v) : undefined;
+    }
+    if (field === "labelIds") {
+      return ((v as string[] | undefined) || [])
+        .map((id) => labelName(state, id))
+        .join(", ");
+    }
+    return Array.isArray(v) ? v.join(", ") : v;
+  };
+
+  switch (m.kind) {
+    case "update_card": {
+      const theirs = server.cardsById[m.cardId];
+      const fields = (Object.keys(m.patch) as (keyof CardPatch)[]).map(
+        (field) => ({
+          field,
+          label: CARD_FIELD_LABELS[field] ? t(CARD_FIELD_LABELS[field]) : field,
+          mine: show(cardValue(local, field, m.patch[field])),
+          theirs: show(theirs && cardValue(server, field, theirs[field])),
+        })
+      );
+      return {
+        subject: cardSubject(theirs || local.cardsById[m.cardId], m.cardId),
+        missing: !theirs,
+        fields,
+        mergeable: !!theirs,
+      };
+    }
+
+    case "rename_column": {
+      const theirs = columnTitle(server, m.columnId);
+      return {
+        subject: t("conflict.column", { title: theirs ?? m.title }),
+        missing: theirs === undefined,
+        fields: [
+          {
+            field: "title",
+            label: t("field.title"),
+            mine: show(m.title),
+            theirs: show(theirs),
+          },
+        ],
+        mergeable: theirs !== undefined,
+      };
+    }
+
+    case "set_column_limit": {
+      const theirs = server.columns.find((c) => c.id === m.columnId);
+      return {
+        subject: t("conflict.column", { title: theirs?.title ?? m.columnId }),
+        missing: !theirs,
+        fields: [
+          {
+            field: "wipLimit",
+            label: t("conflict.wipLimit"),
+            mine: showLimit(m.wipLimit),
+            theirs: showLimit(theirs?.wipLimit),
+          },
+        ],
+        mergeable: false,
+      };
+    }
+
+    case "move_column": {
+      const theirs = server.columns.find((c) => c.id === m.columnId);
+      const position = (state: BoardState) =>
+        sortedColumns(state.columns).findIndex((c) => c.id === m.columnId) + 1;
+      return {
+        subject: t("conflict.column", { title: theirs?.title ?? m.columnId }),
+        missing: !theirs,
+        fields: [
+          {
+            field: "order",
+            label: t("conflict.position"),
+            mine: show(position(local) || undefined),
+            theirs: show(position(server) || undefined),
+          },
+        ],
+        mergeable: false,
+      };
+    }
+
+    case "move_card": {
+      const theirs = server.cardsById[m.cardId];
+      return {
+        subject: cardSubject(theirs || local.cardsById[m.cardId], m.cardId),
+        missing: !theirs,
+        fields: [
+          {
+            field: "columnId",
+            label: t("conflict.columnField"),
+            mine: show(columnTitle(local, m.toColumnId)),
+            theirs: show(theirs && columnTitle(server, theirs.columnId)),
+          },
+        ],
+        mergeable: false,
+      };
+    }
+
+    case "move_cards": {
+      const theirs = m.cardIds.map((id) => server.cardsById[id]);
+      return {
+        subject: t("conflict.cards", { count: m.cardIds.length }),
+        missing: theirs.every((c) => !c),
+        fields: [
+          {
+            field: "columnId",
+            label: t("conflict.columnField"),
+            mine: show(columnTitle(local, m.toColumnId)),
+            theirs: show(
+              [
+                ...new Set(
+                  theirs.flatMap((c) =>
+                    c ? [columnTitle(server, c.columnId)] : []
+                  )
+                ),
+              ].join(", ")
+            ),
+          },
+        ],
+        mergeable: false,
+      };
+    }
+
+    case "rank_card": {
+      const theirs = server.cardsById[m.cardId];
+      const place = (state: BoardState) => {
+        const i = backlogOrder(state).indexOf(m.cardId);
+        return i === -1 ? undefined : `#${i + 1}`;
+      };
+      return {
+        subject: cardSubject(theirs || local.cardsById[m.cardId], m.cardId),
+        missing: !theirs,
+        fields: [
+          {
+            field: "backlogOrder",
+            label: t("conflict.rank"),
+            mine: show(place(local)),
+            theirs: show(place(server)),
+          },
+        ],
+        mergeable: false,
+      };
+    }
+
+    case "delete_card": {
+      const theirs = server.cardsById[m.cardId];
+      return {
+        subject: cardSubject(theirs, m.cardId),
+        missing: !theirs,
+        fields: theirs
+          ? [
+              {
+                field: "title",
+                label: t("field.title"),
+                mine: t("conflict.deletedValue"),
+                theirs: show(theirs.title),
+              },
+            ]
+          : [],
+        mergeable: false,
+      };
+    }
+
+    case "delete_column": {
+      const theirs = columnTitle(server, m.columnId);
+      return {
+        subject: t("conflict.column", { title: theirs ?? m.columnId }),
+        missing: theirs === undefined,
+        fields: [
+          {
+            field: "cards",
+            label: t("conflict.cardsField"),
+            mine: t("conflict.deletedValue"),
+            theirs: show((server.columnCardIds[m.columnId] || []).length),
+          },
+        ],
+        mergeable: false,
+      };
+    }
+
+    case "create_card":
+      return {
+        subject: t("conflict.newCard", {
+          title: m.data.title || t("card.untitled"),
+        }),
+        missing: false,
+        fields: [],
+        mergeable: false,
+      };
+
+    case "add_column":
+      return {
+        subject: t("conflict.newColumn", { title: m.title }),
+        missing: false,
+        fields: [],
+        mergeable: false,
+      };
+
+    case "create_sprint":
+      return {
+        subject: t("conflict.newSprint", { name: m.data.name }),
+        missing: false,
+        fields: [],
+        mergeable: false,
+      };
+
+    case "update_sprint":
+    case "complete_sprint": {
+      const theirs = (server.sprints || []).find((s) => s.id === m.sprintId);
+      const mine = (local.sprints || []).find((s) => s.id === m.sprintId);
+      return {
+        subject: t("conflict.sprint", {
+          name: theirs?.name ?? mine?.name ?? m.sprintId,
+        }),
+        missing: !theirs,
+        fields: [
+          {
+            field: "state",
+            label: t("conflict.state"),
+            mine: show(
+              sprintState(m.kind === "complete_sprint" ? "closed" : mine?.state)
+            ),
+            theirs: show(sprintState(theirs?.state)),
+          },
+        ],
+        mergeable: false,
+      };
+    }
+
+    case "create_label":
+      return {
+        subject: t("conflict.newLabel", { name: m.data.name }),
+        missing: false,
+        fields: [],
+        mergeable: false,
+      };
+
+    case "update_label":
+    case "delete_label": {
+      const theirs = (server.labels || []).find((l) => l.id === m.labelId);
+      const mine = (local.labels || []).find((l) => l.id === m.labelId);
+      return {
+        subject: t("conflict.label", {
+          name: theirs?.name ?? mine?.name ?? m.labelId,
+        }),
+        missing: !theirs,
+        fields: [
+          {
+            field: "name",
+            label: t("conflict.name"),
+            mine:
+              m.kind === "delete_label"
+                ? t("conflict.deletedValue")
+                : show(mine?.name),
+            theirs: show(theirs?.name),
+          },
+        ],
+        mergeable: false,
+      };
+    }
+  }
+}
+
+// Rewrites an edit so it only carries the fields the user chose to keep.
+// Returns null when nothing of ours is left to send.
+export function mergeMutation(
+  m: Mutation,
+  keepMine: Set<string>
+): Mutation | null {
+  if (m.kind === "update_card") {
+    const patch: CardPatch = {};
+    for (const key of Object.keys(m.patch) as (keyof CardPatch)[]) {
+      if (keepMine.has(key)) Object.assign(patch, { [key]: m.patch[key] });
+    }
+    return Object.keys(patch).length > 0 ? { ...m, patch } : null;
+  }
+  if (m.kind === "rename_column") {
+    return keepMine.has("title") ? m : null;
+  }
+  return m;
+}
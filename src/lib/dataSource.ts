@@ -0,0 +1,205 @@
+import { createLocalDataSource } from "./localDataSource";
+import type { BoardEvent, LiveStatus } from "./realtime";
+import { createRestDataSource } from "./restDataSource";
+import type {
+  BoardState,
+  BoardSummary,
+  CardActivity,
+  CardComment,
+  CardInput,
+  CardPatch,
+  ColumnId,
+  CommentInput,
+  LabelInput,
+  LabelPatch,
+  Member,
+  SprintInput,
+  SprintPatch,
+  WipLimit,
+} from "./types";
+
+// Everything the board needs from a backend. The REST client talks to the
+// Fastify + Mongo API; the local one keeps boards in localStorage so the board
+// can be demoed and developed without a backend.
+
+export type DataSourceKind = "rest" | "local";
+
+export type WriteOptions = {
+  // BoardState.version the write is based on; stale writes are rejected
+  baseVersion?: number;
+};
+
+export type WriteResult = {
+  // board version after the write, when the backend reports it
+  version?: number;
+  // id of the created card/column/sprint/label
+  id?: string;
+};
+
+export type MovePosition = {
+  toColumnId: ColumnId;
+  beforeCardId: string | null;
+  afterCardId: string | null;
+};
+
+export type RankPosition = Omit<MovePosition, "toColumnId">;
+
+export type ColumnPosition = {
+  beforeColumnId: ColumnId | null;
+  afterColumnId: ColumnId | null;
+};
+
+export type BoardSubscription = {
+  onEvent: (ev: BoardEvent) => void;
+  onOpen?: () => void;
+  onStatus?: (status: LiveStatus) => void;
+};
+
+export type BoardDataSource = {
+  kind: DataSourceKind;
+
+  // boards of the current account, archived ones included
+  listBoards(): Promise<BoardSummary[]>;
+  // new board with the default columns
+  createBoard(name: string): Promise<BoardSummary>;
+  renameBoard(boardId: string, name: string): Promise<void>;
+  archiveBoard(boardId: string, archived: boolean): Promise<void>;
+
+  loadBoard(boardId: string): Promise<BoardState>;
+  // people cards can be assigned to
+  listMembers(): Promise<Member[]>;
+
+  addColumn(
+    boardId: string,
+    title: string,
+    opts?: WriteOptions
+  ): Promise<WriteResult>;
+  renameColumn(
+    boardId: string,
+    columnId: ColumnId,
+    title: string,
+    opts?: WriteOptions
+  ): Promise<WriteResult>;
+  deleteColumn(
+    boardId: string,
+    columnId: ColumnId,
+    mode: "move_cards" | "delete_cards",
+    opts?: WriteOptions
+  ): Promise<WriteResult>;
+  setColumnLimit(
+    boardId: string,
+    columnId: ColumnId,
+    wipLimit: WipLimit | null,
+    opts?: WriteOptions
+  ): Promise<WriteResult>;
+  moveColumn(
+    boardId: string,
+    columnId: ColumnId,
+    to: ColumnPosition,
+    opts?: WriteOptions
+  ): Promise<WriteResult>;
+
+  createCard(
+    boardId: string,
+    columnId: ColumnId,
+    data: CardInput,
+    opts?: WriteOptions
+  ): Promise<WriteResult>;
+  updateCard(
+    boardId: string,
+    cardId: string,
+    patch: CardPatch,
+    opts?: WriteOptions
+  ): Promise<WriteResult>;
+  deleteCard(
+    boardId: string,
+    cardId: string,
+    opts?: WriteOptions
+  ): Promise<WriteResult>;
+  moveCard(
+    boardId: string,
+    cardId: string,
+    to: MovePosition,
+    opts?: WriteOptions
+  ): Promise<WriteResult>;
+  // place in the backlog ranking; neighbours as in moveCard
+  rankCard(
+    boardId: string,
+    cardId: string,
+    to: RankPosition,
+    opts?: WriteOptions
+  ): Promise<WriteResult>;
+  // keeps the cards together in the given order
+  moveCards(
+    boardId: string,
+    cardIds: string[],
+    to: MovePosition,
+    opts?: WriteOptions
+  ): Promise<WriteResult>;
+
+  createSprint(
+    boardId: string,
+    data: SprintInput,
+    opts?: WriteOptions
+  ): Promise<WriteResult>;
+  // also used to start a sprint (state: "active")
+  updateSprint(
+    boardId: string,
+    sprintId: string,
+    patch: SprintPatch,
+    opts?: WriteOptions
+  ): Promise<WriteResult>;
+  // closes the sprint and moves its unfinished cards
+  completeSprint(
+    boardId: string,
+    sprintId: string,
+    moveToSprintId: string | null,
+    opts?: WriteOptions
+  ): Promise<WriteResult>;
+
+  createLabel(
+    boardId: string,
+    data: LabelInput,
+    opts?: WriteOptions
+  ): Promise<WriteResult>;
+  updateLabel(
+    boardId: string,
+    labelId: string,
+    patch: LabelPatch,
+    opts?: WriteOptions
+  ): Promise<WriteResult>;
+  // also removes the label from its cards
+  deleteLabel(
+    boardId: string,
+    labelId: string,
+    opts?: WriteOptions
+  ): Promise<WriteResult>;
+
+  // card discussion and history; not part of the board state
+  listComments(boardId: string, cardId: string): Promise<CardComment[]>;
+  addComment(
+    boardId: string,
+    cardId: string,
+    data: CommentInput
+  ): Promise<CardComment>;
+  listActivity(boardId: string, cardId: string): Promise<CardActivity[]>;
+
+  // live updates made elsewhere; returns an unsubscribe function
+  subscribe(boardId: string, handlers: BoardSubscription): () => void;
+};
+
+const STORAGE_DATA_SOURCE = "sb_data_source";
+
+export function getDataSourceKind(): DataSourceKind {
+  const fromUrl = new URLSearchParams(window.location.search).get("source");
+  const v = fromUrl || localStorage.getItem(STORAGE_DATA_SOURCE);
+  return v === "local" ? "local" : "rest";
+}
+
+export function setDataSourceKind(kind: DataSourceKind) {
+  localStorage.setItem(STORAGE_DATA_SOURCE, kind);
+}
+
+export function createDataSource(kind: DataSourceKind): BoardDataSource {
+  return kind === "local" ? createLocalDataSource() : createRestDataSource();
+}
@@ -0,0 +1,101 @@
+import type { Card } from "./types";
+
+// Card filter from the search bar, kept in the URL query string
+// (?q=text&min=1&max=5&assignee=u1&label=l1) so a filtered board can be
+// shared or reloaded.
+
+export type BoardFilter = {
+  // matched against title and description, case-insensitive
+  q: string;
+  minPoints: number | null;
+  maxPoints: number | null;
+  assigneeId: string | null;
+  labelId: string | null;
+};
+
+export const EMPTY_FILTER: BoardFilter = {
+  q: "",
+  minPoints: null,
+  maxPoints: null,
+  assigneeId: null,
+  labelId: null,
+};
+
+function parseNumber(raw: string | null) {
+  if (raw === null || raw.trim() === "") return null;
+  const n = Number(raw);
+  return Number.isFinite(n) ? n : null;
+}
+
+export function parseFilter(search: string): BoardFilter {
+  const params = new URLSearchParams(search);
+  return {
+    q: params.get("q") ?? "",
+    minPoints: parseNumber(params.get("min")),
+    maxPoints: parseNumber(params.get("max")),
+    assigneeId: params.get("assignee") || null,
+    labelId: params.get("label") || null,
+  };
+}
+
+// rewrites the filter params of a query string, leaving the others alone
+export function filterToSearch(filter: BoardFilter, search: string) {
+  const params = new URLSearchParams(search);
+  const set = (key: string, value: string | number | null) => {
+    if (value === null || value === "") params.delete(key);
+    else params.set(key, String(value));
+  };
+  set("q", filter.q.trim());
+  set("min", filter.minPoints);
+  set("max", filter.maxPoints);
+  set("assignee", filter.assigneeId);
+  set("label", filter.labelId);
+  const qs = params.toString();
+  return qs ? `?${qs}` : "";
+}
+
+export function isFilterActive(filter: BoardFilter) {
+  return (
+    filter.q.trim() !== "" ||
+    filter.minPoints !== null ||
+    filter.maxPoints !== null ||
+    filter.assigneeId !== null ||
+    filter.labelId !== null
+  );
+}
+
+export function cardMatches(card: Card, filter: BoardFilter) {
+  const q = filter.q.trim().toLowerCase();
+  if (
+    q &&
+    !card.title.toLowerCase().includes(q) &&
+    !(card.description || "").toLowerCase().includes(q)
+  ) {
+    return false;
+  }
+  if (filter.minPoints !== null && card.points < filter.minPoints) return false;
+  if (filter.maxPoints !== null && card.points > filter.maxPoints) return false;
+  if (filter.assigneeId && !card.assigneeIds?.includes(filter.assigneeId)) {
+    return false;
+  }
+  if (filter.labelId && !card.labelIds?.includes(filter.labelId)) return false;
+  return true;
+}
+
+// splits text into plain and matching parts for highlighting
+export function splitMatches(text: string, q: string) {
+  const needle = q.trim().toLowerCase();
+  if (!needle) return [{ text, match: false }];
+  const parts: { text: string; match: boolean }[] = [];
+  const lower = text.toLowerCase();
+  let from = 0;
+  for (;;) {
+    const at = lower.indexOf(needle, from);
+    if (at === -1) break;
+    if (at > from) parts.push({ text: text.slice(from, at), match: false });
+    parts.push({ text: text.slice(at, at + needle.length), match: true });
+    from = at + needle.length;
+  }
+  if (from < text.length) parts.push({ text: text.slice(from), match: false });
+  return parts;
+}
@@ -0,0 +1,303 @@
+import { backlogOrder, rankMutation } from "./backlog";
+import {
+  cardInput,
+  findContainerOf,
+  inBoardOrder,
+  sortedColumns,
+} from "./board";
+import { t } from "./i18n";
+import {
+  applyMutation,
+  moveColumnMutation,
+  moveMutationFromSnapshot,
+  remapMutation,
+  tempId,
+  type Mutation,
+} from "./outbox";
+import type { BoardState } from "./types";
+
+// Undo/redo for board edits. Every recorded edit keeps the mutations that
+// did it and the mutations that reverse it, worked out from the board as it
+// was just before. Undo and redo go through the outbox like any other edit.
+//
+// Re-creating something (undoing a delete, redoing a create) gives it a new
+// id, so ids in the stacks are rewritten as they change, the same way the
+// outbox swaps temporary ids for server ones.
+
+export type HistoryEntry = {
+  id: string;
+  label: string;
+  forward: Mutation[];
+  inverse: Mutation[];
+};
+
+export type BoardHistory = {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+};
+
+export const EMPTY_HISTORY: BoardHistory = { undo: [], redo: [] };
+
+const HISTORY_LIMIT = 50;
+
+function cardTitle(state: BoardState, cardId: string) {
+  return state.cardsById[cardId]?.title || t("card.untitled");
+}
+
+function columnTitle(state: BoardState, columnId: string) {
+  return state.columns.find((c) => c.id === columnId)?.title ?? columnId;
+}
+
+function labelName(state: BoardState, labelId: string) {
+  return (state.labels || []).find((l) => l.id === labelId)?.name ?? labelId;
+}
+
+// Mutations that undo `m` applied to `before`. Null when `m` can't be undone
+// (sprint changes, deleted labels) or refers to something that is already gone.
+export function inverseOf(m: Mutation, before: BoardState): Mutation[] | null {
+  switch (m.kind) {
+    case "add_column":
+      return [
+        { kind: "delete_column", columnId: m.columnId, mode: "delete_cards" },
+      ];
+
+    case "rename_column": {
+      const col = before.columns.find((c) => c.id === m.columnId);
+      if (!col) return null;
+      return [
+        { kind: "rename_column", columnId: m.columnId, title: col.title },
+      ];
+    }
+
+    case "set_column_limit": {
+      const col = before.columns.find((c) => c.id === m.columnId);
+      if (!col) return null;
+      return [
+        {
+          kind: "set_column_limit",
+          columnId: m.columnId,
+          wipLimit: col.wipLimit ?? null,
+        },
+      ];
+    }
+
+    case "move_column": {
+      const ordered = sortedColumns(before.columns).map((c) => c.id);
+      const back = moveColumnMutation(ordered, m.columnId);
+      return back ? [back] : null;
+    }
+
+    case "delete_column": {
+      const col = before.columns.find((c) => c.id === m.columnId);
+      if (!col) return null;
+      // Re-created under the old ids (swapped for fresh ones on replay, see
+      // withFreshIds), then moved back to where it was.
+      const columnId = m.columnId;
+      const ordered = sortedColumns(before.columns).map((c) => c.id);
+      const out: Mutation[] = [
+        { kind: "add_column", columnId, title: col.title },
+        moveColumnMutation(ordered, columnId)!,
+      ];
+      let prev: string | null = null;
+      for (const id of before.columnCardIds[m.columnId] || []) {
+        const c = before.cardsById[id];
+        if (!c) continue;
+        if (m.mode === "move_cards") {
+          out.push({
+            kind: "move_card",
+            cardId: id,
+            toColumnId: columnId,
+            beforeCardId: prev,
+            afterCardId: null,
+          });
+        } else {
+          out.push({
+            kind: "create_card",
+            cardId: id,
+            columnId,
+            data: cardInput(c),
+          });
+        }
+        prev = id;
+      }
+      return out;
+    }
+
+    case "create_card":
+      return [{ kind: "delete_card", cardId: m.cardId }];
+
+    case "update_card": {
+      const cur = before.cardsById[m.cardId];
+      if (!cur) return null;
+      const patch = Object.fromEntries(
+        Object.keys(m.patch).map((k) => [
+          k,
+          cur[k as keyof typeof m.patch] ?? null,
+        ])
+      );
+      return [{ kind: "update_card", cardId: m.cardId, patch }];
+    }
+
+    case "delete_card": {
+      const c = before.cardsById[m.cardId];
+      const place = moveMutationFromSnapshot(before, m.cardId);
+      if (!c || !place) return null;
+      return [
+        {
+          kind: "create_card",
+          cardId: c.id,
+          columnId: c.columnId,
+          data: cardInput(c),
+        },
+        place,
+      ];
+    }
+
+    case "move_card": {
+      if (!findContainerOf(m.cardId, before.columnCardIds, before.columns)) {
+        return null;
+      }
+      const back = moveMutationFromSnapshot(before, m.cardId);
+      return back ? [back] : null;
+    }
+
+    case "move_cards": {
+      // each card back next to its old neighbours, top to bottom so the
+      // neighbour a card refers to is already back in place
+      const out = inBoardOrder(before, m.cardIds).flatMap(
+        (id) => moveMutationFromSnapshot(before, id) ?? []
+      );
+      return out.length > 0 ? out : null;
+    }
+
+    case "rank_card": {
+      if (!before.cardsById[m.cardId]) return null;
+      const back = rankMutation(backlogOrder(before), m.cardId);
+      return back ? [back] : null;
+    }
+
+    case "create_label":
+      return [{ kind: "delete_label", labelId: m.labelId }];
+
+    case "update_label": {
+      const label = (before.labels || []).find((l) => l.id === m.labelId);
+      if (!label) return null;
+      const patch = Object.fromEntries(
+        Object.keys(m.patch).map((k) => [k, label[k as keyof typeof m.patch]])
+      );
+      return [{ kind: "update_label", labelId: m.labelId, patch }];
+    }
+
+    default:
+      return null;
+  }
+}
+
+// Inverse of several edits made in one go (e.g. an import), undone last to
+// first. Null when any of them can't be undone.
+export function inverseOfAll(
+  mutations: Mutation[],
+  before: BoardState
+): Mutation[] | null {
+  const out: Mutation[][] = [];
+  let state = before;
+  for (const m of mutations) {
+    const inverse = inverseOf(m, state);
+    if (!inverse) return null;
+    out.unshift(inverse);
+    state = applyMutation(state, m);
+  }
+  return out.flat();
+}
+
+// short description for the undo toast
+export function describeEdit(m: Mutation, before: BoardState) {
+  switch (m.kind) {
+    case "add_column":
+      return t("history.addColumn", { column: m.title });
+    case "rename_column":
+      return t("history.renameColumn", {
+        column: columnTitle(before, m.columnId),
+      });
+    case "set_column_limit":
+      return t("history.columnLimit", {
+        column: columnTitle(before, m.columnId),
+      });
+    case "move_column":
+      return t("history.moveColumn", {
+        column: columnTitle(before, m.columnId),
+      });
+    case "delete_column":
+      return t("history.deleteColumn", {
+        column: columnTitle(before, m.columnId),
+      });
+    case "create_card":
+      return t("history.createCard", {
+        card: m.data.title || t("card.untitled"),
+      });
+    case "update_card":
+      return t("history.editCard", { card: cardTitle(before, m.cardId) });
+    case "delete_card":
+      return t("history.deleteCard", { card: cardTitle(before, m.cardId) });
+    case "move_card":
+      return t("history.moveCard", { card: cardTitle(before, m.cardId) });
+    case "move_cards":
+      return t("history.moveCards", {
+        count: m.cardIds.length,
+        column: columnTitle(before, m.toColumnId),
+      });
+    case "rank_card":
+      return t("history.rankCard", { card: cardTitle(before, m.cardId) });
+    case "create_label":
+      return t("history.addLabel", { label: m.data.name });
+    case "update_label":
+      return t("history.editLabel", { label: labelName(before, m.labelId) });
+    default:
+      return t("history.other");
+  }
+}
+
+export function recordEdit(
+  history: BoardHistory,
+  entry: HistoryEntry
+): BoardHistory {
+  // a new edit ends the redo chain
+  return { undo: [...history.undo, entry].slice(-HISTORY_LIMIT), redo: [] };
+}
+
+export function remapHistory(
+  history: BoardHistory,
+  from: string,
+  to: string
+): BoardHistory {
+  const remap = (e: HistoryEntry): HistoryEntry => ({
+    ...e,
+    forward: e.forward.map((m) => remapMutation(m, from, to)),
+    inverse: e.inverse.map((m) => remapMutation(m, from, to)),
+  });
+  return { undo: history.undo.map(remap), redo: history.redo.map(remap) };
+}
+
+// Gives everything the mutations create a fresh temporary id so a replay
+// never reuses an id the server has already issued. Returns the id swaps so
+// the caller can apply them to the history as well.
+export function withFreshIds(mutations: Mutation[]) {
+  const swaps: [string, string][] = [];
+  let out = mutations;
+  for (let i = 0; i < out.length; i++) {
+    const m = out[i];
+    const old =
+      m.kind === "create_card"
+        ? m.cardId
+        : m.kind === "add_column"
+          ? m.columnId
+          : m.kind === "create_label"
+            ? m.labelId
+            : null;
+    if (!old) continue;
+    const next = tempId();
+    swaps.push([old, next]);
+    out = out.map((x) => remapMutation(x, old, next));
+  }
+  return { mutations: out, swaps };
+}
@@ -0,0 +1,1217 @@
+import { useEffect, useState } from "react";
+
+// UI language. Messages live in one catalog per locale, keyed by dotted ids;
+// `en` is the reference and every other locale must translate all of its
+// keys. {name} in a message is filled from the params, and a message with
+// one/other forms is picked by params.count. Dates and numbers go through
+// Intl in the current locale. Lib modules that word things for the UI
+// (history labels, conflict fields, activity, lanes) call t() themselves, so
+// their text follows the locale of the render that asks for it.
+
+export type Locale = "en" | "th";
+
+export const LOCALES: Locale[] = ["en", "th"];
+
+// each in its own language, for the switcher
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  th: "ไทย",
+};
+
+const INTL_LOCALES: Record<Locale, string> = {
+  en: "en",
+  th: "th-TH",
+};
+
+const STORAGE_LOCALE = "sb_locale";
+const LOCALE_EVENT = "sb:locale";
+
+type Message = string | { one: string; other: string };
+
+const en = {
+  // ---------- App ----------
+  "app.title": "Sprint Board",
+  "app.localMode": "Local mode (this browser)",
+  "app.apiMode": "API mode (Fastify + MongoDB)",
+  "app.loading": "Loading...",
+  "app.retry": "Retry",
+  "app.loadFailed":
+    "Failed to load board (check API_BASE / backend / Mongo has this boardId)",
+  "app.notFoundHint":
+    "“Board not found” means the backend/Mongo has no board with this id yet.",
+  "app.language": "Language",
+  "app.source": "Where the board is stored",
+  "app.source.rest": "API",
+  "app.source.local": "Local (browser)",
+  "app.apiBase": "API base:",
+  "app.account": "Account:",
+  "app.boardId": "Board id:",
+  "app.newBoardName": "Sprint Board",
+  "app.localBoardName": "Local Board",
+  "app.localMember": "Me",
+  "app.timedOut": "Request timed out",
+  "app.aborted": "Request aborted",
+  "app.networkError": "Network error",
+
+  // ---------- Header ----------
+  "header.board": "Board:",
+  "header.syncing": " · syncing...",
+  "header.offline": " · offline",
+  "header.live": "live",
+  "header.connecting": "connecting…",
+  "header.reconnecting": "reconnecting…",
+  "header.pending": "{count} pending",
+  "header.conflict": "conflict",
+  "header.failed": "{count} failed",
+  "header.discard": "Discard",
+  "header.discardTitle": "Drop the failed changes and show the server copy",
+  "header.undo": "Undo",
+  "header.undoTitle": "Undo (Ctrl+Z)",
+  "header.redo": "Redo",
+  "header.redoTitle": "Redo (Ctrl+Shift+Z)",
+  "header.addSprint": "+ Sprint",
+  "header.labels": "Labels",
+  "header.addColumn": "+ Column",
+  "header.views": "View",
+  "header.refresh": "Refresh",
+  "header.palette": "Command palette (Ctrl+K)",
+  "header.offlineAlert":
+    "Backend unreachable. Changes are saved locally and will sync when it is back.",
+  "header.rejected": "Rejected by server",
+
+  "view.board": "Board",
+  "view.backlog": "Backlog",
+  "view.reports": "Reports",
+
+  "lanes.title": "Split the board into rows",
+  "lanes.none": "No swimlanes",
+  "lanes.assignee": "Lanes: assignee",
+  "lanes.priority": "Lanes: priority",
+  "lanes.epic": "Lanes: epic",
+  "lanes.cards": { one: "{count} card", other: "{count} cards" },
+
+  // ---------- Edits (undo toast) ----------
+  "edit.undone": "Undone: {label}",
+  "edit.redone": "Redone: {label}",
+  "edit.imported": {
+    one: "Imported {count} card",
+    other: "Imported {count} cards",
+  },
+  "edit.setPoints": "Set {count} card(s) to {points} pt",
+  "edit.addedLabel": "Added label “{label}” to {count} card(s)",
+  "edit.deleted": "Deleted {count} card(s)",
+  "toast.dismiss": "Dismiss",
+
+  // ---------- Confirms ----------
+  "confirm.overLimit":
+    "Column “{column}” would go over its WIP limit. Move anyway?",
+  "confirm.atLimit":
+    "Column “{column}” is at its WIP limit ({limit}). Move anyway?",
+  "confirm.deleteCards": "Delete {count} card(s)?",
+  "confirm.deleteCard": "Delete “{title}”?",
+  "confirm.deleteColumnMove":
+    "Delete column “{column}”? Its cards will be moved to the first column.",
+  "confirm.deleteColumnCards": "Delete column “{column}” AND all cards in it?",
+  "confirm.deleteLabel":
+    "Delete label “{label}”? It is removed from all cards.",
+  "confirm.archiveBoard": "Archive board “{board}”?",
+
+  // ---------- Columns ----------
+  "column.drag": "Drag column",
+  "column.move": "Move column {column}",
+  "column.focusHint": "Arrows move between cards, N adds a card",
+  "column.wip": "WIP limit",
+  "column.wipHard": "WIP limit (hard)",
+  "column.add": "+ Add",
+  "column.menu": "Column menu",
+  "column.menuFor": "{column} column menu",
+  "column.rename": "Rename",
+  "column.limit": "WIP limit…",
+  "column.deleteMove": "Delete (move cards)",
+  "column.deleteCards": "Delete + cards",
+  "column.lastColumn": "Cannot delete the last column",
+  "column.noMatches": "No matching cards",
+  "column.dropHere": "Drop cards here",
+  "column.cardsLimit": "{count}/{limit} cards",
+
+  // ---------- Cards ----------
+  "card.untitled": "(Untitled)",
+  "card.open": "Open card details",
+  "card.checklist": "Checklist",
+  "card.points": "{points} pt",
+  "card.pending": "Pending sync",
+  "card.failed": "Sync failed",
+  "card.conflict": "Conflict",
+  "card.noDescription": "No description",
+  "card.overdue": "Overdue",
+  "card.due": "Due date",
+  "card.edit": "Edit",
+  "card.delete": "Delete",
+  "card.drag": "Drag",
+  "card.move": "Move card {title}",
+  "card.more": "+{count} more",
+
+  // ---------- Dialogs ----------
+  "dialog.cancel": "Cancel",
+  "dialog.save": "Save",
+  "dialog.create": "Create",
+  "dialog.none": "None",
+  "dialog.close": "Close",
+
+  "cardModal.create": "Create Card",
+  "cardModal.edit": "Edit Card",
+  "cardModal.title": "Title",
+  "cardModal.description": "Description",
+  "cardModal.write": "Write",
+  "cardModal.preview": "Preview",
+  "cardModal.nothing": "Nothing to preview",
+  "cardModal.markdown": "Markdown: **bold**, `code`, - [ ] task",
+  "cardModal.points": "Points",
+  "cardModal.sprint": "Sprint",
+  "cardModal.dueDate": "Due date",
+  "cardModal.priority": "Priority",
+  "cardModal.epic": "Epic",
+  "cardModal.assignees": "Assignees",
+  "cardModal.labels": "Labels",
+
+  "conflict.title": "Edit conflict",
+  "conflict.deleted": "{subject} was deleted by someone else.",
+  "conflict.changed": "{subject} was changed by someone else (now v{version}).",
+  "conflict.yours": "Yours",
+  "conflict.theirs": "Theirs",
+  "conflict.takeTheirs": "Take theirs",
+  "conflict.merge": "Merge selected",
+  "conflict.keepMine": "Keep mine",
+
+  "limit.title": "WIP limit · {column}",
+  "limit.cards": "Max cards",
+  "limit.points": "Max points (optional)",
+  "limit.none": "No limit",
+  "limit.hard": "Hard limit: ask before dropping cards past it",
+  "limit.remove": "Remove limit",
+
+  "moveModal.title": "Move “{title}”",
+  "moveModal.column": "To column",
+  "moveModal.current": " (current)",
+  "moveModal.move": "Move",
+
+  "columnModal.create": "Create Column",
+  "columnModal.rename": "Rename Column",
+  "columnModal.name": "Column name",
+
+  // ---------- Command palette ----------
+  "palette.title": "Command palette",
+  "palette.placeholder": "Type a command or card title…",
+  "palette.empty": "No matches",
+  "palette.card": "Card · ",
+  "palette.newCard": "New card in {column}",
+  "palette.newColumn": "New column",
+  "palette.newSprint": "New sprint",
+  "palette.labels": "Manage labels",
+  "palette.startSprint": "Start sprint {sprint}",
+  "palette.completeSprint": "Complete sprint {sprint}",
+  "palette.goTo": "Go to {view}",
+  "palette.showAll": "Show all cards",
+  "palette.showBacklog": "Show backlog cards",
+  "palette.showSprint": "Show sprint {sprint}",
+  "palette.clearFilters": "Clear filters",
+  "palette.clearSelection": "Clear selection",
+  "palette.exportJson": "Export JSON",
+  "palette.exportCsv": "Export CSV",
+  "palette.import": "Import cards…",
+  "palette.refresh": "Refresh board",
+
+  // ---------- Drag and drop (screen readers) ----------
+  "drag.instructions":
+    "To pick up, press Space or Enter. Use the arrow keys to move, Space or Enter to drop, and Escape to cancel.",
+  "drag.untitled": "Untitled",
+  "drag.aColumn": "a column",
+  "drag.spot": "{column}, position {position} of {count}",
+  "drag.position": "position {position} of {count}",
+  "drag.group": "{card} and {count} more selected card(s)",
+  "drag.pickColumn": "Picked up column {column}.",
+  "drag.pick": "Picked up {card} in {spot}.",
+  "drag.columnOver": "Column is over {spot}.",
+  "drag.notOver": "{card} is no longer over a column.",
+  "drag.over": "{card} is over {spot}.",
+  "drag.columnMoved": "Moved column {column} to {spot}.",
+  "drag.columnDropped": "Column {column} dropped.",
+  "drag.outside": "{card} dropped outside the board; not moved.",
+  "drag.moved": "Moved {card} to {spot}.",
+  "drag.column": "column {column}",
+  "drag.cancel": "Moving {name} was cancelled.",
+
+  // ---------- Selection ----------
+  "bulk.toolbar": "Selected cards",
+  "bulk.count": {
+    one: "{count} card selected",
+    other: "{count} cards selected",
+  },
+  "bulk.moveTo": "Move to column",
+  "bulk.movePlaceholder": "Move to…",
+  "bulk.points": "Points",
+  "bulk.setPoints": "Set points",
+  "bulk.addLabel": "Add label",
+  "bulk.labelPlaceholder": "Add label…",
+  "bulk.delete": "Delete",
+  "bulk.clear": "Clear",
+  "bulk.clearTitle": "Clear selection (Esc)",
+
+  // ---------- Sprints ----------
+  "sprint.planned": "Planned",
+  "sprint.active": "Active",
+  "sprint.closed": "Closed",
+  "sprint.activeSuffix": " (active)",
+  "sprint.daysOver": { one: "{count} day over", other: "{count} days over" },
+  "sprint.lastDay": "last day",
+  "sprint.daysLeft": { one: "{count} day left", other: "{count} days left" },
+  "sprint.show": "Cards shown on the board",
+  "sprint.all": "All cards",
+  "sprint.backlog": "Backlog",
+  "sprint.pointsDone": "{done}/{total} pt done",
+  "sprint.edit": "Edit",
+  "sprint.start": "Start sprint",
+  "sprint.otherActive": "Another sprint is already active",
+  "sprint.complete": "Complete sprint",
+  "sprint.createTitle": "Create Sprint",
+  "sprint.editTitle": "Edit Sprint",
+  "sprint.name": "Name",
+  "sprint.goal": "Goal",
+  "sprint.startDate": "Start",
+  "sprint.endDate": "End",
+  "sprint.completeTitle": "Complete {sprint}",
+  "sprint.allDone": "All cards in this sprint are done.",
+  "sprint.unfinished": {
+    one: "{count} unfinished card ({points} pt).",
+    other: "{count} unfinished cards ({points} pt).",
+  },
+  "sprint.moveTo": "Move unfinished cards to",
+
+  // ---------- Backlog ----------
+  "backlog.title": "Backlog",
+  "backlog.showDone": "Show done",
+  "backlog.empty": "Nothing in the backlog.",
+  "backlog.dragRank": "Drag to rank",
+  "backlog.rankCard": "Rank {title}",
+  "backlog.addTo": "Add to {sprint}",
+  "backlog.toSprint": "→ Sprint",
+  "backlog.rank": "rank {rank} of {count}",
+  "backlog.pick": "Picked up {card} at {rank}.",
+  "backlog.over": "{card} is at {rank}.",
+  "backlog.notOver": "{card} is no longer over the list.",
+  "backlog.ranked": "Ranked {card} {rank}.",
+  "backlog.unchanged": "{card} dropped; rank unchanged.",
+  "backlog.cancel": "Ranking {card} was cancelled.",
+  "plan.title": "Sprint planning",
+  "plan.noSprint":
+    "No open sprint. Create one with “+ Sprint” to plan it here.",
+  "plan.pick": "Sprint to plan",
+  "plan.committed": "{points} pt committed",
+  "plan.of": " of {capacity} pt",
+  "plan.over": "{points} pt over capacity",
+  "plan.noCards": "No cards yet. Use “→ Sprint” on a backlog card to add it.",
+  "plan.remove": "Remove",
+  "plan.removeTitle": "Back to the backlog",
+  "plan.capacity": "Capacity (points)",
+  "plan.notSet": "Not set",
+
+  // ---------- Card details ----------
+  "drawer.label": "Card details",
+  "drawer.gone": "This card no longer exists.",
+  "drawer.description": "Description",
+  "drawer.pending": "Comments and history show up once the card is saved.",
+  "drawer.comments": "Comments",
+  "drawer.loading": "Loading…",
+  "drawer.writeComment": "Write a comment",
+  "drawer.activity": "Activity",
+  "drawer.someone": "Someone",
+  "drawer.created": "Created {time}",
+  "drawer.updated": "Last updated {time}",
+  "drawer.column": "Column",
+  "drawer.points": "Points",
+  "drawer.sprint": "Sprint",
+  "drawer.priority": "Priority",
+  "drawer.due": "Due",
+  "drawer.overdue": " (overdue)",
+  "drawer.epic": "Epic",
+  "drawer.assignees": "Assignees",
+  "drawer.labels": "Labels",
+  "drawer.noComments": "No comments yet.",
+  "drawer.reply": "Reply",
+  "drawer.writeReply": "Write a reply",
+  "drawer.sendFailed": "Failed to send",
+  "drawer.sending": "Sending…",
+  "drawer.comment": "Comment",
+
+  // ---------- Account ----------
+  "user.localMode": "Local mode",
+  "user.menu": "Account menu for {name}",
+  "user.account": "Account:",
+  "user.settings": "Settings",
+  "user.signOut": "Sign out",
+
+  // ---------- Settings ----------
+  "settings.title": "Environment",
+  "settings.intro":
+    "Pick the backend this browser works against. A changed API base is saved here, no rebuild needed.",
+  "settings.profiles": "Environment profiles",
+  "settings.current": "in use",
+  "settings.sameOrigin": "Same origin as the app",
+  "settings.apiBase": "API base for {profile}",
+  "settings.check": "Check",
+  "settings.checking": "Checking…",
+  "settings.healthy": "Reachable ({ms} ms)",
+  "settings.unhealthy": "Not reachable: {error}",
+  "settings.timedOut": "Timed out",
+  "settings.unreachable": "Unreachable",
+  "settings.reset": "Reset to default",
+  "settings.signOutNote":
+    "Switching backends signs you out; sign in again on the new one.",
+  "settings.back": "Back",
+  "settings.save": "Save and reload",
+  "settings.open": "Environment settings",
+
+  // ---------- Reports ----------
+  "reports.byColumn": "Points by column",
+  "reports.column": "Column",
+  "reports.cards": "Cards",
+  "reports.points": "Points",
+  "reports.total": "Total",
+  "reports.burndown": "Burndown",
+  "reports.pickSprint": "Sprint",
+  "reports.remaining": "Remaining",
+  "reports.ideal": "Ideal",
+  "reports.noBurndown": "Start a sprint to see its burndown.",
+  "reports.velocity": "Velocity",
+  "reports.average": "Average of last {count}: {points} pt",
+  "reports.committed": "Committed",
+  "reports.completed": "Completed",
+  "chart.noDays": "Sprint has no days.",
+  "chart.burndown": "Sprint burndown",
+  "chart.remaining": "{date}: {points} pt remaining",
+  "chart.noVelocity": "No completed sprints yet.",
+  "chart.velocity": "Velocity per sprint",
+  "chart.committed": "{sprint}: {points} pt committed",
+  "chart.completed": "{sprint}: {points} pt completed",
+
+  // ---------- Search ----------
+  "search.placeholder": "Search cards",
+  "search.minPoints": "min pt",
+  "search.minPointsLabel": "Minimum points",
+  "search.maxPoints": "max pt",
+  "search.maxPointsLabel": "Maximum points",
+  "search.assignee": "Assignee",
+  "search.anyone": "Anyone",
+  "search.label": "Label",
+  "search.anyLabel": "Any label",
+  "search.shown": "{shown} of {total}",
+  "search.clear": "Clear",
+
+  // ---------- Sign-in ----------
+  "login.title": "Sign in to Sprint Board",
+  "login.change": "Change",
+  "login.username": "Username",
+  "login.password": "Password",
+  "login.signIn": "Sign in",
+  "login.signingIn": "Signing in...",
+  "login.sso": "Sign in with SSO",
+  "login.offline": "Work offline on a local board instead",
+  "login.failed": "Sign-in failed",
+  "login.ssoFailed": "Single sign-on failed",
+  "login.ssoNotConfigured": "Single sign-on is not configured",
+  "login.ssoMismatch": "Sign-in response does not match the request",
+  "login.discoveryFailed": "OIDC discovery failed (HTTP {status})",
+  "login.back": "Back to sign-in",
+
+  // ---------- History (undo labels) ----------
+  "history.addColumn": "Added column “{column}”",
+  "history.renameColumn": "Renamed column “{column}”",
+  "history.columnLimit": "Changed WIP limit of “{column}”",
+  "history.moveColumn": "Moved column “{column}”",
+  "history.deleteColumn": "Deleted column “{column}”",
+  "history.createCard": "Created card “{card}”",
+  "history.editCard": "Edited card “{card}”",
+  "history.deleteCard": "Deleted card “{card}”",
+  "history.moveCard": "Moved card “{card}”",
+  "history.moveCards": {
+    one: "Moved {count} card to “{column}”",
+    other: "Moved {count} cards to “{column}”",
+  },
+  "history.rankCard": "Ranked card “{card}”",
+  "history.addLabel": "Added label “{label}”",
+  "history.editLabel": "Edited label “{label}”",
+  "history.other": "Changed board",
+
+  // ---------- Card fields ----------
+  "field.title": "Title",
+  "field.description": "Description",
+  "field.points": "Points",
+  "field.sprintId": "Sprint",
+  "field.assigneeIds": "Assignees",
+  "field.labelIds": "Labels",
+  "field.dueDate": "Due date",
+  "field.priority": "Priority",
+  "field.epicId": "Epic",
+  "priority.low": "Low",
+  "priority.medium": "Medium",
+  "priority.high": "High",
+  "priority.urgent": "Urgent",
+
+  // ---------- Conflict details ----------
+  "conflict.card": "Card “{title}”",
+  "conflict.column": "Column “{title}”",
+  "conflict.cards": { one: "{count} card", other: "{count} cards" },
+  "conflict.sprint": "Sprint “{name}”",
+  "conflict.label": "Label “{name}”",
+  "conflict.newCard": "New card “{title}”",
+  "conflict.newColumn": "New column “{title}”",
+  "conflict.newSprint": "New sprint “{name}”",
+  "conflict.newLabel": "New label “{name}”",
+  "conflict.wipLimit": "WIP limit",
+  "conflict.position": "Position",
+  "conflict.columnField": "Column",
+  "conflict.rank": "Backlog rank",
+  "conflict.cardsField": "Cards",
+  "conflict.state": "State",
+  "conflict.name": "Name",
+  "conflict.deletedValue": "(deleted)",
+  "conflict.limitCards": { one: "{count} card", other: "{count} cards" },
+  "conflict.hard": "{limit} (hard)",
+
+  // ---------- Card activity ----------
+  "activity.created": "created the card in “{column}”",
+  "activity.moved": "moved it from “{from}” to “{to}”",
+  "activity.updated": "changed {changes}",
+  "activity.commented": "commented",
+  "activity.change": "{field} {from} → {to}",
+  "activity.deletedColumn": "(deleted)",
+  "activity.sprint": "(sprint)",
+  "activity.card": "(card)",
+
+  // ---------- Labels ----------
+  "labels.title": "Labels",
+  "labels.none": "No labels yet.",
+  "labels.name": "Label name",
+  "labels.delete": "Delete",
+  "labels.new": "New label",
+  "labels.newName": "New label name",
+  "labels.add": "Add",
+  "labels.done": "Done",
+
+  // ---------- Board list ----------
+  "boards.title": "Boards",
+  "boards.new": "+ New",
+  "boards.name": "Board name",
+  "boards.restore": "Restore",
+  "boards.rename": "Rename",
+  "boards.archive": "Archive",
+  "boards.noArchived": "No archived boards",
+  "boards.none": "No boards yet",
+  "boards.showArchived": "Show archived",
+  "boards.loadFailed": "Failed to load boards",
+  "boards.createFailed": "Create board failed",
+  "boards.renameFailed": "Rename board failed",
+  "boards.archiveFailed": "Archive board failed",
+
+  // ---------- Swimlanes ----------
+  "lanes.unassigned": "Unassigned",
+  "lanes.noPriority": "No priority",
+  "lanes.noEpic": "No epic",
+
+  // ---------- Import / export ----------
+  "transfer.menu": "Import / export",
+  "transfer.data": "Data",
+  "transfer.exportJson": "Export JSON (backup)",
+  "transfer.exportCsv": "Export CSV",
+  "transfer.import": "Import…",
+  "transfer.title": "Import cards",
+  "transfer.intro":
+    "A JSON backup exported from a board, or a CSV spreadsheet with one row per card. Cards are added to this board; columns are matched by title and created when missing.",
+  "transfer.file": "File",
+  "transfer.readFailed": "Could not read file.",
+  "transfer.cancel": "Cancel",
+  "transfer.back": "Back",
+  "transfer.preview": "Preview",
+  "transfer.importCards": {
+    one: "Import {count} card",
+    other: "Import {count} cards",
+  },
+  "transfer.sheetColumn": "Column {index}",
+  "transfer.hasHeader": "First row is a header",
+  "transfer.allInto": "(all into “{column}”)",
+  "transfer.notImported": "(not imported)",
+  "transfer.column": "Column",
+  "transfer.cards": "Cards",
+  "transfer.new": "new",
+  "transfer.more": "and {count} more",
+  "transfer.sprints": "Sprints: {names}",
+  "transfer.labels": "Labels: {names}",
+  "transfer.fieldColumn": "Column",
+  "transfer.fieldTitle": "Title",
+  "transfer.fieldDescription": "Description",
+  "transfer.fieldPoints": "Points",
+  "transfer.fieldSprint": "Sprint",
+  "transfer.fieldLabels": "Labels (separated by ;)",
+  "transfer.fieldDue": "Due date",
+  "transfer.fieldPriority": "Priority",
+  "transfer.defaultColumn": "To Do",
+  "transfer.empty": "The file is empty.",
+  "transfer.badJson": "The file is not valid JSON.",
+  "transfer.notExport": "This is not a sprint board export.",
+  "transfer.badVersion":
+    "Export version {version} is not supported (up to {max}).",
+  "transfer.noBoard": "The export is missing columns or cards.",
+  "transfer.noTitleColumn": "Pick the spreadsheet column that holds the title.",
+  "transfer.skippedColumns": {
+    one: "{count} column without id/title skipped",
+    other: "{count} columns without id/title skipped",
+  },
+  "transfer.skippedCard": "Card {id} in “{column}” skipped",
+  "transfer.rowNoTitle": "Row {row}: no title, skipped",
+  "transfer.rowPoints": "Row {row}: points “{value}” read as 0",
+  "transfer.rowDue": "Row {row}: due date “{value}” is not YYYY-MM-DD",
+  "transfer.rowPriority": "Row {row}: unknown priority “{value}”",
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
+
+const th: Record<MessageKey, Message> = {
+  // ---------- App ----------
+  "app.title": "Sprint Board",
+  "app.localMode": "โหมดในเครื่อง (เบราว์เซอร์นี้)",
+  "app.apiMode": "โหมด API (Fastify + MongoDB)",
+  "app.loading": "กำลังโหลด...",
+  "app.retry": "ลองใหม่",
+  "app.loadFailed":
+    "โหลดบอร์ดไม่สำเร็จ (ตรวจสอบ API_BASE / backend / Mongo ว่ามี boardId นี้)",
+  "app.notFoundHint":
+    "ถ้าได้ “Board not found” แปลว่า backend/Mongo ยังไม่มีบอร์ด id นี้",
+  "app.language": "ภาษา",
+  "app.source": "ที่เก็บข้อมูลบอร์ด",
+  "app.source.rest": "API",
+  "app.source.local": "ในเครื่อง (เบราว์เซอร์)",
+  "app.apiBase": "ที่อยู่ API:",
+  "app.account": "บัญชี:",
+  "app.boardId": "รหัสบอร์ด:",
+  "app.newBoardName": "บอร์ดสปรินต์",
+  "app.localBoardName": "บอร์ดในเครื่อง",
+  "app.localMember": "ฉัน",
+  "app.timedOut": "คำขอหมดเวลา",
+  "app.aborted": "คำขอถูกยกเลิก",
+  "app.networkError": "เครือข่ายขัดข้อง",
+
+  // ---------- Header ----------
+  "header.board": "บอร์ด:",
+  "header.syncing": " · กำลังซิงก์...",
+  "header.offline": " · ออฟไลน์",
+  "header.live": "ออนไลน์",
+  "header.connecting": "กำลังเชื่อมต่อ…",
+  "header.reconnecting": "กำลังเชื่อมต่อใหม่…",
+  "header.pending": "รอซิงก์ {count}",
+  "header.conflict": "ข้อมูลขัดแย้ง",
+  "header.failed": "ล้มเหลว {count}",
+  "header.discard": "ทิ้ง",
+  "header.discardTitle": "ทิ้งการแก้ไขที่ล้มเหลวและแสดงข้อมูลจากเซิร์ฟเวอร์",
+  "header.undo": "เลิกทำ",
+  "header.undoTitle": "เลิกทำ (Ctrl+Z)",
+  "header.redo": "ทำซ้ำ",
+  "header.redoTitle": "ทำซ้ำ (Ctrl+Shift+Z)",
+  "header.addSprint": "+ สปรินต์",
+  "header.labels": "ป้ายกำกับ",
+  "header.addColumn": "+ คอลัมน์",
+  "header.views": "มุมมอง",
+  "header.refresh": "รีเฟรช",
+  "header.palette": "ชุดคำสั่ง (Ctrl+K)",
+  "header.offlineAlert":
+    "ติดต่อ backend ไม่ได้ การแก้ไขถูกบันทึกไว้ในเครื่องและจะซิงก์เมื่อกลับมาเชื่อมต่อได้",
+  "header.rejected": "เซิร์ฟเวอร์ปฏิเสธ",
+
+  "view.board": "บอร์ด",
+  "view.backlog": "แบ็กล็อก",
+  "view.reports": "รายงาน",
+
+  "lanes.title": "แบ่งบอร์ดเป็นแถว",
+  "lanes.none": "ไม่แบ่งแถว",
+  "lanes.assignee": "แถว: ผู้รับผิดชอบ",
+  "lanes.priority": "แถว: ความสำคัญ",
+  "lanes.epic": "แถว: อีพิก",
+  "lanes.cards": "{count} การ์ด",
+
+  // ---------- Edits (undo toast) ----------
+  "edit.undone": "เลิกทำแล้ว: {label}",
+  "edit.redone": "ทำซ้ำแล้ว: {label}",
+  "edit.imported": "นำเข้า {count} การ์ด",
+  "edit.setPoints": "ตั้งแต้ม {count} การ์ดเป็น {points} pt",
+  "edit.addedLabel": "เพิ่มป้าย “{label}” ให้ {count} การ์ด",
+  "edit.deleted": "ลบ {count} การ์ด",
+  "toast.dismiss": "ปิด",
+
+  // ---------- Confirms ----------
+  "confirm.overLimit":
+    "คอลัมน์ “{column}” จะเกินขีดจำกัด WIP ต้องการย้ายต่อหรือไม่?",
+  "confirm.atLimit":
+    "คอลัมน์ “{column}” ถึงขีดจำกัด WIP แล้ว ({limit}) ต้องการย้ายต่อหรือไม่?",
+  "confirm.deleteCards": "ลบ {count} การ์ดหรือไม่?",
+  "confirm.deleteCard": "ลบ “{title}” หรือไม่?",
+  "confirm.deleteColumnMove":
+    "ลบคอลัมน์ “{column}” หรือไม่? การ์ดในคอลัมน์จะถูกย้ายไปคอลัมน์แรก",
+  "confirm.deleteColumnCards":
+    "ลบคอลัมน์ “{column}” และการ์ดทั้งหมดในคอลัมน์หรือไม่?",
+  "confirm.deleteLabel": "ลบป้าย “{label}” หรือไม่? ป้ายจะถูกเอาออกจากทุกการ์ด",
+  "confirm.archiveBoard": "เก็บบอร์ด “{board}” เข้าคลังหรือไม่?",
+
+  // ---------- Columns ----------
+  "column.drag": "ลากคอลัมน์",
+  "column.move": "ย้ายคอลัมน์ {column}",
+  "column.focusHint": "ใช้ปุ่มลูกศรเลื่อนระหว่างการ์ด กด N เพื่อเพิ่มการ์ด",
+  "column.wip": "ขีดจำกัด WIP",
+  "column.wipHard": "ขีดจำกัด WIP (เข้มงวด)",
+  "column.add": "+ เพิ่ม",
+  "column.menu": "เมนูคอลัมน์",
+  "column.menuFor": "เมนูคอลัมน์ {column}",
+  "column.rename": "เปลี่ยนชื่อ",
+  "column.limit": "ขีดจำกัด WIP…",
+  "column.deleteMove": "ลบ (ย้ายการ์ด)",
+  "column.deleteCards": "ลบพร้อมการ์ด",
+  "column.lastColumn": "ลบคอลัมน์สุดท้ายไม่ได้",
+  "column.noMatches": "ไม่มีการ์ดที่ตรงกัน",
+  "column.dropHere": "วางการ์ดที่นี่",
+  "column.cardsLimit": "{count}/{limit} การ์ด",
+
+  // ---------- Cards ----------
+  "card.untitled": "(ไม่มีชื่อ)",
+  "card.open": "เปิดรายละเอียดการ์ด",
+  "card.checklist": "รายการตรวจสอบ",
+  "card.points": "{points} pt",
+  "card.pending": "รอซิงก์",
+  "card.failed": "ซิงก์ไม่สำเร็จ",
+  "card.conflict": "ข้อมูลขัดแย้ง",
+  "card.noDescription": "ไม่มีคำอธิบาย",
+  "card.overdue": "เลยกำหนด",
+  "card.due": "วันครบกำหนด",
+  "card.edit": "แก้ไข",
+  "card.delete": "ลบ",
+  "card.drag": "ลาก",
+  "card.move": "ย้ายการ์ด {title}",
+  "card.more": "+อีก {count}",
+
+  // ---------- Dialogs ----------
+  "dialog.cancel": "ยกเลิก",
+  "dialog.save": "บันทึก",
+  "dialog.create": "สร้าง",
+  "dialog.none": "ไม่มี",
+  "dialog.close": "ปิด",
+
+  "cardModal.create": "สร้างการ์ด",
+  "cardModal.edit": "แก้ไขการ์ด",
+  "cardModal.title": "ชื่อ",
+  "cardModal.description": "คำอธิบาย",
+  "cardModal.write": "เขียน",
+  "cardModal.preview": "ตัวอย่าง",
+  "cardModal.nothing": "ไม่มีอะไรให้แสดง",
+  "cardModal.markdown": "Markdown: **ตัวหนา**, `โค้ด`, - [ ] งาน",
+  "cardModal.points": "แต้ม",
+  "cardModal.sprint": "สปรินต์",
+  "cardModal.dueDate": "วันครบกำหนด",
+  "cardModal.priority": "ความสำคัญ",
+  "cardModal.epic": "อีพิก",
+  "cardModal.assignees": "ผู้รับผิดชอบ",
+  "cardModal.labels": "ป้ายกำกับ",
+
+  "conflict.title": "การแก้ไขขัดแย้งกัน",
+  "conflict.deleted": "{subject} ถูกคนอื่นลบไปแล้ว",
+  "conflict.changed": "{subject} ถูกคนอื่นแก้ไข (ตอนนี้เป็น v{version})",
+  "conflict.yours": "ของคุณ",
+  "conflict.theirs": "ของเขา",
+  "conflict.takeTheirs": "ใช้ของเขา",
+  "conflict.merge": "รวมที่เลือก",
+  "conflict.keepMine": "ใช้ของฉัน",
+
+  "limit.title": "ขีดจำกัด WIP · {column}",
+  "limit.cards": "จำนวนการ์ดสูงสุด",
+  "limit.points": "แต้มสูงสุด (ไม่บังคับ)",
+  "limit.none": "ไม่จำกัด",
+  "limit.hard": "จำกัดเข้มงวด: ถามก่อนวางการ์ดเกินขีดจำกัด",
+  "limit.remove": "เอาขีดจำกัดออก",
+
+  "moveModal.title": "ย้าย “{title}”",
+  "moveModal.column": "ไปยังคอลัมน์",
+  "moveModal.current": " (ปัจจุบัน)",
+  "moveModal.move": "ย้าย",
+
+  "columnModal.create": "สร้างคอลัมน์",
+  "columnModal.rename": "เปลี่ยนชื่อคอลัมน์",
+  "columnModal.name": "ชื่อคอลัมน์",
+
+  // ---------- Command palette ----------
+  "palette.title": "ชุดคำสั่ง",
+  "palette.placeholder": "พิมพ์คำสั่งหรือชื่อการ์ด…",
+  "palette.empty": "ไม่พบรายการ",
+  "palette.card": "การ์ด · ",
+  "palette.newCard": "การ์ดใหม่ใน {column}",
+  "palette.newColumn": "คอลัมน์ใหม่",
+  "palette.newSprint": "สปรินต์ใหม่",
+  "palette.labels": "จัดการป้ายกำกับ",
+  "palette.startSprint": "เริ่มสปรินต์ {sprint}",
+  "palette.completeSprint": "ปิดสปรินต์ {sprint}",
+  "palette.goTo": "ไปที่{view}",
+  "palette.showAll": "แสดงการ์ดทั้งหมด",
+  "palette.showBacklog": "แสดงการ์ดในแบ็กล็อก",
+  "palette.showSprint": "แสดงสปรินต์ {sprint}",
+  "palette.clearFilters": "ล้างตัวกรอง",
+  "palette.clearSelection": "ยกเลิกการเลือก",
+  "palette.exportJson": "ส่งออก JSON",
+  "palette.exportCsv": "ส่งออก CSV",
+  "palette.import": "นำเข้าการ์ด…",
+  "palette.refresh": "รีเฟรชบอร์ด",
+
+  // ---------- Drag and drop (screen readers) ----------
+  "drag.instructions":
+    "กด Space หรือ Enter เพื่อหยิบ ใช้ปุ่มลูกศรเพื่อย้าย กด Space หรือ Enter เพื่อวาง และ Escape เพื่อยกเลิก",
+  "drag.untitled": "ไม่มีชื่อ",
+  "drag.aColumn": "คอลัมน์หนึ่ง",
+  "drag.spot": "{column} ตำแหน่งที่ {position} จาก {count}",
+  "drag.position": "ตำแหน่งที่ {position} จาก {count}",
+  "drag.group": "{card} และการ์ดที่เลือกอีก {count} ใบ",
+  "drag.pickColumn": "หยิบคอลัมน์ {column}",
+  "drag.pick": "หยิบ {card} ใน {spot}",
+  "drag.columnOver": "คอลัมน์อยู่ที่{spot}",
+  "drag.notOver": "{card} ไม่ได้อยู่เหนือคอลัมน์ใดแล้ว",
+  "drag.over": "{card} อยู่เหนือ {spot}",
+  "drag.columnMoved": "ย้ายคอลัมน์ {column} ไป{spot}",
+  "drag.columnDropped": "วางคอลัมน์ {column} แล้ว",
+  "drag.outside": "วาง {card} นอกบอร์ด ไม่ได้ย้าย",
+  "drag.moved": "ย้าย {card} ไปที่ {spot}",
+  "drag.column": "คอลัมน์ {column}",
+  "drag.cancel": "ยกเลิกการย้าย {name}",
+
+  // ---------- Selection ----------
+  "bulk.toolbar": "การ์ดที่เลือก",
+  "bulk.count": "เลือก {count} การ์ด",
+  "bulk.moveTo": "ย้ายไปคอลัมน์",
+  "bulk.movePlaceholder": "ย้ายไป…",
+  "bulk.points": "แต้ม",
+  "bulk.setPoints": "ตั้งแต้ม",
+  "bulk.addLabel": "เพิ่มป้าย",
+  "bulk.labelPlaceholder": "เพิ่มป้าย…",
+  "bulk.delete": "ลบ",
+  "bulk.clear": "ล้าง",
+  "bulk.clearTitle": "ยกเลิกการเลือก (Esc)",
+
+  // ---------- Sprints ----------
+  "sprint.planned": "วางแผนแล้ว",
+  "sprint.active": "กำลังดำเนินการ",
+  "sprint.closed": "ปิดแล้ว",
+  "sprint.activeSuffix": " (กำลังดำเนินการ)",
+  "sprint.daysOver": "เกินมา {count} วัน",
+  "sprint.lastDay": "วันสุดท้าย",
+  "sprint.daysLeft": "เหลือ {count} วัน",
+  "sprint.show": "การ์ดที่แสดงบนบอร์ด",
+  "sprint.all": "การ์ดทั้งหมด",
+  "sprint.backlog": "แบ็กล็อก",
+  "sprint.pointsDone": "เสร็จ {done}/{total} pt",
+  "sprint.edit": "แก้ไข",
+  "sprint.start": "เริ่มสปรินต์",
+  "sprint.otherActive": "มีสปรินต์อื่นกำลังดำเนินการอยู่",
+  "sprint.complete": "ปิดสปรินต์",
+  "sprint.createTitle": "สร้างสปรินต์",
+  "sprint.editTitle": "แก้ไขสปรินต์",
+  "sprint.name": "ชื่อ",
+  "sprint.goal": "เป้าหมาย",
+  "sprint.startDate": "เริ่ม",
+  "sprint.endDate": "สิ้นสุด",
+  "sprint.completeTitle": "ปิด {sprint}",
+  "sprint.allDone": "การ์ดทั้งหมดในสปรินต์นี้เสร็จแล้ว",
+  "sprint.unfinished": "ยังไม่เสร็จ {count} การ์ด ({points} pt)",
+  "sprint.moveTo": "ย้ายการ์ดที่ยังไม่เสร็จไปที่",
+
+  // ---------- Backlog ----------
+  "backlog.title": "แบ็กล็อก",
+  "backlog.showDone": "แสดงที่เสร็จแล้ว",
+  "backlog.empty": "ไม่มีอะไรในแบ็กล็อก",
+  "backlog.dragRank": "ลากเพื่อจัดลำดับ",
+  "backlog.rankCard": "จัดลำดับ {title}",
+  "backlog.addTo": "เพิ่มเข้า {sprint}",
+  "backlog.toSprint": "→ สปรินต์",
+  "backlog.rank": "ลำดับที่ {rank} จาก {count}",
+  "backlog.pick": "หยิบ {card} ที่{rank}",
+  "backlog.over": "{card} อยู่ที่{rank}",
+  "backlog.notOver": "{card} ไม่ได้อยู่เหนือรายการแล้ว",
+  "backlog.ranked": "จัด {card} ไว้ที่{rank}",
+  "backlog.unchanged": "วาง {card} แล้ว ลำดับไม่เปลี่ยน",
+  "backlog.cancel": "ยกเลิกการจัดลำดับ {card}",
+  "plan.title": "วางแผนสปรินต์",
+  "plan.noSprint":
+    "ไม่มีสปรินต์ที่เปิดอยู่ สร้างด้วย “+ สปรินต์” เพื่อวางแผนที่นี่",
+  "plan.pick": "สปรินต์ที่จะวางแผน",
+  "plan.committed": "รับไว้ {points} pt",
+  "plan.of": " จาก {capacity} pt",
+  "plan.over": "เกินความจุ {points} pt",
+  "plan.noCards": "ยังไม่มีการ์ด ใช้ “→ สปรินต์” บนการ์ดในแบ็กล็อกเพื่อเพิ่ม",
+  "plan.remove": "เอาออก",
+  "plan.removeTitle": "กลับไปแบ็กล็อก",
+  "plan.capacity": "ความจุ (แต้ม)",
+  "plan.notSet": "ยังไม่ได้ตั้ง",
+
+  // ---------- Card details ----------
+  "drawer.label": "รายละเอียดการ์ด",
+  "drawer.gone": "การ์ดนี้ไม่มีอยู่แล้ว",
+  "drawer.description": "คำอธิบาย",
+  "drawer.pending": "ความคิดเห็นและประวัติจะแสดงเมื่อบันทึกการ์ดแล้ว",
+  "drawer.comments": "ความคิดเห็น",
+  "drawer.loading": "กำลังโหลด…",
+  "drawer.writeComment": "เขียนความคิดเห็น",
+  "drawer.activity": "กิจกรรม",
+  "drawer.someone": "มีคน",
+  "drawer.created": "สร้างเมื่อ {time}",
+  "drawer.updated": "แก้ไขล่าสุด {time}",
+  "drawer.column": "คอลัมน์",
+  "drawer.points": "แต้ม",
+  "drawer.sprint": "สปรินต์",
+  "drawer.priority": "ความสำคัญ",
+  "drawer.due": "ครบกำหนด",
+  "drawer.overdue": " (เลยกำหนด)",
+  "drawer.epic": "อีพิก",
+  "drawer.assignees": "ผู้รับผิดชอบ",
+  "drawer.labels": "ป้ายกำกับ",
+  "drawer.noComments": "ยังไม่มีความคิดเห็น",
+  "drawer.reply": "ตอบกลับ",
+  "drawer.writeReply": "เขียนคำตอบ",
+  "drawer.sendFailed": "ส่งไม่สำเร็จ",
+  "drawer.sending": "กำลังส่ง…",
+  "drawer.comment": "แสดงความคิดเห็น",
+
+  // ---------- Account ----------
+  "user.localMode": "โหมดในเครื่อง",
+  "user.menu": "เมนูบัญชีของ {name}",
+  "user.account": "บัญชี:",
+  "user.settings": "ตั้งค่า",
+  "user.signOut": "ออกจากระบบ",
+
+  // ---------- Settings ----------
+  "settings.title": "สภาพแวดล้อม",
+  "settings.intro":
+    "เลือก backend ที่เบราว์เซอร์นี้ใช้งาน API base ที่แก้ไขจะถูกบันทึกไว้ที่นี่ ไม่ต้อง build ใหม่",
+  "settings.profiles": "โปรไฟล์สภาพแวดล้อม",
+  "settings.current": "ใช้อยู่",
+  "settings.sameOrigin": "origin เดียวกับแอป",
+  "settings.apiBase": "API base ของ {profile}",
+  "settings.check": "ตรวจสอบ",
+  "settings.checking": "กำลังตรวจสอบ…",
+  "settings.healthy": "เชื่อมต่อได้ ({ms} ms)",
+  "settings.unhealthy": "เชื่อมต่อไม่ได้: {error}",
+  "settings.timedOut": "หมดเวลา",
+  "settings.unreachable": "ติดต่อไม่ได้",
+  "settings.reset": "คืนค่าเริ่มต้น",
+  "settings.signOutNote":
+    "การเปลี่ยน backend จะออกจากระบบ ต้องเข้าสู่ระบบใหม่ที่ backend ใหม่",
+  "settings.back": "กลับ",
+  "settings.save": "บันทึกและโหลดใหม่",
+  "settings.open": "ตั้งค่าสภาพแวดล้อม",
+
+  // ---------- Reports ----------
+  "reports.byColumn": "คะแนนตามคอลัมน์",
+  "reports.column": "คอลัมน์",
+  "reports.cards": "การ์ด",
+  "reports.points": "คะแนน",
+  "reports.total": "รวม",
+  "reports.burndown": "เบิร์นดาวน์",
+  "reports.pickSprint": "สปรินต์",
+  "reports.remaining": "คงเหลือ",
+  "reports.ideal": "เส้นอุดมคติ",
+  "reports.noBurndown": "เริ่มสปรินต์เพื่อดูเบิร์นดาวน์",
+  "reports.velocity": "ความเร็วทีม",
+  "reports.average": "เฉลี่ย {count} สปรินต์ล่าสุด: {points} pt",
+  "reports.committed": "รับปากไว้",
+  "reports.completed": "ทำเสร็จ",
+  "chart.noDays": "สปรินต์นี้ไม่มีวัน",
+  "chart.burndown": "เบิร์นดาวน์ของสปรินต์",
+  "chart.remaining": "{date}: เหลือ {points} pt",
+  "chart.noVelocity": "ยังไม่มีสปรินต์ที่เสร็จแล้ว",
+  "chart.velocity": "ความเร็วต่อสปรินต์",
+  "chart.committed": "{sprint}: รับปากไว้ {points} pt",
+  "chart.completed": "{sprint}: ทำเสร็จ {points} pt",
+
+  // ---------- Search ----------
+  "search.placeholder": "ค้นหาการ์ด",
+  "search.minPoints": "pt ขั้นต่ำ",
+  "search.minPointsLabel": "คะแนนขั้นต่ำ",
+  "search.maxPoints": "pt สูงสุด",
+  "search.maxPointsLabel": "คะแนนสูงสุด",
+  "search.assignee": "ผู้รับผิดชอบ",
+  "search.anyone": "ทุกคน",
+  "search.label": "ป้าย",
+  "search.anyLabel": "ทุกป้าย",
+  "search.shown": "{shown} จาก {total}",
+  "search.clear": "ล้าง",
+
+  // ---------- Sign-in ----------
+  "login.title": "เข้าสู่ระบบ Sprint Board",
+  "login.change": "เปลี่ยน",
+  "login.username": "ชื่อผู้ใช้",
+  "login.password": "รหัสผ่าน",
+  "login.signIn": "เข้าสู่ระบบ",
+  "login.signingIn": "กำลังเข้าสู่ระบบ...",
+  "login.sso": "เข้าสู่ระบบด้วย SSO",
+  "login.offline": "ใช้งานออฟไลน์บนบอร์ดในเครื่องแทน",
+  "login.failed": "เข้าสู่ระบบไม่สำเร็จ",
+  "login.ssoFailed": "เข้าสู่ระบบด้วย SSO ไม่สำเร็จ",
+  "login.ssoNotConfigured": "ยังไม่ได้ตั้งค่าการเข้าสู่ระบบด้วย SSO",
+  "login.ssoMismatch": "ข้อมูลตอบกลับการเข้าสู่ระบบไม่ตรงกับคำขอ",
+  "login.discoveryFailed": "ค้นหาการตั้งค่า OIDC ไม่สำเร็จ (HTTP {status})",
+  "login.back": "กลับไปหน้าเข้าสู่ระบบ",
+
+  // ---------- History (undo labels) ----------
+  "history.addColumn": "เพิ่มคอลัมน์ “{column}”",
+  "history.renameColumn": "เปลี่ยนชื่อคอลัมน์ “{column}”",
+  "history.columnLimit": "เปลี่ยนขีดจำกัด WIP ของ “{column}”",
+  "history.moveColumn": "ย้ายคอลัมน์ “{column}”",
+  "history.deleteColumn": "ลบคอลัมน์ “{column}”",
+  "history.createCard": "สร้างการ์ด “{card}”",
+  "history.editCard": "แก้ไขการ์ด “{card}”",
+  "history.deleteCard": "ลบการ์ด “{card}”",
+  "history.moveCard": "ย้ายการ์ด “{card}”",
+  "history.moveCards": {
+    one: "ย้าย {count} การ์ดไปที่ “{column}”",
+    other: "ย้าย {count} การ์ดไปที่ “{column}”",
+  },
+  "history.rankCard": "จัดลำดับการ์ด “{card}”",
+  "history.addLabel": "เพิ่มป้าย “{label}”",
+  "history.editLabel": "แก้ไขป้าย “{label}”",
+  "history.other": "เปลี่ยนแปลงบอร์ด",
+
+  // ---------- Card fields ----------
+  "field.title": "ชื่อ",
+  "field.description": "คำอธิบาย",
+  "field.points": "คะแนน",
+  "field.sprintId": "สปรินต์",
+  "field.assigneeIds": "ผู้รับผิดชอบ",
+  "field.labelIds": "ป้าย",
+  "field.dueDate": "วันครบกำหนด",
+  "field.priority": "ความสำคัญ",
+  "field.epicId": "เอพิก",
+  "priority.low": "ต่ำ",
+  "priority.medium": "ปานกลาง",
+  "priority.high": "สูง",
+  "priority.urgent": "เร่งด่วน",
+
+  // ---------- Conflict details ----------
+  "conflict.card": "การ์ด “{title}”",
+  "conflict.column": "คอลัมน์ “{title}”",
+  "conflict.cards": { one: "{count} การ์ด", other: "{count} การ์ด" },
+  "conflict.sprint": "สปรินต์ “{name}”",
+  "conflict.label": "ป้าย “{name}”",
+  "conflict.newCard": "การ์ดใหม่ “{title}”",
+  "conflict.newColumn": "คอลัมน์ใหม่ “{title}”",
+  "conflict.newSprint": "สปรินต์ใหม่ “{name}”",
+  "conflict.newLabel": "ป้ายใหม่ “{name}”",
+  "conflict.wipLimit": "ขีดจำกัด WIP",
+  "conflict.position": "ตำแหน่ง",
+  "conflict.columnField": "คอลัมน์",
+  "conflict.rank": "ลำดับในแบ็กล็อก",
+  "conflict.cardsField": "การ์ด",
+  "conflict.state": "สถานะ",
+  "conflict.name": "ชื่อ",
+  "conflict.deletedValue": "(ถูกลบ)",
+  "conflict.limitCards": { one: "{count} การ์ด", other: "{count} การ์ด" },
+  "conflict.hard": "{limit} (บังคับ)",
+
+  // ---------- Card activity ----------
+  "activity.created": "สร้างการ์ดใน “{column}”",
+  "activity.moved": "ย้ายจาก “{from}” ไป “{to}”",
+  "activity.updated": "เปลี่ยน {changes}",
+  "activity.commented": "แสดงความคิดเห็น",
+  "activity.change": "{field} {from} → {to}",
+  "activity.deletedColumn": "(ถูกลบ)",
+  "activity.sprint": "(สปรินต์)",
+  "activity.card": "(การ์ด)",
+
+  // ---------- Labels ----------
+  "labels.title": "ป้าย",
+  "labels.none": "ยังไม่มีป้าย",
+  "labels.name": "ชื่อป้าย",
+  "labels.delete": "ลบ",
+  "labels.new": "ป้ายใหม่",
+  "labels.newName": "ชื่อป้ายใหม่",
+  "labels.add": "เพิ่ม",
+  "labels.done": "เสร็จ",
+
+  // ---------- Board list ----------
+  "boards.title": "บอร์ด",
+  "boards.new": "+ ใหม่",
+  "boards.name": "ชื่อบอร์ด",
+  "boards.restore": "กู้คืน",
+  "boards.rename": "เปลี่ยนชื่อ",
+  "boards.archive": "เก็บถาวร",
+  "boards.noArchived": "ไม่มีบอร์ดที่เก็บถาวร",
+  "boards.none": "ยังไม่มีบอร์ด",
+  "boards.showArchived": "แสดงที่เก็บถาวร",
+  "boards.loadFailed": "โหลดรายการบอร์ดไม่สำเร็จ",
+  "boards.createFailed": "สร้างบอร์ดไม่สำเร็จ",
+  "boards.renameFailed": "เปลี่ยนชื่อบอร์ดไม่สำเร็จ",
+  "boards.archiveFailed": "เก็บบอร์ดถาวรไม่สำเร็จ",
+
+  // ---------- Swimlanes ----------
+  "lanes.unassigned": "ยังไม่มีผู้รับผิดชอบ",
+  "lanes.noPriority": "ไม่มีความสำคัญ",
+  "lanes.noEpic": "ไม่มีเอพิก",
+
+  // ---------- Import / export ----------
+  "transfer.menu": "นำเข้า / ส่งออก",
+  "transfer.data": "ข้อมูล",
+  "transfer.exportJson": "ส่งออก JSON (สำรองข้อมูล)",
+  "transfer.exportCsv": "ส่งออก CSV",
+  "transfer.import": "นำเข้า…",
+  "transfer.title": "นำเข้าการ์ด",
+  "transfer.intro":
+    "ไฟล์ JSON ที่สำรองจากบอร์ด หรือสเปรดชีต CSV ที่มีหนึ่งแถวต่อการ์ด การ์ดจะถูกเพิ่มลงในบอร์ดนี้ คอลัมน์จะจับคู่ตามชื่อและสร้างใหม่เมื่อไม่มี",
+  "transfer.file": "ไฟล์",
+  "transfer.readFailed": "อ่านไฟล์ไม่ได้",
+  "transfer.cancel": "ยกเลิก",
+  "transfer.back": "ย้อนกลับ",
+  "transfer.preview": "ดูตัวอย่าง",
+  "transfer.importCards": {
+    one: "นำเข้า {count} การ์ด",
+    other: "นำเข้า {count} การ์ด",
+  },
+  "transfer.sheetColumn": "คอลัมน์ {index}",
+  "transfer.hasHeader": "แถวแรกเป็นหัวตาราง",
+  "transfer.allInto": "(ทั้งหมดไปที่ “{column}”)",
+  "transfer.notImported": "(ไม่นำเข้า)",
+  "transfer.column": "คอลัมน์",
+  "transfer.cards": "การ์ด",
+  "transfer.new": "ใหม่",
+  "transfer.more": "และอีก {count}",
+  "transfer.sprints": "สปรินต์: {names}",
+  "transfer.labels": "ป้าย: {names}",
+  "transfer.fieldColumn": "คอลัมน์",
+  "transfer.fieldTitle": "ชื่อ",
+  "transfer.fieldDescription": "คำอธิบาย",
+  "transfer.fieldPoints": "คะแนน",
+  "transfer.fieldSprint": "สปรินต์",
+  "transfer.fieldLabels": "ป้ายกำกับ (คั่นด้วย ;)",
+  "transfer.fieldDue": "วันครบกำหนด",
+  "transfer.fieldPriority": "ความสำคัญ",
+  "transfer.defaultColumn": "ต้องทำ",
+  "transfer.empty": "ไฟล์ว่างเปล่า",
+  "transfer.badJson": "ไฟล์ไม่ใช่ JSON ที่ถูกต้อง",
+  "transfer.notExport": "ไฟล์นี้ไม่ใช่ไฟล์ที่ส่งออกจากบอร์ดสปรินต์",
+  "transfer.badVersion":
+    "ไม่รองรับไฟล์ส่งออกเวอร์ชัน {version} (รองรับถึง {max})",
+  "transfer.noBoard": "ไฟล์ส่งออกไม่มีคอลัมน์หรือการ์ด",
+  "transfer.noTitleColumn": "เลือกคอลัมน์ในสเปรดชีตที่เป็นชื่อการ์ด",
+  "transfer.skippedColumns": {
+    one: "ข้าม {count} คอลัมน์ที่ไม่มี id/ชื่อ",
+    other: "ข้าม {count} คอลัมน์ที่ไม่มี id/ชื่อ",
+  },
+  "transfer.skippedCard": "ข้ามการ์ด {id} ใน “{column}”",
+  "transfer.rowNoTitle": "แถว {row}: ไม่มีชื่อ จึงข้าม",
+  "transfer.rowPoints": "แถว {row}: คะแนน “{value}” อ่านเป็น 0",
+  "transfer.rowDue":
+    "แถว {row}: วันครบกำหนด “{value}” ไม่อยู่ในรูปแบบ YYYY-MM-DD",
+  "transfer.rowPriority": "แถว {row}: ไม่รู้จักความสำคัญ “{value}”",
+};
+
+const CATALOGS: Record<Locale, Record<MessageKey, Message>> = { en, th };
+
+function isLocale(v: unknown): v is Locale {
+  return LOCALES.includes(v as Locale);
+}
+
+// saved choice, else the browser's language; the reference locale outside
+// a browser (unit tests)
+function loadLocale(): Locale {
+  if (typeof window === "undefined") return "en";
+  const saved = localStorage.getItem(STORAGE_LOCALE);
+  if (isLocale(saved)) return saved;
+  return navigator.language.toLowerCase().startsWith("th") ? "th" : "en";
+}
+
+let current = loadLocale();
+if (typeof document !== "undefined") document.documentElement.lang = current;
+
+export function getLocale() {
+  return current;
+}
+
+export function setLocale(locale: Locale) {
+  localStorage.setItem(STORAGE_LOCALE, locale);
+  current = locale;
+  document.documentElement.lang = locale;
+  window.dispatchEvent(new Event(LOCALE_EVENT));
+}
+
+// re-renders the caller when the language changes; App uses it so the whole
+// tree follows
+export function useLocale() {
+  const [locale, setState] = useState(getLocale);
+
+  useEffect(() => {
+    const update = () => {
+      // storage: switched in another tab
+      current = loadLocale();
+      document.documentElement.lang = current;
+      setState(current);
+    };
+    window.addEventListener(LOCALE_EVENT, update);
+    window.addEventListener("storage", update);
+    return () => {
+      window.removeEventListener(LOCALE_EVENT, update);
+      window.removeEventListener("storage", update);
+    };
+  }, []);
+
+  return locale;
+}
+
+type Params = Record<string, string | number>;
+
+export function t(key: MessageKey, params: Params = {}) {
+  const msg = CATALOGS[current][key];
+  const text =
+    typeof msg === "string"
+      ? msg
+      : new Intl.PluralRules(INTL_LOCALES[current]).select(
+            Number(params.count ?? 0)
+          ) === "one"
+        ? msg.one
+        : msg.other;
+  return text.replace(/\{(\w+)\}/g, (m, name: string) =>
+    name in params ? formatParam(params[name]) : m
+  );
+}
+
+function formatParam(v: string | number) {
+  return typeof v === "number" ? formatNumber(v) : v;
+}
+
+// ---------- Formatting ----------
+
+export function formatNumber(n: number) {
+  return new Intl.NumberFormat(INTL_LOCALES[current], {
+    maximumFractionDigits: 2,
+  }).format(n);
+}
+
+export function formatPoints(points: number) {
+  return t("card.points", { points });
+}
+
+// epoch ms, e.g. createdAt/updatedAt
+export function formatDateTime(ms: number) {
+  return new Intl.DateTimeFormat(INTL_LOCALES[current], {
+    dateStyle: "medium",
+    timeStyle: "short",
+  }).format(ms);
+}
+
+// "YYYY-MM-DD" (due and sprint dates) as a calendar day, whatever the
+// time zone
+export function formatDate(iso: string) {
+  const [y, m, d] = iso.split("-").map(Number);
+  if (!y || !m || !d) return iso;
+  return new Intl.DateTimeFormat(INTL_LOCALES[current], {
+    dateStyle: "medium",
+    timeZone: "UTC",
+  }).format(Date.UTC(y, m - 1, d));
+}
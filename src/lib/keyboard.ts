@@ -0,0 +1,159 @@
+import type { KeyboardEvent as ReactKeyboardEvent } from "react";
+
+// Keyboard helpers for the board page. Focus moves through the DOM: cards
+// carry data-card-id, column headers data-column-id, and every card list
+// data-list-column plus data-list-lane, so filters, swimlanes and collapsed
+// lanes need no bookkeeping of their own.
+
+// keys typed here belong to the field, not to board shortcuts
+export function isTypingTarget(target: EventTarget | null) {
+  const el = target as HTMLElement | null;
+  return (
+    !!el &&
+    (el.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(el.tagName))
+  );
+}
+
+// Board shortcuts wait while a dialog is open or a card is being dragged: a
+// keyboard drag uses the arrows and Esc itself.
+export function shortcutsPaused(
+  modalOpen: boolean,
+  draggingCardId: string | null
+) {
+  return modalOpen || draggingCardId !== null;
+}
+
+export type FocusArrow = "ArrowUp" | "ArrowDown" | "ArrowLeft" | "ArrowRight";
+
+export function isFocusArrow(key: string): key is FocusArrow {
+  return (
+    key === "ArrowUp" ||
+    key === "ArrowDown" ||
+    key === "ArrowLeft" ||
+    key === "ArrowRight"
+  );
+}
+
+// what a key event happened on: a card (and its column) or a column header
+export type FocusSpot = { columnId: string; cardId: string | null };
+
+export function focusSpot(target: EventTarget | null): FocusSpot | null {
+  const el = target instanceof Element ? target : null;
+  const card = el?.closest<HTMLElement>("[data-card-id]");
+  const list = card?.closest<HTMLElement>("[data-list-column]");
+  if (card && list) {
+    return {
+      columnId: list.dataset.listColumn!,
+      cardId: card.dataset.cardId!,
+    };
+  }
+  const header = el?.closest<HTMLElement>("[data-column-id]");
+  return header ? { columnId: header.dataset.columnId!, cardId: null } : null;
+}
+
+function headers(root: ParentNode) {
+  return [...root.querySelectorAll<HTMLElement>("[data-column-id]")];
+}
+
+function cardsOf(list: Element) {
+  return [...list.querySelectorAll<HTMLElement>("[data-card-id]")];
+}
+
+function listsOf(root: ParentNode, columnId: string) {
+  return [...root.querySelectorAll<HTMLElement>("[data-list-column]")].filter(
+    (l) => l.dataset.listColumn === columnId
+  );
+}
+
+// Element the arrow moves focus to from `from`, or null at an edge. Up from
+// a column's first card goes to its header; down past a lane's last card
+// continues in the next lane; sideways keeps the position in the list.
+export function arrowTarget(
+  root: ParentNode,
+  from: Element,
+  key: FocusArrow
+): HTMLElement | null {
+  const cols = headers(root);
+  const card = from.closest<HTMLElement>("[data-card-id]");
+  const list = card?.closest<HTMLElement>("[data-list-column]");
+
+  if (!card || !list) {
+    const header = from.closest<HTMLElement>("[data-column-id]");
+    const i = header ? cols.indexOf(header) : -1;
+    if (i === -1) return null;
+    if (key === "ArrowLeft") return cols[i - 1] ?? null;
+    if (key === "ArrowRight") return cols[i + 1] ?? null;
+    if (key === "ArrowDown") {
+      const first = listsOf(root, header!.dataset.columnId!)
+        .map((l) => cardsOf(l)[0])
+        .find(Boolean);
+      return first ?? null;
+    }
+    return null;
+  }
+
+  const columnId = list.dataset.listColumn!;
+  const cards = cardsOf(list);
+  const i = cards.indexOf(card);
+
+  if (key === "ArrowUp") {
+    if (i > 0) return cards[i - 1];
+    const lists = listsOf(root, columnId);
+    const prev = lists
+      .slice(0, lists.indexOf(list))
+      .reverse()
+      .map((l) => cardsOf(l).at(-1))
+      .find(Boolean);
+    return prev ?? cols.find((h) => h.dataset.columnId === columnId) ?? null;
+  }
+  if (key === "ArrowDown") {
+    if (i < cards.length - 1) return cards[i + 1];
+    const lists = listsOf(root, columnId);
+    const next = lists
+      .slice(lists.indexOf(list) + 1)
+      .map((l) => cardsOf(l)[0])
+      .find(Boolean);
+    return next ?? null;
+  }
+
+  const c = cols.findIndex((h) => h.dataset.columnId === columnId);
+  const side = cols[key === "ArrowLeft" ? c - 1 : c + 1];
+  if (!side) return null;
+  const lane = list.dataset.listLane ?? "";
+  const sideList = listsOf(root, side.dataset.columnId!).find(
+    (l) => (l.dataset.listLane ?? "") === lane
+  );
+  const sideCards = sideList ? cardsOf(sideList) : [];
+  return sideCards[Math.min(i, sideCards.length - 1)] ?? side;
+}
+
+export function focusElement(el: HTMLElement) {
+  el.focus();
+  el.scrollIntoView({ block: "nearest", inline: "nearest" });
+}
+
+// Keys for the <details> menus: arrows walk the items (opening the menu
+// from its summary) and Esc closes it with focus back on the summary.
+export function menuKeyDown(e: ReactKeyboardEvent<HTMLDetailsElement>) {
+  const menu = e.currentTarget;
+  const summary = menu.querySelector("summary");
+  const items = [
+    ...menu.querySelectorAll<HTMLElement>(".sb-menu-item:not(:disabled)"),
+  ];
+  if (e.key === "Escape" && menu.open) {
+    e.preventDefault();
+    menu.open = false;
+    summary?.focus();
+    return;
+  }
+  if (e.key !== "ArrowDown" && e.key !== "ArrowUp") return;
+  if (items.length === 0) return;
+  e.preventDefault();
+  menu.open = true;
+  const i = items.indexOf(document.activeElement as HTMLElement);
+  const next =
+    e.key === "ArrowDown"
+      ? items[(i + 1) % items.length]
+      : items[i <= 0 ? items.length - 1 : i - 1];
+  next.focus();
+}
@@ -0,0 +1,434 @@
+import { ApiError } from "./api";
+import type { BoardDataSource, WriteOptions, WriteResult } from "./dataSource";
+import { applyMutation, type Mutation } from "./outbox";
+import { DEFAULT_COLUMN_TITLES, cardInput } from "./board";
+import { t } from "./i18n";
+import type {
+  BoardState,
+  BoardSummary,
+  CardActivity,
+  CardChange,
+  CardComment,
+  Member,
+} from "./types";
+
+// Boards stored in this browser's localStorage. Writes go through the same
+// applyMutation used for optimistic updates, so both backends behave alike.
+// Errors mirror the API (404 for unknown ids, 409 for stale versions).
+
+const STORAGE_LOCAL_BOARD = "sb_local_board";
+
+const STORAGE_LOCAL_CARD_LOG = "sb_local_card_log";
+
+// the only member of a local board; named in the current language
+function localMember(): Member {
+  return { id: "local", name: t("app.localMember") };
+}
+
+// the board a fresh browser starts with; no other id is created by reading it
+export const DEFAULT_LOCAL_BOARD_ID = "local";
+
+function storageKey(boardId: string) {
+  return `${STORAGE_LOCAL_BOARD}:${boardId}`;
+}
+
+function localId(prefix: string) {
+  return `${prefix}_${Date.now().toString(36)}${Math.random()
+    .toString(36)
+    .slice(2, 8)}`;
+}
+
+function seedBoard(
+  boardId: string,
+  name = t("app.localBoardName")
+): BoardState {
+  const columns = DEFAULT_COLUMN_TITLES.map((title, i) => ({
+    id: localId("col"),
+    title,
+    order: i + 1,
+  }));
+  return {
+    boardId,
+    name,
+    version: 1,
+    columns,
+    cardsById: {},
+    columnCardIds: Object.fromEntries(columns.map((c) => [c.id, []])),
+  };
+}
+
+function save(state: BoardState) {
+  localStorage.setItem(storageKey(state.boardId), JSON.stringify(state));
+}
+
+function summaryOf(state: BoardState): BoardSummary {
+  const updatedAt = Object.values(state.cardsById).reduce(
+    (max, c) => Math.max(max, c.updatedAt ?? 0),
+    0
+  );
+  return {
+    boardId: state.boardId,
+    name: state.name,
+    archived: state.archived,
+    updatedAt: updatedAt || undefined,
+  };
+}
+
+function read(boardId: string): BoardState {
+  const raw = localStorage.getItem(storageKey(boardId));
+  if (raw) {
+    try {
+      return JSON.parse(raw) as BoardState;
+    } catch {
+      // corrupted entry: start over below
+    }
+  } else if (boardId !== DEFAULT_LOCAL_BOARD_ID) {
+    notFound("Board");
+  }
+  const seeded = seedBoard(boardId);
+  save(seeded);
+  return seeded;
+}
+
+// keep Card.rank in line with the column order, like the API does
+function withRanks(state: BoardState): BoardState {
+  const cardsById = { ...state.cardsById };
+  for (const colId of Object.keys(state.columnCardIds)) {
+    (state.columnCardIds[colId] || []).forEach((id, i) => {
+      const c = cardsById[id];
+      if (c && c.rank !== i + 1) cardsById[id] = { ...c, rank: i + 1 };
+    });
+  }
+  return { ...state, cardsById };
+}
+
+function notFound(what: string): never {
+  throw new ApiError(`${what} not found`, 404, { code: "NOT_FOUND" });
+}
+
+function checkExists(state: BoardState, m: Mutation) {
+  const hasColumn = (id: string) => state.columns.some((c) => c.id === id);
+  switch (m.kind) {
+    case "rename_column":
+    case "set_column_limit":
+    case "move_column":
+    case "delete_column":
+      if (!hasColumn(m.columnId)) notFound("Column");
+      if (m.kind === "delete_column" && state.columns.length <= 1) {
+        throw new ApiError("Cannot delete the last column", 400);
+      }
+      return;
+    case "create_card":
+      if (!hasColumn(m.columnId)) notFound("Column");
+      return;
+    case "move_card":
+      if (!hasColumn(m.toColumnId)) notFound("Column");
+      if (!state.cardsById[m.cardId]) notFound("Card");
+      return;
+    case "move_cards":
+      if (!hasColumn(m.toColumnId)) notFound("Column");
+      if (m.cardIds.some((id) => !state.cardsById[id])) notFound("Card");
+      return;
+    case "update_card":
+    case "delete_card":
+    case "rank_card":
+      if (!state.cardsById[m.cardId]) notFound("Card");
+      return;
+    case "update_sprint":
+    case "complete_sprint":
+      if (!(state.sprints || []).some((s) => s.id === m.sprintId)) {
+        notFound("Sprint");
+      }
+      return;
+    case "update_label":
+    case "delete_label":
+      if (!(state.labels || []).some((l) => l.id === m.labelId)) {
+        notFound("Label");
+      }
+      return;
+    default:
+      return;
+  }
+}
+
+// comments and activity of a board's cards, stored next to the board
+type CardLog = { comments: CardComment[]; activity: CardActivity[] };
+
+function readLog(boardId: string): CardLog {
+  try {
+    const raw = localStorage.getItem(`${STORAGE_LOCAL_CARD_LOG}:${boardId}`);
+    if (raw) return JSON.parse(raw) as CardLog;
+  } catch {
+    // corrupted entry: start over
+  }
+  return { comments: [], activity: [] };
+}
+
+function saveLog(boardId: string, log: CardLog) {
+  localStorage.setItem(
+    `${STORAGE_LOCAL_CARD_LOG}:${boardId}`,
+    JSON.stringify(log)
+  );
+}
+
+function activityMeta(cardId: string) {
+  return {
+    id: localId("act"),
+    cardId,
+    at: Date.now(),
+    actorName: localMember().name,
+  };
+}
+
+function logActivity(boardId: string, entries: CardActivity[]) {
+  if (entries.length === 0) return;
+  const log = readLog(boardId);
+  saveLog(boardId, { ...log, activity: [...log.activity, ...entries] });
+}
+
+// what a write did to each card, like the API records it
+function cardChanges(before: BoardState, after: BoardState) {
+  const out: CardActivity[] = [];
+  for (const card of Object.values(after.cardsById)) {
+    const prev = before.cardsById[card.id];
+    if (!prev) {
+      out.push({
+        ...activityMeta(card.id),
+        type: "created",
+        columnId: card.columnId,
+      });
+      continue;
+    }
+    if (prev.columnId !== card.columnId) {
+      out.push({
+        ...activityMeta(card.id),
+        type: "moved",
+        fromColumnId: prev.columnId,
+        toColumnId: card.columnId,
+      });
+    }
+    const from = cardInput(prev);
+    const to = cardInput(card);
+    const changes: CardChange[] = (Object.keys(to) as (keyof typeof to)[])
+      .filter((k) => JSON.stringify(from[k]) !== JSON.stringify(to[k]))
+      .map((field) => ({ field, from: from[field], to: to[field] }));
+    if (changes.length > 0) {
+      out.push({ ...activityMeta(card.id), type: "updated", changes });
+    }
+  }
+  return out;
+}
+
+async function write(
+  boardId: string,
+  m: Mutation,
+  opts?: WriteOptions,
+  id?: string
+): Promise<WriteResult> {
+  const cur = read(boardId);
+  if (opts?.baseVersion !== undefined && opts.baseVersion !== cur.version) {
+    throw new ApiError(`Board changed since version ${opts.baseVersion}`, 409, {
+      code: "VERSION_CONFLICT",
+    });
+  }
+  checkExists(cur, m);
+
+  let next = applyMutation(cur, m);
+  const touched =
+    m.kind === "update_card" || m.kind === "move_card"
+      ? [m.cardId]
+      : m.kind === "move_cards"
+        ? m.cardIds
+        : [];
+  if (touched.length > 0) {
+    const cardsById = { ...next.cardsById };
+    for (const id of touched) {
+      cardsById[id] = { ...cardsById[id], updatedAt: Date.now() };
+    }
+    next = { ...next, cardsById };
+  }
+  next = withRanks({ ...next, version: cur.version + 1 });
+  save(next);
+  logActivity(boardId, cardChanges(cur, next));
+  return { version: next.version, id };
+}
+
+export function createLocalDataSource(): BoardDataSource {
+  // board-level edits also bump the version so other tabs pick them up
+  function patchBoard(boardId: string, patch: Partial<BoardState>) {
+    if (!localStorage.getItem(storageKey(boardId))) notFound("Board");
+    const cur = read(boardId);
+    save({ ...cur, ...patch, version: cur.version + 1 });
+  }
+
+  return {
+    kind: "local",
+
+    async listBoards() {
+      const prefix = `${STORAGE_LOCAL_BOARD}:`;
+      const out: BoardSummary[] = [];
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (!key?.startsWith(prefix)) continue;
+        out.push(summaryOf(read(key.slice(prefix.length))));
+      }
+      if (out.length === 0) out.push(summaryOf(read(DEFAULT_LOCAL_BOARD_ID)));
+      return out.sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    async createBoard(name) {
+      const board = seedBoard(localId("board"), name);
+      save(board);
+      return summaryOf(board);
+    },
+
+    async renameBoard(boardId, name) {
+      patchBoard(boardId, { name });
+    },
+
+    async archiveBoard(boardId, archived) {
+      patchBoard(boardId, { archived });
+    },
+
+    async loadBoard(boardId) {
+      return read(boardId);
+    },
+
+    // no accounts locally, just the person at the keyboard
+    async listMembers() {
+      return [localMember()];
+    },
+
+    addColumn(boardId, title, opts) {
+      const columnId = localId("col");
+      return write(
+        boardId,
+        { kind: "add_column", columnId, title },
+        opts,
+        columnId
+      );
+    },
+
+    renameColumn: (boardId, columnId, title, opts) =>
+      write(boardId, { kind: "rename_column", columnId, title }, opts),
+
+    setColumnLimit: (boardId, columnId, wipLimit, opts) =>
+      write(boardId, { kind: "set_column_limit", columnId, wipLimit }, opts),
+
+    moveColumn: (boardId, columnId, to, opts) =>
+      write(boardId, { kind: "move_column", columnId, ...to }, opts),
+
+    deleteColumn: (boardId, columnId, mode, opts) =>
+      write(boardId, { kind: "delete_column", columnId, mode }, opts),
+
+    createCard(boardId, columnId, data, opts) {
+      const cardId = localId("card");
+      return write(
+        boardId,
+        { kind: "create_card", cardId, columnId, data },
+        opts,
+        cardId
+      );
+    },
+
+    updateCard: (boardId, cardId, patch, opts) =>
+      write(boardId, { kind: "update_card", cardId, patch }, opts),
+
+    deleteCard: (boardId, cardId, opts) =>
+      write(boardId, { kind: "delete_card", cardId }, opts),
+
+    moveCard: (boardId, cardId, to, opts) =>
+      write(boardId, { kind: "move_card", cardId, ...to }, opts),
+
+    rankCard: (boardId, cardId, to, opts) =>
+      write(boardId, { kind: "rank_card", cardId, ...to }, opts),
+
+    moveCards: (boardId, cardIds, to, opts) =>
+      write(boardId, { kind: "move_cards", cardIds, ...to }, opts),
+
+    createSprint(boardId, data, opts) {
+      const sprintId = localId("sprint");
+      return write(
+        boardId,
+        { kind: "create_sprint", sprintId, data },
+        opts,
+        sprintId
+      );
+    },
+
+    updateSprint: (boardId, sprintId, patch, opts) =>
+      write(boardId, { kind: "update_sprint", sprintId, patch }, opts),
+
+    completeSprint: (boardId, sprintId, moveToSprintId, opts) =>
+      write(
+        boardId,
+        { kind: "complete_sprint", sprintId, moveToSprintId },
+        opts
+      ),
+
+    createLabel(boardId, data, opts) {
+      const labelId = localId("label");
+      return write(
+        boardId,
+        { kind: "create_label", labelId, data },
+        opts,
+        labelId
+      );
+    },
+
+    updateLabel: (boardId, labelId, patch, opts) =>
+      write(boardId, { kind: "update_label", labelId, patch }, opts),
+
+    deleteLabel: (boardId, labelId, opts) =>
+      write(boardId, { kind: "delete_label", labelId }, opts),
+
+    async listComments(boardId, cardId) {
+      return readLog(boardId).comments.filter((c) => c.cardId === cardId);
+    },
+
+    async addComment(boardId, cardId, data) {
+      if (!read(boardId).cardsById[cardId]) notFound("Card");
+      const me = localMember();
+      const comment: CardComment = {
+        id: localId("comment"),
+        cardId,
+        parentId: data.parentId,
+        authorId: me.id,
+        authorName: me.name,
+        body: data.body,
+        createdAt: Date.now(),
+      };
+      const log = readLog(boardId);
+      saveLog(boardId, { ...log, comments: [...log.comments, comment] });
+      logActivity(boardId, [
+        { ...activityMeta(cardId), type: "commented", commentId: comment.id },
+      ]);
+      return comment;
+    },
+
+    async listActivity(boardId, cardId) {
+      return readLog(boardId).activity.filter((a) => a.cardId === cardId);
+    },
+
+    // other tabs writing the same board show up as storage events
+    subscribe(boardId, handlers) {
+      const onStorage = (e: StorageEvent) => {
+        if (e.key !== storageKey(boardId) || !e.newValue) return;
+        try {
+          const state = JSON.parse(e.newValue) as BoardState;
+          handlers.onEvent({
+            type: "board.reset",
+            boardId,
+            version: state.version,
+            state,
+          });
+        } catch {
+          // ignore partial writes
+        }
+      };
+      window.addEventListener("storage", onStorage);
+      handlers.onStatus?.("live");
+      return () => window.removeEventListener("storage", onStorage);
+    },
+  };
+}
@@ -0,0 +1,190 @@
+// A small Markdown subset for card descriptions: headings, paragraphs,
+// bullet/numbered lists, GitHub-style task items (- [ ] / - [x]), block
+// quotes, fenced code and inline code/bold/italic/links. It parses into plain
+// data that the Markdown component renders as React elements, so raw HTML in
+// a description is never injected; it shows up as text.
+
+export type Inline =
+  | { type: "text"; text: string }
+  | { type: "code"; text: string }
+  | { type: "strong"; children: Inline[] }
+  | { type: "em"; children: Inline[] }
+  | { type: "link"; href: string; children: Inline[] };
+
+export type ListItem = {
+  children: Inline[];
+  // index among all task items of the text, for toggling
+  task: { index: number; checked: boolean } | null;
+};
+
+export type Block =
+  | { type: "heading"; level: number; children: Inline[] }
+  | { type: "paragraph"; children: Inline[] }
+  | { type: "list"; ordered: boolean; items: ListItem[] }
+  | { type: "quote"; children: Inline[] }
+  | { type: "code"; text: string };
+
+const FENCE = /^\s*```/;
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const TASK = /^(\s*[-*+]\s+\[)([ xX])(\]\s+)(.*)$/;
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+
+const INLINE =
+  /`([^`]+)`|\*\*(.+?)\*\*|__(.+?)__|\*([^*\s][^*]*?)\*|\b_([^_\s][^_]*?)_\b|\[([^\]]+)\]\(([^)\s]+)\)|(https?:\/\/[^\s<]*[^\s<.,;:!?)])/;
+
+// only web and mail links; anything else (javascript:, data:) stays text
+export function safeHref(url: string) {
+  return /^(https?:|mailto:)/i.test(url) || /^[/#]/.test(url) ? url : null;
+}
+
+export function parseInline(src: string): Inline[] {
+  const out: Inline[] = [];
+  let rest = src;
+  for (;;) {
+    const m = INLINE.exec(rest);
+    if (!m) break;
+    if (m.index > 0) out.push({ type: "text", text: rest.slice(0, m.index) });
+    const [whole, code, strong, strong2, em, em2, linkText, href, bare] = m;
+    if (code !== undefined) out.push({ type: "code", text: code });
+    else if (strong !== undefined || strong2 !== undefined) {
+      out.push({ type: "strong", children: parseInline(strong ?? strong2) });
+    } else if (em !== undefined || em2 !== undefined) {
+      out.push({ type: "em", children: parseInline(em ?? em2) });
+    } else if (linkText !== undefined) {
+      const safe = safeHref(href);
+      if (safe) {
+        out.push({ type: "link", href: safe, children: parseInline(linkText) });
+      } else {
+        out.push({ type: "text", text: whole });
+      }
+    } else {
+      out.push({
+        type: "link",
+        href: bare,
+        children: [{ type: "text", text: bare }],
+      });
+    }
+    rest = rest.slice(m.index + whole.length);
+  }
+  if (rest) out.push({ type: "text", text: rest });
+  return out;
+}
+
+export function parseMarkdown(text: string): Block[] {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: Block[] = [];
+  let taskIndex = 0;
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (FENCE.test(line)) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE.test(lines[i])) code.push(lines[i++]);
+      i++; // closing fence (or end of text)
+      blocks.push({ type: "code", text: code.join("\n") });
+      continue;
+    }
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({
+        type: "heading",
+        level: heading[1].length,
+        children: parseInline(heading[2]),
+      });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(QUOTE.exec(lines[i])![1]);
+        i++;
+      }
+      blocks.push({ type: "quote", children: parseInline(quoted.join("\n")) });
+      continue;
+    }
+
+    if (BULLET.test(line) || NUMBERED.test(line)) {
+      const ordered = !BULLET.test(line);
+      const items: ListItem[] = [];
+      while (i < lines.length) {
+        const task = ordered ? null : TASK.exec(lines[i]);
+        const item = (ordered ? NUMBERED : BULLET).exec(lines[i]);
+        if (!item) break;
+        items.push(
+          task
+            ? {
+                children: parseInline(task[4]),
+                task: { index: taskIndex++, checked: task[2] !== " " },
+              }
+            : { children: parseInline(item[1]), task: null }
+        );
+        i++;
+      }
+      blocks.push({ type: "list", ordered, items });
+      continue;
+    }
+
+    // paragraph: runs until a blank line or another block starts
+    const para: string[] = [];
+    while (
+      i < lines.length &&
+      lines[i].trim() &&
+      !FENCE.test(lines[i]) &&
+      !HEADING.test(lines[i]) &&
+      !QUOTE.test(lines[i]) &&
+      !BULLET.test(lines[i]) &&
+      !NUMBERED.test(lines[i])
+    ) {
+      para.push(lines[i++]);
+    }
+    blocks.push({ type: "paragraph", children: parseInline(para.join("\n")) });
+  }
+
+  return blocks;
+}
+
+// line numbers of the task items, in the order parseMarkdown numbers them
+function taskLines(lines: string[]) {
+  const out: number[] = [];
+  let inFence = false;
+  lines.forEach((line, i) => {
+    if (FENCE.test(line)) inFence = !inFence;
+    else if (!inFence && !QUOTE.test(line) && TASK.test(line)) out.push(i);
+  });
+  return out;
+}
+
+export function taskProgress(text: string) {
+  const lines = text.split(/\r?\n/);
+  const tasks = taskLines(lines);
+  return {
+    done: tasks.filter((i) => TASK.exec(lines[i])![2] !== " ").length,
+    total: tasks.length,
+  };
+}
+
+// the text with the given task item checked/unchecked
+export function toggleTask(text: string, index: number) {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  const at = taskLines(lines)[index];
+  if (at === undefined) return text;
+  lines[at] = lines[at].replace(
+    TASK,
+    (_, head: string, mark: string, tail: string, rest: string) =>
+      `${head}${mark === " " ? "x" : " "}${tail}${rest}`
+  );
+  return lines.join("\n");
+}
@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import { boardReducer } from "./boardStore";
+import {
+  applyMutation,
+  confirmEntry,
+  createEntry,
+  groupMoveMutation,
+  moveColumnMutation,
+  moveMutationFromSnapshot,
+} from "./outbox";
+import { board } from "./testFixtures";
+
+describe("moveMutationFromSnapshot", () => {
+  it("sends both neighbours after a cross-column drop", () => {
+    // drag preview over "e", then the drop
+    const snapshot = boardReducer(board(), {
+      type: "moveCard",
+      cardId: "b",
+      overId: "e",
+    });
+    expect(moveMutationFromSnapshot(snapshot, "b")).toEqual({
+      kind: "move_card",
+      cardId: "b",
+      toColumnId: "doing",
+      beforeCardId: "d",
+      afterCardId: "e",
+    });
+  });
+
+  it("sends the neighbours after a same-column reorder", () => {
+    const snapshot = boardReducer(board(), {
+      type: "reorderCard",
+      cardId: "c",
+      overId: "a",
+      laneDrop: false,
+    });
+    expect(moveMutationFromSnapshot(snapshot, "c")).toEqual({
+      kind: "move_card",
+      cardId: "c",
+      toColumnId: "todo",
+      beforeCardId: null,
+      afterCardId: "a",
+    });
+  });
+
+  it("has no neighbours in an empty column", () => {
+    const snapshot = boardReducer(board(), {
+      type: "moveCard",
+      cardId: "a",
+      overId: "done",
+    });
+    expect(moveMutationFromSnapshot(snapshot, "a")).toMatchObject({
+      toColumnId: "done",
+      beforeCardId: null,
+      afterCardId: null,
+    });
+  });
+
+  it("is null for a card that is not on the board", () => {
+    expect(moveMutationFromSnapshot(board(), "x")).toBeNull();
+  });
+
+  it("replays to the order the user saw", () => {
+    const start = board();
+    const snapshot = boardReducer(
+      boardReducer(start, { type: "moveCard", cardId: "a", overId: "e" }),
+      { type: "reorderCard", cardId: "a", overId: "d", laneDrop: false }
+    );
+    const move = moveMutationFromSnapshot(snapshot, "a")!;
+    const replayed = applyMutation(start, move);
+    expect(replayed.columnCardIds).toEqual(snapshot.columnCardIds);
+    expect(replayed.cardsById.a.columnId).toBe("doing");
+  });
+});
+
+describe("groupMoveMutation", () => {
+  it("skips the other dragged cards when picking neighbours", () => {
+    // a and c dragged together, dropped with a in place of "e"
+    const snapshot = boardReducer(board(), {
+      type: "moveCard",
+      cardId: "a",
+      overId: "e",
+    });
+    expect(groupMoveMutation(snapshot, "a", ["a", "c"])).toEqual({
+      kind: "move_cards",
+      cardIds: ["a", "c"],
+      toColumnId: "doing",
+      beforeCardId: "d",
+      afterCardId: "e",
+    });
+  });
+
+  it("gathers the group where the anchor was dropped", () => {
+    const start = board();
+    const snapshot = boardReducer(start, {
+      type: "moveCard",
+      cardId: "b",
+      overId: "doing",
+    });
+    const move = groupMoveMutation(snapshot, "b", ["a", "b"])!;
+    expect(move).toMatchObject({ beforeCardId: "e", afterCardId: null });
+    expect(applyMutation(start, move).columnCardIds).toEqual({
+      todo: ["c"],
+      doing: ["d", "e", "a", "b"],
+      done: [],
+    });
+  });
+});
+
+describe("moveColumnMutation", () => {
+  it("sends the neighbouring columns", () => {
+    expect(moveColumnMutation(["doing", "todo", "done"], "todo")).toEqual({
+      kind: "move_column",
+      columnId: "todo",
+      beforeColumnId: "doing",
+      afterColumnId: "done",
+    });
+    expect(moveColumnMutation(["todo"], "x")).toBeNull();
+  });
+});
+
+describe("confirmEntry", () => {
+  it("applies the accepted write with the server's id and version", () => {
+    const entry = createEntry("b1", 1, {
+      kind: "create_card",
+      cardId: "tmp_x",
+      columnId: "done",
+      data: { title: "New", description: "", points: 2 },
+    });
+    const next = confirmEntry(board(), entry, { id: "c9", version: 7 });
+    expect(next.version).toBe(7);
+    expect(next.columnCardIds.done).toEqual(["c9"]);
+    expect(next.cardsById.c9.title).toBe("New");
+    expect(next.cardsById.tmp_x).toBeUndefined();
+  });
+
+  it("counts one version up when the backend does not report it", () => {
+    const entry = createEntry("b1", 1, { kind: "delete_card", cardId: "a" });
+    const next = confirmEntry(board(), entry, {});
+    expect(next.version).toBe(2);
+    expect(next.columnCardIds.todo).toEqual(["b", "c"]);
+  });
+});
@@ -0,0 +1,777 @@
+import { rankCard } from "./backlog";
+import {
+  doneColumnId,
+  findContainerOf,
+  insertAt,
+  sortedColumns,
+  sprintPoints,
+} from "./board";
+import { boardReducer } from "./boardStore";
+import type {
+  BoardDataSource,
+  DataSourceKind,
+  WriteOptions,
+  WriteResult,
+} from "./dataSource";
+import type {
+  BoardState,
+  Card,
+  CardInput,
+  CardPatch,
+  ColumnId,
+  LabelInput,
+  LabelPatch,
+  SprintInput,
+  SprintPatch,
+  WipLimit,
+} from "./types";
+
+// Persistent queue of board mutations. Every change is recorded here first,
+// applied optimistically on top of the last server state and replayed in
+// order once the backend is reachable, so edits survive a backend restart
+// or a page reload while offline.
+
+export type Mutation =
+  | { kind: "add_column"; columnId: ColumnId; title: string }
+  | { kind: "rename_column"; columnId: ColumnId; title: string }
+  | { kind: "set_column_limit"; columnId: ColumnId; wipLimit: WipLimit | null }
+  | {
+      kind: "move_column";
+      columnId: ColumnId;
+      // same convention as move_card: the columns left and right of it
+      beforeColumnId: ColumnId | null;
+      afterColumnId: ColumnId | null;
+    }
+  | {
+      kind: "delete_column";
+      columnId: ColumnId;
+      mode: "move_cards" | "delete_cards";
+    }
+  | { kind: "create_card"; cardId: string; columnId: ColumnId; data: CardInput }
+  | { kind: "update_card"; cardId: string; patch: CardPatch }
+  | { kind: "delete_card"; cardId: string }
+  | {
+      kind: "move_card";
+      cardId: string;
+      toColumnId: ColumnId;
+      beforeCardId: string | null;
+      afterCardId: string | null;
+    }
+  | {
+      // several cards at once, kept together in the given order between
+      // the same neighbours as move_card; one request
+      kind: "move_cards";
+      cardIds: string[];
+      toColumnId: ColumnId;
+      beforeCardId: string | null;
+      afterCardId: string | null;
+    }
+  | {
+      // backlog ranking (BoardState.backlogOrder); the column stays
+      kind: "rank_card";
+      cardId: string;
+      beforeCardId: string | null;
+      afterCardId: string | null;
+    }
+  | { kind: "create_sprint"; sprintId: string; data: SprintInput }
+  | { kind: "update_sprint"; sprintId: string; patch: SprintPatch }
+  | {
+      kind: "complete_sprint";
+      sprintId: string;
+      // where unfinished cards go; null = backlog
+      moveToSprintId: string | null;
+    }
+  | { kind: "create_label"; labelId: string; data: LabelInput }
+  | { kind: "update_label"; labelId: string; patch: LabelPatch }
+  | { kind: "delete_label"; labelId: string };
+
+export type OutboxStatus = "pending" | "failed" | "conflict";
+
+export type OutboxEntry = {
+  id: string;
+  boardId: string;
+  // server BoardState.version the mutation was made against
+  baseVersion: number;
+  mutation: Mutation;
+  status: OutboxStatus;
+  attempts: number;
+  error?: string;
+  createdAt: number;
+};
+
+const STORAGE_OUTBOX = "sb_outbox";
+const STORAGE_BOARD_CACHE = "sb_board_cache";
+
+const TEMP_PREFIX = "tmp_";
+
+export function tempId() {
+  return `${TEMP_PREFIX}${Date.now().toString(36)}${Math.random()
+    .toString(36)
+    .slice(2, 8)}`;
+}
+
+export function isTempId(id: string) {
+  return id.startsWith(TEMP_PREFIX);
+}
+
+// ---------- Persistence ----------
+// Outbox and cache are kept per data source so switching backends never
+// replays one backend's changes against the other. REST ones also per API
+// base and account: whoever signs in next on this browser neither sends nor
+// sees what the last person left queued; it stays parked until they return.
+export function storageScope(
+  kind: DataSourceKind,
+  boardId: string,
+  owner: { apiBase: string; accountId: string | null }
+) {
+  return kind === "rest"
+    ? `${owner.apiBase}|${owner.accountId ?? ""}|${boardId}`
+    : `${kind}:${boardId}`;
+}
+
+export function loadOutbox(scope: string): OutboxEntry[] {
+  try {
+    const raw = localStorage.getItem(`${STORAGE_OUTBOX}:${scope}`);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveOutbox(scope: string, entries: OutboxEntry[]) {
+  const key = `${STORAGE_OUTBOX}:${scope}`;
+  if (entries.length === 0) localStorage.removeItem(key);
+  else localStorage.setItem(key, JSON.stringify(entries));
+}
+
+// last confirmed server state, used to render the board while offline
+export function loadCachedBoard(scope: string): BoardState | null {
+  try {
+    const raw = localStorage.getItem(`${STORAGE_BOARD_CACHE}:${scope}`);
+    return raw ? (JSON.parse(raw) as BoardState) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveCachedBoard(scope: string, state: BoardState) {
+  localStorage.setItem(
+    `${STORAGE_BOARD_CACHE}:${scope}`,
+    JSON.stringify(state)
+  );
+}
+
+export function createEntry(
+  boardId: string,
+  baseVersion: number,
+  mutation: Mutation
+): OutboxEntry {
+  return {
+    id: tempId(),
+    boardId,
+    baseVersion,
+    mutation,
+    status: "pending",
+    attempts: 0,
+    createdAt: Date.now(),
+  };
+}
+
+// ---------- Optimistic apply ----------
+function withoutCard(
+  columnCardIds: Record<ColumnId, string[]>,
+  cardId: string
+): Record<ColumnId, string[]> {
+  const next: Record<ColumnId, string[]> = {};
+  for (const colId of Object.keys(columnCardIds)) {
+    next[colId] = (columnCardIds[colId] || []).filter((id) => id !== cardId);
+  }
+  return next;
+}
+
+export function applyMutation(state: BoardState, m: Mutation): BoardState {
+  switch (m.kind) {
+    case "add_column": {
+      if (state.columns.some((c) => c.id === m.columnId)) return state;
+      const order =
+        state.columns.reduce((max, c) => Math.max(max, c.order ?? 0), 0) + 1;
+      return {
+        ...state,
+        columns: [...state.columns, { id: m.columnId, title: m.title, order }],
+        columnCardIds: { ...state.columnCardIds, [m.columnId]: [] },
+      };
+    }
+
+    case "rename_column":
+      return {
+        ...state,
+        columns: state.columns.map((c) =>
+          c.id === m.columnId ? { ...c, title: m.title } : c
+        ),
+      };
+
+    case "set_column_limit":
+      return {
+        ...state,
+        columns: state.columns.map((c) =>
+          c.id === m.columnId ? { ...c, wipLimit: m.wipLimit } : c
+        ),
+      };
+
+    case "move_column": {
+      const col = state.columns.find((c) => c.id === m.columnId);
+      if (!col) return state;
+      const rest = sortedColumns(state.columns).filter(
+        (c) => c.id !== m.columnId
+      );
+      let index = rest.length;
+      const leftAt = rest.findIndex((c) => c.id === m.beforeColumnId);
+      const rightAt = rest.findIndex((c) => c.id === m.afterColumnId);
+      if (leftAt !== -1) index = leftAt + 1;
+      else if (rightAt !== -1) index = rightAt;
+      return {
+        ...state,
+        columns: insertAt(rest, index, col).map((c, i) =>
+          c.order === i + 1 ? c : { ...c, order: i + 1 }
+        ),
+      };
+    }
+
+    case "delete_column": {
+      if (!state.columns.some((c) => c.id === m.columnId)) return state;
+      const remaining = sortedColumns(state.columns).filter(
+        (c) => c.id !== m.columnId
+      );
+      const orphanIds = state.columnCardIds[m.columnId] || [];
+      const nextMap = { ...state.columnCardIds };
+      delete nextMap[m.columnId];
+      const nextCards = { ...state.cardsById };
+
+      if (m.mode === "move_cards" && remaining.length > 0) {
+        const target = remaining[0].id;
+        nextMap[target] = [...(nextMap[target] || []), ...orphanIds];
+        for (const id of orphanIds) {
+          const c = nextCards[id];
+          if (c) nextCards[id] = { ...c, columnId: target };
+        }
+      } else {
+        for (const id of orphanIds) delete nextCards[id];
+      }
+
+      return {
+        ...state,
+        columns: remaining,
+        cardsById: nextCards,
+        columnCardIds: nextMap,
+      };
+    }
+
+    case "create_card": {
+      if (state.cardsById[m.cardId]) return state;
+      if (!state.columns.some((c) => c.id === m.columnId)) return state;
+      const now = Date.now();
+      const card: Card = {
+        id: m.cardId,
+        columnId: m.columnId,
+        rank: 0,
+        ...m.data,
+        createdAt: now,
+        updatedAt: now,
+      };
+      return boardReducer(state, { type: "addCard", card });
+    }
+
+    case "update_card": {
+      const cur = state.cardsById[m.cardId];
+      if (!cur) return state;
+      return {
+        ...state,
+        cardsById: { ...state.cardsById, [m.cardId]: { ...cur, ...m.patch } },
+      };
+    }
+
+    case "delete_card": {
+      if (!state.cardsById[m.cardId]) return state;
+      return boardReducer(state, { type: "removeCard", cardId: m.cardId });
+    }
+
+    case "move_card": {
+      const cur = state.cardsById[m.cardId];
+      if (!cur) return state;
+      if (!state.columns.some((c) => c.id === m.toColumnId)) return state;
+
+      const nextMap = withoutCard(state.columnCardIds, m.cardId);
+      const list = nextMap[m.toColumnId] || [];
+      let index = list.length;
+      if (m.beforeCardId && list.includes(m.beforeCardId)) {
+        index = list.indexOf(m.beforeCardId) + 1;
+      } else if (m.afterCardId && list.includes(m.afterCardId)) {
+        index = list.indexOf(m.afterCardId);
+      }
+      nextMap[m.toColumnId] = insertAt(list, index, m.cardId);
+
+      return {
+        ...state,
+        cardsById: {
+          ...state.cardsById,
+          [m.cardId]:
+            cur.columnId === m.toColumnId
+              ? cur
+              : { ...cur, columnId: m.toColumnId, movedAt: Date.now() },
+        },
+        columnCardIds: nextMap,
+      };
+    }
+
+    case "move_cards": {
+      if (!state.columns.some((c) => c.id === m.toColumnId)) return state;
+      const ids = m.cardIds.filter((id) => state.cardsById[id]);
+      if (ids.length === 0) return state;
+
+      let nextMap = state.columnCardIds;
+      for (const id of ids) nextMap = withoutCard(nextMap, id);
+      const list = nextMap[m.toColumnId] || [];
+      let index = list.length;
+      if (m.beforeCardId && list.includes(m.beforeCardId)) {
+        index = list.indexOf(m.beforeCardId) + 1;
+      } else if (m.afterCardId && list.includes(m.afterCardId)) {
+        index = list.indexOf(m.afterCardId);
+      }
+
+      const now = Date.now();
+      const nextCards = { ...state.cardsById };
+      for (const id of ids) {
+        const cur = nextCards[id];
+        if (cur.columnId !== m.toColumnId) {
+          nextCards[id] = { ...cur, columnId: m.toColumnId, movedAt: now };
+        }
+      }
+      return {
+        ...state,
+        cardsById: nextCards,
+        columnCardIds: {
+          ...nextMap,
+          [m.toColumnId]: [
+            ...list.slice(0, index),
+            ...ids,
+            ...list.slice(index),
+          ],
+        },
+      };
+    }
+
+    case "rank_card":
+      if (!state.cardsById[m.cardId]) return state;
+      return {
+        ...state,
+        backlogOrder: rankCard(state, m.cardId, m.beforeCardId, m.afterCardId),
+      };
+
+    case "create_sprint": {
+      const sprints = state.sprints || [];
+      if (sprints.some((s) => s.id === m.sprintId)) return state;
+      return {
+        ...state,
+        sprints: [...sprints, { id: m.sprintId, state: "planned", ...m.data }],
+      };
+    }
+
+    case "update_sprint":
+      return {
+        ...state,
+        sprints: (state.sprints || []).map((s) =>
+          s.id === m.sprintId ? { ...s, ...m.patch } : s
+        ),
+      };
+
+    case "complete_sprint": {
+      const doneId = doneColumnId(state.columns);
+      const points = sprintPoints(state, m.sprintId);
+      const nextCards = { ...state.cardsById };
+      for (const c of Object.values(state.cardsById)) {
+        if (c.sprintId === m.sprintId && c.columnId !== doneId) {
+          nextCards[c.id] = { ...c, sprintId: m.moveToSprintId };
+        }
+      }
+      return {
+        ...state,
+        cardsById: nextCards,
+        sprints: (state.sprints || []).map((s) =>
+          s.id === m.sprintId
+            ? {
+                ...s,
+                state: "closed",
+                committedPoints: points.total,
+                completedPoints: points.done,
+              }
+            : s
+        ),
+      };
+    }
+
+    case "create_label": {
+      const labels = state.labels || [];
+      if (labels.some((l) => l.id === m.labelId)) return state;
+      return { ...state, labels: [...labels, { id: m.labelId, ...m.data }] };
+    }
+
+    case "update_label":
+      return {
+        ...state,
+        labels: (state.labels || []).map((l) =>
+          l.id === m.labelId ? { ...l, ...m.patch } : l
+        ),
+      };
+
+    case "delete_label": {
+      const nextCards = { ...state.cardsById };
+      for (const c of Object.values(state.cardsById)) {
+        if (c.labelIds?.includes(m.labelId)) {
+          nextCards[c.id] = {
+            ...c,
+            labelIds: c.labelIds.filter((id) => id !== m.labelId),
+          };
+        }
+      }
+      return {
+        ...state,
+        cardsById: nextCards,
+        labels: (state.labels || []).filter((l) => l.id !== m.labelId),
+      };
+    }
+  }
+}
+
+// server state + everything not yet confirmed (failed entries stay visible
+// until the user retries or discards them)
+export function applyOutbox(
+  state: BoardState,
+  entries: OutboxEntry[]
+): BoardState {
+  return entries.reduce((acc, e) => applyMutation(acc, e.mutation), state);
+}
+
+// neighbours of a card in its current column, as expected by the move endpoint
+export function moveMutationFromSnapshot(
+  snapshot: BoardState,
+  cardId: string
+): Mutation | null {
+  const toColId = findContainerOf(
+    cardId,
+    snapshot.columnCardIds,
+    snapshot.columns
+  );
+  if (!toColId) return null;
+
+  const list = snapshot.columnCardIds[toColId] || [];
+  const idx = list.indexOf(cardId);
+  if (idx === -1) return null;
+
+  return {
+    kind: "move_card",
+    cardId,
+    toColumnId: toColId,
+    beforeCardId: idx > 0 ? list[idx - 1] : null,
+    afterCardId: idx < list.length - 1 ? list[idx + 1] : null,
+  };
+}
+
+// move_cards that gathers the cards (in the given order) where `anchorId`
+// sits in the snapshot, e.g. the card a group drag was dropped with
+export function groupMoveMutation(
+  snapshot: BoardState,
+  anchorId: string,
+  cardIds: string[]
+): Mutation | null {
+  const toColId = findContainerOf(
+    anchorId,
+    snapshot.columnCardIds,
+    snapshot.columns
+  );
+  if (!toColId) return null;
+  const list = snapshot.columnCardIds[toColId] || [];
+  const idx = list.indexOf(anchorId);
+  const others = (ids: string[]) => ids.filter((id) => !cardIds.includes(id));
+
+  return {
+    kind: "move_cards",
+    cardIds,
+    toColumnId: toColId,
+    beforeCardId: others(list.slice(0, idx)).at(-1) ?? null,
+    afterCardId: others(list.slice(idx + 1))[0] ?? null,
+  };
+}
+
+// move_column that puts the column where it sits in `ordered`
+export function moveColumnMutation(
+  ordered: ColumnId[],
+  columnId: ColumnId
+): Mutation | null {
+  const idx = ordered.indexOf(columnId);
+  if (idx === -1) return null;
+  return {
+    kind: "move_column",
+    columnId,
+    beforeColumnId: idx > 0 ? ordered[idx - 1] : null,
+    afterColumnId: idx < ordered.length - 1 ? ordered[idx + 1] : null,
+  };
+}
+
+// ---------- Replay ----------
+export function sendMutation(
+  ds: BoardDataSource,
+  boardId: string,
+  m: Mutation,
+  opts: WriteOptions
+): Promise<WriteResult> {
+  switch (m.kind) {
+    case "add_column":
+      return ds.addColumn(boardId, m.title, opts);
+    case "set_column_limit":
+      return ds.setColumnLimit(boardId, m.columnId, m.wipLimit, opts);
+    case "move_column":
+      return ds.moveColumn(
+        boardId,
+        m.columnId,
+        { beforeColumnId: m.beforeColumnId, afterColumnId: m.afterColumnId },
+        opts
+      );
+    case "rename_column":
+      return ds.renameColumn(boardId, m.columnId, m.title, opts);
+    case "delete_column":
+      return ds.deleteColumn(boardId, m.columnId, m.mode, opts);
+    case "create_card":
+      return ds.createCard(boardId, m.columnId, m.data, opts);
+    case "update_card":
+      return ds.updateCard(boardId, m.cardId, m.patch, opts);
+    case "delete_card":
+      return ds.deleteCard(boardId, m.cardId, opts);
+    case "move_card":
+      return ds.moveCard(
+        boardId,
+        m.cardId,
+        {
+          toColumnId: m.toColumnId,
+          beforeCardId: m.beforeCardId,
+          afterCardId: m.afterCardId,
+        },
+        opts
+      );
+    case "move_cards":
+      return ds.moveCards(
+        boardId,
+        m.cardIds,
+        {
+          toColumnId: m.toColumnId,
+          beforeCardId: m.beforeCardId,
+          afterCardId: m.afterCardId,
+        },
+        opts
+      );
+    case "rank_card":
+      return ds.rankCard(
+        boardId,
+        m.cardId,
+        { beforeCardId: m.beforeCardId, afterCardId: m.afterCardId },
+        opts
+      );
+    case "create_sprint":
+      return ds.createSprint(boardId, m.data, opts);
+    case "update_sprint":
+      return ds.updateSprint(boardId, m.sprintId, m.patch, opts);
+    case "complete_sprint":
+      return ds.completeSprint(boardId, m.sprintId, m.moveToSprintId, opts);
+    case "create_label":
+      return ds.createLabel(boardId, m.data, opts);
+    case "update_label":
+      return ds.updateLabel(boardId, m.labelId, m.patch, opts);
+    case "delete_label":
+      return ds.deleteLabel(boardId, m.labelId, opts);
+  }
+}
+
+// temporary id of the card/column/sprint a mutation creates, if any
+export function createdTempId(m: Mutation) {
+  const id =
+    m.kind === "create_card"
+      ? m.cardId
+      : m.kind === "add_column"
+        ? m.columnId
+        : m.kind === "create_sprint"
+          ? m.sprintId
+          : m.kind === "create_label"
+            ? m.labelId
+            : null;
+  return id && isTempId(id) ? id : null;
+}
+
+// ids a card refers to: its sprint, labels and epic
+function remapCardFields<T extends CardPatch>(
+  data: T,
+  swap: (id: string) => string
+): T {
+  let out = data;
+  if (out.sprintId) out = { ...out, sprintId: swap(out.sprintId) };
+  if (out.labelIds) out = { ...out, labelIds: out.labelIds.map(swap) };
+  if (out.epicId) out = { ...out, epicId: swap(out.epicId) };
+  return out;
+}
+
+export function remapMutation(m: Mutation, from: string, to: string): Mutation {
+  const swap = (id: string) => (id === from ? to : id);
+  const swapNullable = (id: string | null) => (id === from ? to : id);
+
+  switch (m.kind) {
+    case "add_column":
+    case "rename_column":
+    case "set_column_limit":
+    case "delete_column":
+      return { ...m, columnId: swap(m.columnId) };
+    case "move_column":
+      return {
+        ...m,
+        columnId: swap(m.columnId),
+        beforeColumnId: swapNullable(m.beforeColumnId),
+        afterColumnId: swapNullable(m.afterColumnId),
+      };
+    case "create_card":
+      return {
+        ...m,
+        cardId: swap(m.cardId),
+        columnId: swap(m.columnId),
+        data: remapCardFields(m.data, swap),
+      };
+    case "update_card":
+      return {
+        ...m,
+        cardId: swap(m.cardId),
+        patch: remapCardFields(m.patch, swap),
+      };
+    case "delete_card":
+      return { ...m, cardId: swap(m.cardId) };
+    case "move_card":
+      return {
+        ...m,
+        cardId: swap(m.cardId),
+        toColumnId: swap(m.toColumnId),
+        beforeCardId: swapNullable(m.beforeCardId),
+        afterCardId: swapNullable(m.afterCardId),
+      };
+    case "move_cards":
+      return {
+        ...m,
+        cardIds: m.cardIds.map(swap),
+        toColumnId: swap(m.toColumnId),
+        beforeCardId: swapNullable(m.beforeCardId),
+        afterCardId: swapNullable(m.afterCardId),
+      };
+    case "rank_card":
+      return {
+        ...m,
+        cardId: swap(m.cardId),
+        beforeCardId: swapNullable(m.beforeCardId),
+        afterCardId: swapNullable(m.afterCardId),
+      };
+    case "create_sprint":
+    case "update_sprint":
+      return { ...m, sprintId: swap(m.sprintId) };
+    case "complete_sprint":
+      return {
+        ...m,
+        sprintId: swap(m.sprintId),
+        moveToSprintId: swapNullable(m.moveToSprintId),
+      };
+    case "create_label":
+    case "update_label":
+    case "delete_label":
+      return { ...m, labelId: swap(m.labelId) };
+  }
+}
+
+// replace a temporary id with the server-issued one in the remaining queue
+export function remapEntries(
+  entries: OutboxEntry[],
+  from: string,
+  to: string
+): OutboxEntry[] {
+  return entries.map((e) => ({
+    ...e,
+    mutation: remapMutation(e.mutation, from, to),
+  }));
+}
+
+// Board version after a write was accepted. Falls back to base + 1 when the
+// backend does not report it (each accepted write bumps the version once).
+export function versionAfterWrite(result: WriteResult, baseVersion: number) {
+  return result.version ?? baseVersion + 1;
+}
+
+// Server state once an entry was accepted: its mutation applied with the id
+// the server issued, at the version the write produced. The rendered board
+// (server + remaining queue) keeps the change instead of losing it until the
+// next reload.
+export function confirmEntry(
+  state: BoardState,
+  entry: OutboxEntry,
+  result: WriteResult
+): BoardState {
+  const localId = createdTempId(entry.mutation);
+  const mutation =
+    result.id && localId
+      ? remapMutation(entry.mutation, localId, result.id)
+      : entry.mutation;
+  return {
+    ...applyMutation(state, mutation),
+    version: versionAfterWrite(result, entry.baseVersion),
+  };
+}
+
+// Queued writes made on top of one we just synced were based on our own
+// change, not on someone else's, so move them to the new version.
+export function rebaseEntries(
+  entries: OutboxEntry[],
+  fromVersion: number,
+  toVersion: number
+): OutboxEntry[] {
+  return entries.map((e) =>
+    e.baseVersion === fromVersion ? { ...e, baseVersion: toVersion } : e
+  );
+}
+
+// ---------- UI helpers ----------
+function cardIdsOf(m: Mutation): string[] {
+  switch (m.kind) {
+    case "create_card":
+    case "update_card":
+    case "move_card":
+    case "rank_card":
+      return [m.cardId];
+    case "move_cards":
+      return m.cardIds;
+    default:
+      return [];
+  }
+}
+
+const STATUS_WEIGHT: Record<OutboxStatus, number> = {
+  pending: 0,
+  failed: 1,
+  conflict: 2,
+};
+
+// per-card sync status; conflict > failed > pending
+export function cardSyncStatus(
+  entries: OutboxEntry[]
+): Record<string, OutboxStatus> {
+  const out: Record<string, OutboxStatus> = {};
+  for (const e of entries) {
+    for (const id of cardIdsOf(e.mutation)) {
+      const cur = out[id];
+      if (!cur || STATUS_WEIGHT[e.status] > STATUS_WEIGHT[cur]) {
+        out[id] = e.status;
+      }
+    }
+  }
+  return out;
+}
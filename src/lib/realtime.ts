@@ -0,0 +1,409 @@
+import { getApiBase } from "./api";
+import { getAccessToken } from "./auth";
+import { insertAt, removeFrom, sortedColumns } from "./board";
+import type {
+  BoardState,
+  Card,
+  Column,
+  ColumnId,
+  Label,
+  Sprint,
+} from "./types";
+import { arrayOf, boardStateSchema, cardSchema, str } from "./validate";
+
+// Live board updates pushed by the backend on /boards/:boardId/events.
+// WebSocket first; if the socket can't be opened at all we fall back to
+// Server-Sent Events on the same path. Neither can send headers, so the access
+// token goes in the query string. Every event carries the board version it
+// produced so we can drop echoes and detect gaps.
+
+type ColumnOrder = Record<ColumnId, string[]>;
+
+export type BoardEvent = { boardId: string; version: number } & (
+  | { type: "card.created"; card: Card; order?: ColumnOrder }
+  | { type: "card.updated"; card: Card }
+  | { type: "card.moved"; card: Card; order?: ColumnOrder }
+  // a batch move; order has the final lists of the columns involved
+  | { type: "cards.moved"; cards: Card[]; order?: ColumnOrder }
+  | { type: "card.deleted"; cardId: string }
+  | { type: "backlog.ranked"; backlogOrder: string[] }
+  | { type: "column.created"; column: Column }
+  | { type: "column.updated"; column: Column }
+  // reordered: every column with its new order
+  | { type: "column.moved"; columns: Column[] }
+  | {
+      type: "column.deleted";
+      columnId: ColumnId;
+      // set when the cards were moved instead of deleted
+      movedTo?: ColumnId;
+      order?: ColumnOrder;
+    }
+  | { type: "sprint.created"; sprint: Sprint }
+  | { type: "sprint.updated"; sprint: Sprint }
+  | { type: "label.created"; label: Label }
+  | { type: "label.updated"; label: Label }
+  | { type: "label.deleted"; labelId: string }
+  | { type: "board.reset"; state?: BoardState }
+);
+
+export type LiveStatus = "connecting" | "live" | "offline";
+
+const RECONNECT_MIN_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+// WebSocket opens that must fail in a row before falling back to SSE, and how
+// long the stream runs before a WebSocket is tried again
+const WS_FAILURES_BEFORE_SSE = 3;
+const WS_RETRY_MS = 5 * 60 * 1000;
+
+function placeCard(state: BoardState, card: Card, order?: ColumnOrder) {
+  const nextMap: ColumnOrder = {};
+  for (const colId of Object.keys(state.columnCardIds)) {
+    nextMap[colId] = removeFrom(state.columnCardIds[colId] || [], card.id);
+  }
+  if (order && order[card.columnId]) {
+    Object.assign(nextMap, order);
+  } else {
+    const list = nextMap[card.columnId] || [];
+    nextMap[card.columnId] = insertAt(list, list.length, card.id);
+  }
+  return {
+    ...state,
+    cardsById: { ...state.cardsById, [card.id]: card },
+    columnCardIds: nextMap,
+  };
+}
+
+// Patches the board with one event. Returns the same object for events we
+// have already seen and null when we missed some and must reload.
+export function applyBoardEvent(
+  state: BoardState,
+  ev: BoardEvent
+): BoardState | null {
+  if (ev.boardId !== state.boardId) return state;
+  if (ev.version <= state.version) return state;
+  if (ev.version > state.version + 1) return null;
+
+  const version = ev.version;
+
+  switch (ev.type) {
+    case "card.created":
+    case "card.moved":
+      return { ...placeCard(state, ev.card, ev.order), version };
+
+    case "cards.moved":
+      return {
+        ...ev.cards.reduce((acc, c) => placeCard(acc, c, ev.order), state),
+        version,
+      };
+
+    case "backlog.ranked":
+      return { ...state, version, backlogOrder: ev.backlogOrder };
+
+    case "card.updated": {
+      const cur = state.cardsById[ev.card.id];
+      if (!cur) return null;
+      // content edit only: the column/rank come with card.moved
+      return {
+        ...state,
+        version,
+        cardsById: {
+          ...state.cardsById,
+          [ev.card.id]: { ...ev.card, columnId: cur.columnId },
+        },
+      };
+    }
+
+    case "card.deleted": {
+      const nextCards = { ...state.cardsById };
+      delete nextCards[ev.cardId];
+      const nextMap: ColumnOrder = {};
+      for (const colId of Object.keys(state.columnCardIds)) {
+        nextMap[colId] = removeFrom(
+          state.columnCardIds[colId] || [],
+          ev.cardId
+        );
+      }
+      return {
+        ...state,
+        version,
+        cardsById: nextCards,
+        columnCardIds: nextMap,
+      };
+    }
+
+    case "column.created":
+    case "column.updated": {
+      const exists = state.columns.some((c) => c.id === ev.column.id);
+      return {
+        ...state,
+        version,
+        columns: exists
+          ? state.columns.map((c) => (c.id === ev.column.id ? ev.column : c))
+          : [...state.columns, ev.column],
+        columnCardIds: exists
+          ? state.columnCardIds
+          : { ...state.columnCardIds, [ev.column.id]: [] },
+      };
+    }
+
+    case "column.moved":
+      return { ...state, version, columns: ev.columns };
+
+    case "column.deleted": {
+      const orphanIds = state.columnCardIds[ev.columnId] || [];
+      const nextMap = { ...state.columnCardIds };
+      delete nextMap[ev.columnId];
+      const nextCards = { ...state.cardsById };
+
+      if (ev.movedTo) {
+        nextMap[ev.movedTo] = [...(nextMap[ev.movedTo] || []), ...orphanIds];
+        for (const id of orphanIds) {
+          const c = nextCards[id];
+          if (c) nextCards[id] = { ...c, columnId: ev.movedTo };
+        }
+      } else {
+        for (const id of orphanIds) delete nextCards[id];
+      }
+
+      return {
+        ...state,
+        version,
+        columns: sortedColumns(state.columns).filter(
+          (c) => c.id !== ev.columnId
+        ),
+        cardsById: nextCards,
+        columnCardIds: { ...nextMap, ...ev.order },
+      };
+    }
+
+    case "sprint.created":
+    case "sprint.updated": {
+      const sprints = state.sprints || [];
+      const exists = sprints.some((s) => s.id === ev.sprint.id);
+      return {
+        ...state,
+        version,
+        sprints: exists
+          ? sprints.map((s) => (s.id === ev.sprint.id ? ev.sprint : s))
+          : [...sprints, ev.sprint],
+      };
+    }
+
+    case "label.created":
+    case "label.updated": {
+      const labels = state.labels || [];
+      const exists = labels.some((l) => l.id === ev.label.id);
+      return {
+        ...state,
+        version,
+        labels: exists
+          ? labels.map((l) => (l.id === ev.label.id ? ev.label : l))
+          : [...labels, ev.label],
+      };
+    }
+
+    case "label.deleted": {
+      // the server drops the label from its cards without separate events
+      const nextCards = { ...state.cardsById };
+      for (const c of Object.values(state.cardsById)) {
+        if (c.labelIds?.includes(ev.labelId)) {
+          nextCards[c.id] = {
+            ...c,
+            labelIds: c.labelIds.filter((id) => id !== ev.labelId),
+          };
+        }
+      }
+      return {
+        ...state,
+        version,
+        cardsById: nextCards,
+        labels: (state.labels || []).filter((l) => l.id !== ev.labelId),
+      };
+    }
+
+    case "board.reset":
+      return ev.state ?? null;
+
+    default:
+      // unknown event type from a newer backend
+      return null;
+  }
+}
+
+function parseEvent(raw: unknown): BoardEvent | null {
+  try {
+    const ev = typeof raw === "string" ? JSON.parse(raw) : null;
+    if (!ev || typeof ev.type !== "string") return null;
+    if (typeof ev.version !== "number") return null;
+    // payloads that go straight into the board must be well formed; a bad
+    // one is dropped and the next reload brings the real state
+    if (
+      ev.type === "card.created" ||
+      ev.type === "card.updated" ||
+      ev.type === "card.moved"
+    ) {
+      ev.card = cardSchema(ev.card, "card");
+    }
+    if (ev.type === "cards.moved") {
+      ev.cards = arrayOf(cardSchema)(ev.cards, "cards");
+    }
+    if (ev.type === "backlog.ranked") {
+      ev.backlogOrder = arrayOf(str)(ev.backlogOrder, "backlogOrder");
+    }
+    if (ev.type === "board.reset" && ev.state !== undefined) {
+      ev.state = boardStateSchema(ev.state, "state");
+    }
+    return ev as BoardEvent;
+  } catch {
+    return null;
+  }
+}
+
+// Opens the live channel and keeps it open with exponential backoff.
+// onOpen fires on every (re)connect so the caller can reload whatever it
+// missed while disconnected. Returns a function that closes the channel.
+export function subscribeBoard(options: {
+  boardId: string;
+  onEvent: (ev: BoardEvent) => void;
+  onOpen?: () => void;
+  onStatus?: (status: LiveStatus) => void;
+}) {
+  const base = getApiBase();
+  const path = `/boards/${encodeURIComponent(options.boardId)}/events`;
+
+  let closed = false;
+  let attempt = 0;
+  let timer: number | undefined;
+  // SSE after a few WebSocket opens failed in a row, until one works again
+  let useSse = typeof WebSocket === "undefined";
+  let wsFailures = 0;
+  let wsRetryTimer: number | undefined;
+  let socket: WebSocket | null = null;
+  let probe: WebSocket | null = null;
+  let source: EventSource | null = null;
+
+  const emit = (raw: unknown) => {
+    const ev = parseEvent(raw);
+    if (ev) options.onEvent(ev);
+  };
+
+  function opened() {
+    attempt = 0;
+    options.onStatus?.("live");
+    options.onOpen?.();
+  }
+
+  function scheduleReconnect() {
+    if (closed) return;
+    options.onStatus?.("offline");
+    const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_MIN_MS * 2 ** attempt);
+    attempt += 1;
+    // jitter so a restarted backend isn't hit by every client at once
+    timer = window.setTimeout(
+      () => void connect(),
+      delay / 2 + Math.random() * (delay / 2)
+    );
+  }
+
+  // fetched per attempt: the token may have been refreshed meanwhile
+  async function tokenQuery() {
+    const token = await getAccessToken(base);
+    return token ? `?access_token=${encodeURIComponent(token)}` : "";
+  }
+
+  function wsUrl(query: string) {
+    return `${base.replace(/^http/, "ws")}${path}${query}`;
+  }
+
+  function connectSse(query: string) {
+    const es = new EventSource(`${base}${path}${query}`);
+    source = es;
+    es.onopen = opened;
+    es.onmessage = (msg) => emit(msg.data);
+    es.onerror = () => {
+      // take over reconnecting from the browser to apply our backoff
+      es.close();
+      if (source === es) source = null;
+      scheduleReconnect();
+    };
+  }
+
+  // an open socket is the live channel until it closes
+  function takeSocket(ws: WebSocket) {
+    socket = ws;
+    wsFailures = 0;
+    ws.onmessage = (msg) => emit(msg.data);
+    ws.onclose = () => {
+      if (socket === ws) socket = null;
+      scheduleReconnect();
+    };
+    opened();
+  }
+
+  function connectWs(query: string) {
+    const ws = new WebSocket(wsUrl(query));
+    socket = ws;
+    ws.onopen = () => takeSocket(ws);
+    // closed before it opened
+    ws.onclose = () => {
+      if (socket === ws) socket = null;
+      if (closed) return;
+      wsFailures += 1;
+      if (wsFailures >= WS_FAILURES_BEFORE_SSE) {
+        useSse = true;
+        retryWsLater();
+      }
+      scheduleReconnect();
+    };
+  }
+
+  function retryWsLater() {
+    window.clearTimeout(wsRetryTimer);
+    wsRetryTimer = window.setTimeout(() => void probeWs(), WS_RETRY_MS);
+  }
+
+  // On SSE: try a WebSocket next to the running stream and move over to it
+  // once it opens, so the fallback doesn't last for the whole session.
+  async function probeWs() {
+    const query = await tokenQuery();
+    if (closed || !useSse) return;
+    const ws = new WebSocket(wsUrl(query));
+    probe = ws;
+    ws.onopen = () => {
+      probe = null;
+      if (closed) return ws.close();
+      useSse = false;
+      window.clearTimeout(timer);
+      const es = source;
+      source = null;
+      es?.close();
+      takeSocket(ws);
+    };
+    ws.onclose = () => {
+      if (probe !== ws) return;
+      probe = null;
+      if (!closed) retryWsLater();
+    };
+  }
+
+  async function connect() {
+    if (closed) return;
+    options.onStatus?.("connecting");
+    const query = await tokenQuery();
+    // a probe may have taken over while the token was fetched
+    if (closed || socket) return;
+    if (useSse) connectSse(query);
+    else connectWs(query);
+  }
+
+  void connect();
+
+  return () => {
+    closed = true;
+    window.clearTimeout(timer);
+    window.clearTimeout(wsRetryTimer);
+    socket?.close();
+    probe?.close();
+    source?.close();
+  };
+}
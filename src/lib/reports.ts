@@ -0,0 +1,116 @@
+import { doneColumnId, inSprintView, sortedColumns } from "./board";
+import type { BoardState, ColumnId, Sprint } from "./types";
+
+// Numbers behind the reports view. All derived from the board itself: a card
+// counts as finished once it sits in the last column, at the time it last
+// changed column (movedAt, falling back to updatedAt).
+
+export type ColumnTotal = {
+  columnId: ColumnId;
+  title: string;
+  cards: number;
+  points: number;
+};
+
+export type BurndownPoint = {
+  // YYYY-MM-DD
+  date: string;
+  ideal: number;
+  // null for days that have not happened yet
+  remaining: number | null;
+};
+
+export type VelocityPoint = {
+  sprintId: string;
+  name: string;
+  committed: number;
+  completed: number;
+};
+
+const DAY_MS = 86400000;
+
+function parseDate(date: string) {
+  return new Date(`${date}T00:00:00`);
+}
+
+function formatDate(d: Date) {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+export function columnTotals(board: BoardState, view: string): ColumnTotal[] {
+  return sortedColumns(board.columns).map((col) => {
+    const cards = (board.columnCardIds[col.id] || [])
+      .map((id) => board.cardsById[id])
+      .filter((c) => c && inSprintView(c, view));
+    return {
+      columnId: col.id,
+      title: col.title,
+      cards: cards.length,
+      points: cards.reduce((sum, c) => sum + (c.points || 0), 0),
+    };
+  });
+}
+
+// Remaining points at the end of each sprint day. Cards finished before the
+// sprint started (or without timestamps) count as done from day one.
+export function burndown(
+  board: BoardState,
+  sprint: Sprint,
+  now = Date.now()
+): BurndownPoint[] {
+  const doneId = doneColumnId(board.columns);
+  const cards = Object.values(board.cardsById).filter(
+    (c) => c.sprintId === sprint.id
+  );
+  const total = cards.reduce((sum, c) => sum + (c.points || 0), 0);
+  const finished = cards
+    .filter((c) => c.columnId === doneId)
+    .map((c) => ({ at: c.movedAt ?? c.updatedAt ?? 0, points: c.points || 0 }));
+
+  const days: string[] = [];
+  const end = parseDate(sprint.endDate);
+  for (
+    let d = parseDate(sprint.startDate);
+    d <= end;
+    d = new Date(d.getFullYear(), d.getMonth(), d.getDate() + 1)
+  ) {
+    days.push(formatDate(d));
+  }
+
+  const span = Math.max(1, days.length - 1);
+  return days.map((date, i) => {
+    const dayEnd = parseDate(date).getTime() + DAY_MS;
+    const started = dayEnd - DAY_MS <= now;
+    const done = finished
+      .filter((f) => f.at < dayEnd)
+      .reduce((sum, f) => sum + f.points, 0);
+    return {
+      date,
+      ideal: Math.round((total * (span - i) * 10) / span) / 10,
+      remaining: started ? total - done : null,
+    };
+  });
+}
+
+// Completed sprints in date order. Committed points are only known when the
+// sprint was closed by this app (or a backend that records them).
+export function velocity(board: BoardState): VelocityPoint[] {
+  const doneId = doneColumnId(board.columns);
+  return (board.sprints || [])
+    .filter((s) => s.state === "closed")
+    .sort((a, b) => a.startDate.localeCompare(b.startDate))
+    .map((s) => {
+      const completed =
+        s.completedPoints ??
+        Object.values(board.cardsById)
+          .filter((c) => c.sprintId === s.id && c.columnId === doneId)
+          .reduce((sum, c) => sum + (c.points || 0), 0);
+      return {
+        sprintId: s.id,
+        name: s.name,
+        committed: s.committedPoints ?? completed,
+        completed,
+      };
+    });
+}
@@ -0,0 +1,237 @@
+import { apiFetch } from "./api";
+import { DEFAULT_COLUMN_TITLES } from "./board";
+import type { BoardDataSource, WriteOptions, WriteResult } from "./dataSource";
+import { subscribeBoard } from "./realtime";
+import {
+  activitySchema,
+  arrayOf,
+  boardStateSchema,
+  boardSummarySchema,
+  commentSchema,
+  memberSchema,
+  object,
+  optional,
+  writeResponseSchema,
+  type WriteResponse,
+} from "./validate";
+
+// a URL path with every interpolated id encoded: path`/boards/${boardId}`
+function path(strings: TemplateStringsArray, ...ids: string[]) {
+  return strings.reduce(
+    (out, s, i) => out + encodeURIComponent(ids[i - 1]) + s
+  );
+}
+
+// Normalizes the mutation responses of the API ({ ok, version?, card?, column? }).
+function toWriteResult(r: WriteResponse): WriteResult {
+  const version = r.version ?? r.state?.version;
+  const id = (r.card ?? r.column ?? r.sprint ?? r.label)?.id;
+  return { version, id };
+}
+
+const boardsResponse = object({
+  boards: optional(arrayOf(boardSummarySchema)),
+});
+const boardResponse = object({ board: boardSummarySchema });
+const stateResponse = object({ state: boardStateSchema });
+const membersResponse = object({ members: optional(arrayOf(memberSchema)) });
+const commentsResponse = object({
+  comments: optional(arrayOf(commentSchema)),
+});
+const commentResponse = object({ comment: commentSchema });
+const activityResponse = object({
+  activity: optional(arrayOf(activitySchema)),
+});
+
+export function createRestDataSource(): BoardDataSource {
+  async function write(
+    path: string,
+    method: string,
+    body: unknown,
+    opts?: WriteOptions
+  ) {
+    const res = await apiFetch(path, {
+      method,
+      body,
+      ifMatch: opts?.baseVersion,
+      parse: writeResponseSchema,
+      // the outbox retries writes itself, with the current base version
+      retries: 0,
+    });
+    return toWriteResult(res);
+  }
+
+  return {
+    kind: "rest",
+
+    async listBoards() {
+      const r = await apiFetch(`/boards`, { parse: boardsResponse });
+      return r.boards || [];
+    },
+
+    async createBoard(name) {
+      const r = await apiFetch(`/boards`, {
+        method: "POST",
+        parse: boardResponse,
+        body: { name, columns: DEFAULT_COLUMN_TITLES },
+      });
+      return r.board;
+    },
+
+    async renameBoard(boardId, name) {
+      await apiFetch(path`/boards/${boardId}`, {
+        method: "PATCH",
+        body: { name },
+      });
+    },
+
+    async archiveBoard(boardId, archived) {
+      await apiFetch(path`/boards/${boardId}`, {
+        method: "PATCH",
+        body: { archived },
+      });
+    },
+
+    async loadBoard(boardId) {
+      const r = await apiFetch(path`/boards/${boardId}`, {
+        parse: stateResponse,
+      });
+      return r.state;
+    },
+
+    async listMembers() {
+      const r = await apiFetch(`/account/members`, { parse: membersResponse });
+      return r.members || [];
+    },
+
+    addColumn: (boardId, title, opts) =>
+      write(path`/boards/${boardId}/columns`, "POST", { title }, opts),
+
+    renameColumn: (boardId, columnId, title, opts) =>
+      write(
+        path`/boards/${boardId}/columns/${columnId}`,
+        "PATCH",
+        { title },
+        opts
+      ),
+
+    setColumnLimit: (boardId, columnId, wipLimit, opts) =>
+      write(
+        path`/boards/${boardId}/columns/${columnId}`,
+        "PATCH",
+        { wipLimit },
+        opts
+      ),
+
+    moveColumn: (boardId, columnId, to, opts) =>
+      write(
+        path`/boards/${boardId}/columns/${columnId}/move`,
+        "POST",
+        to,
+        opts
+      ),
+
+    deleteColumn: (boardId, columnId, mode, opts) =>
+      write(
+        path`/boards/${boardId}/columns/${columnId}?mode=${mode}`,
+        "DELETE",
+        undefined,
+        opts
+      ),
+
+    createCard: (boardId, columnId, data, opts) =>
+      write(
+        path`/boards/${boardId}/cards`,
+        "POST",
+        { columnId, ...data },
+        opts
+      ),
+
+    updateCard: (boardId, cardId, patch, opts) =>
+      write(path`/boards/${boardId}/cards/${cardId}`, "PATCH", patch, opts),
+
+    deleteCard: (boardId, cardId, opts) =>
+      write(
+        path`/boards/${boardId}/cards/${cardId}`,
+        "DELETE",
+        undefined,
+        opts
+      ),
+
+    moveCard: (boardId, cardId, to, opts) =>
+      write(path`/boards/${boardId}/cards/${cardId}/move`, "POST", to, opts),
+
+    rankCard: (boardId, cardId, to, opts) =>
+      write(path`/boards/${boardId}/cards/${cardId}/rank`, "POST", to, opts),
+
+    moveCards: (boardId, cardIds, to, opts) =>
+      write(
+        path`/boards/${boardId}/cards/move`,
+        "POST",
+        { cardIds, ...to },
+        opts
+      ),
+
+    createSprint: (boardId, data, opts) =>
+      write(path`/boards/${boardId}/sprints`, "POST", data, opts),
+
+    updateSprint: (boardId, sprintId, patch, opts) =>
+      write(path`/boards/${boardId}/sprints/${sprintId}`, "PATCH", patch, opts),
+
+    completeSprint: (boardId, sprintId, moveToSprintId, opts) =>
+      write(
+        path`/boards/${boardId}/sprints/${sprintId}/complete`,
+        "POST",
+        { moveToSprintId },
+        opts
+      ),
+
+    createLabel: (boardId, data, opts) =>
+      write(path`/boards/${boardId}/labels`, "POST", data, opts),
+
+    updateLabel: (boardId, labelId, patch, opts) =>
+      write(path`/boards/${boardId}/labels/${labelId}`, "PATCH", patch, opts),
+
+    deleteLabel: (boardId, labelId, opts) =>
+      write(
+        path`/boards/${boardId}/labels/${labelId}`,
+        "DELETE",
+        undefined,
+        opts
+      ),
+
+    async listComments(boardId, cardId) {
+      const r = await apiFetch(
+        path`/boards/${boardId}/cards/${cardId}/comments`,
+        {
+          parse: commentsResponse,
+        }
+      );
+      return r.comments || [];
+    },
+
+    async addComment(boardId, cardId, data) {
+      const r = await apiFetch(
+        path`/boards/${boardId}/cards/${cardId}/comments`,
+        {
+          method: "POST",
+          body: data,
+          parse: commentResponse,
+        }
+      );
+      return r.comment;
+    },
+
+    async listActivity(boardId, cardId) {
+      const r = await apiFetch(
+        path`/boards/${boardId}/cards/${cardId}/activity`,
+        {
+          parse: activityResponse,
+        }
+      );
+      return r.activity || [];
+    },
+
+    subscribe: (boardId, handlers) => subscribeBoard({ boardId, ...handlers }),
+  };
+}
@@ -0,0 +1,88 @@
+import { useEffect, useState } from "react";
+import type { MessageKey } from "./i18n";
+
+// Minimal history-based routing; the app only has a handful of URLs.
+//   /                        -> last opened board
+//   /boards/:boardId         -> that board
+//   /boards/:boardId/backlog -> ranked backlog and sprint planning
+//   /boards/:boardId/reports -> its point totals, burndown and velocity
+//   /boards/:boardId/cards/:cardId -> the board with that card's details open
+//   /login?next=...          -> sign-in page
+//   /settings                -> environment profiles (API base)
+//   /auth/callback           -> OIDC redirect target
+
+export type BoardView = "board" | "backlog" | "reports";
+
+export const BOARD_VIEWS: BoardView[] = ["board", "backlog", "reports"];
+
+export const VIEW_LABELS: Record<BoardView, MessageKey> = {
+  board: "view.board",
+  backlog: "view.backlog",
+  reports: "view.reports",
+};
+
+export type Route =
+  | { name: "home" }
+  | { name: "board"; boardId: string; view: BoardView; cardId?: string }
+  | { name: "login" }
+  | { name: "settings" }
+  | { name: "auth_callback" };
+
+export function parseRoute(pathname: string): Route {
+  const m = pathname.match(/^\/boards\/([^/]+)(?:\/(backlog|reports))?\/?$/);
+  if (m) {
+    return {
+      name: "board",
+      boardId: decodeURIComponent(m[1]),
+      view: (m[2] as BoardView | undefined) ?? "board",
+    };
+  }
+  const card = pathname.match(/^\/boards\/([^/]+)\/cards\/([^/]+)\/?$/);
+  if (card) {
+    return {
+      name: "board",
+      boardId: decodeURIComponent(card[1]),
+      view: "board",
+      cardId: decodeURIComponent(card[2]),
+    };
+  }
+  if (pathname === "/login") return { name: "login" };
+  if (pathname === "/settings") return { name: "settings" };
+  if (pathname === "/auth/callback") return { name: "auth_callback" };
+  return { name: "home" };
+}
+
+export function boardPath(boardId: string, view: BoardView = "board") {
+  const base = `/boards/${encodeURIComponent(boardId)}`;
+  return view === "board" ? base : `${base}/${view}`;
+}
+
+export function cardPath(boardId: string, cardId: string) {
+  return `${boardPath(boardId)}/cards/${encodeURIComponent(cardId)}`;
+}
+
+const NAVIGATE_EVENT = "sb:navigate";
+
+export function navigate(path: string, opts: { replace?: boolean } = {}) {
+  if (opts.replace) window.history.replaceState(null, "", path);
+  else window.history.pushState(null, "", path);
+  window.dispatchEvent(new Event(NAVIGATE_EVENT));
+}
+
+export function useRoute(): Route {
+  const [route, setRoute] = useState(() =>
+    parseRoute(window.location.pathname)
+  );
+
+  useEffect(() => {
+    const update = () => setRoute(parseRoute(window.location.pathname));
+    window.addEventListener("popstate", update);
+    window.addEventListener(NAVIGATE_EVENT, update);
+    return () => {
+      window.removeEventListener("popstate", update);
+      window.removeEventListener(NAVIGATE_EVENT, update);
+    };
+  }, []);
+
+  return route;
+}
@@ -0,0 +1,144 @@
+import { CARD_PRIORITIES } from "./board";
+import { t, type MessageKey } from "./i18n";
+import type {
+  BoardState,
+  Card,
+  CardPatch,
+  CardPriority,
+  Member,
+} from "./types";
+
+// Swimlanes split every column into rows by one card field. A card sits in
+// exactly one lane (the first assignee when it has several); dropping it in
+// another lane rewrites that field.
+
+export type SwimlaneKey = "none" | "assignee" | "priority" | "epic";
+
+export const SWIMLANE_KEYS: SwimlaneKey[] = [
+  "none",
+  "assignee",
+  "priority",
+  "epic",
+];
+
+export const SWIMLANE_LABELS: Record<SwimlaneKey, MessageKey> = {
+  none: "lanes.none",
+  assignee: "lanes.assignee",
+  priority: "lanes.priority",
+  epic: "lanes.epic",
+};
+
+export type Lane = {
+  // field value; "" for cards without one
+  id: string;
+  title: string;
+};
+
+// lane of cards without a value
+export const NO_LANE = "";
+
+const STORAGE_SWIMLANES = "sb_swimlanes";
+
+export function loadSwimlaneKey(): SwimlaneKey {
+  const v = localStorage.getItem(STORAGE_SWIMLANES);
+  return SWIMLANE_KEYS.includes(v as SwimlaneKey) ? (v as SwimlaneKey) : "none";
+}
+
+export function saveSwimlaneKey(key: SwimlaneKey) {
+  localStorage.setItem(STORAGE_SWIMLANES, key);
+}
+
+export function laneOf(board: BoardState, card: Card, key: SwimlaneKey) {
+  switch (key) {
+    case "assignee":
+      return card.assigneeIds?.[0] ?? NO_LANE;
+    case "priority":
+      return card.priority ?? NO_LANE;
+    case "epic":
+      // an epic that was deleted no longer groups anything
+      return card.epicId && board.cardsById[card.epicId]
+        ? card.epicId
+        : NO_LANE;
+    case "none":
+      return NO_LANE;
+  }
+}
+
+// Every member and priority gets a lane so cards can be dropped into an
+// empty one; epics only when some card belongs to them. The lane for cards
+// without a value comes last.
+export function boardLanes(
+  board: BoardState,
+  key: SwimlaneKey,
+  members: Member[]
+): Lane[] {
+  switch (key) {
+    case "assignee": {
+      const lanes = members.map((m) => ({ id: m.id, title: m.name }));
+      // assignees who are no longer members still get their cards shown
+      for (const c of Object.values(board.cardsById)) {
+        const id = laneOf(board, c, key);
+        if (id && !lanes.some((l) => l.id === id))
+          lanes.push({ id, title: id });
+      }
+      return [...lanes, { id: NO_LANE, title: t("lanes.unassigned") }];
+    }
+    case "priority":
+      return [
+        ...CARD_PRIORITIES.slice()
+          .reverse()
+          .map((p) => ({ id: p, title: t(`priority.${p}`) })),
+        { id: NO_LANE, title: t("lanes.noPriority") },
+      ];
+    case "epic": {
+      const ids = new Set(
+        Object.values(board.cardsById)
+          .map((c) => laneOf(board, c, key))
+          .filter(Boolean)
+      );
+      return [
+        ...[...ids]
+          .map((id) => ({
+            id,
+            title: board.cardsById[id].title || t("card.untitled"),
+          }))
+          .sort((a, b) => a.title.localeCompare(b.title)),
+        { id: NO_LANE, title: t("lanes.noEpic") },
+      ];
+    }
+    case "none":
+      return [{ id: NO_LANE, title: "" }];
+  }
+}
+
+// Update that puts the card into the lane; null when it is already there.
+// For assignees the lane's member becomes the first one and the others stay.
+export function lanePatch(
+  board: BoardState,
+  card: Card,
+  key: SwimlaneKey,
+  laneId: string
+): CardPatch | null {
+  if (key === "none" || laneOf(board, card, key) === laneId) return null;
+  switch (key) {
+    case "assignee": {
+      const rest = (card.assigneeIds || [])
+        .slice(1)
+        .filter((id) => id !== laneId);
+      return { assigneeIds: laneId ? [laneId, ...rest] : [] };
+    }
+    case "priority":
+      return { priority: (laneId || null) as CardPriority | null };
+    case "epic":
+      // a card can't be its own epic
+      return laneId === card.id ? null : { epicId: laneId || null };
+  }
+}
+
+// cards a card can pick as its epic: any other card except its own
+// children, by title
+export function epicCandidates(board: BoardState, cardId: string | null) {
+  return Object.values(board.cardsById)
+    .filter((c) => c.id !== cardId && (!cardId || c.epicId !== cardId))
+    .sort((a, b) => (a.title || "").localeCompare(b.title || ""));
+}
@@ -0,0 +1,28 @@
+import type { BoardState, Card } from "./types";
+
+// Boards for the unit tests.
+
+export function card(id: string, columnId: string): Card {
+  return { id, columnId, rank: 0, title: id, description: "", points: 1 };
+}
+
+// todo: a b c | doing: d e | done: (empty)
+export function board(): BoardState {
+  const columnCardIds = { todo: ["a", "b", "c"], doing: ["d", "e"], done: [] };
+  const cardsById: Record<string, Card> = {};
+  for (const [columnId, ids] of Object.entries(columnCardIds)) {
+    for (const id of ids) cardsById[id] = card(id, columnId);
+  }
+  return {
+    boardId: "b1",
+    name: "Board",
+    version: 1,
+    columns: [
+      { id: "todo", title: "To Do", order: 1 },
+      { id: "doing", title: "In Progress", order: 2 },
+      { id: "done", title: "Done", order: 3 },
+    ],
+    cardsById,
+    columnCardIds,
+  };
+}
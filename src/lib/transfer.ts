@@ -0,0 +1,533 @@
+import { CARD_PRIORITIES, sortedColumns } from "./board";
+import { t } from "./i18n";
+import { tempId, type Mutation } from "./outbox";
+import type {
+  BoardState,
+  CardInput,
+  CardPriority,
+  LabelInput,
+  SprintInput,
+} from "./types";
+
+// Getting boards in and out as files: a versioned JSON backup of the whole
+// BoardState and a CSV with one row per card (for spreadsheets). Imports are
+// turned into a plan first so the wizard can preview it, then into ordinary
+// add_column/create_card mutations.
+
+export const EXPORT_FORMAT = "sprint-board";
+export const EXPORT_VERSION = 1;
+
+export type BoardExport = {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  board: Pick<
+    BoardState,
+    "name" | "columns" | "cardsById" | "columnCardIds" | "sprints" | "labels"
+  >;
+};
+
+// cards to create, grouped by the column title they go into
+export type ImportPlan = {
+  columns: { title: string; cards: CardInput[] }[];
+  // sprints and labels of the file, under the ids its cards use; matched by
+  // name on import and created when missing
+  sprints: (SprintInput & { id: string })[];
+  labels: (LabelInput & { id: string })[];
+  // rows/entries that were skipped or adjusted
+  warnings: string[];
+};
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportError";
+  }
+}
+
+export function exportJson(board: BoardState) {
+  const data: BoardExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    board: {
+      name: board.name,
+      columns: board.columns,
+      cardsById: board.cardsById,
+      columnCardIds: board.columnCardIds,
+      sprints: board.sprints,
+      labels: board.labels,
+    },
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+export type ExportFormat = "json" | "csv";
+
+const REVOKE_DELAY_MS = 10000;
+
+function fileBase(board: BoardState) {
+  const name = (board.name || board.boardId)
+    .replace(/[^\w-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `${name || "board"}-${new Date().toISOString().slice(0, 10)}`;
+}
+
+// saves the board as <name>-<date>.json|csv through the browser
+export function downloadExport(board: BoardState, format: ExportFormat) {
+  const [text, type] =
+    format === "json"
+      ? [exportJson(board), "application/json"]
+      : [exportCsv(board), "text/csv"];
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `${fileBase(board)}.${format}`;
+  a.click();
+  // revoking right away can cancel the download in some browsers
+  window.setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
+
+// color of imported labels that come without one
+const DEFAULT_LABEL_COLOR = "#94a3b8";
+
+export const CSV_FIELDS = [
+  "column",
+  "rank",
+  "title",
+  "description",
+  "points",
+  "sprint",
+  "labels",
+  "due",
+  "priority",
+] as const;
+
+// spreadsheets run cells starting with these as formulas
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function csvCell(v: string | number | null | undefined) {
+  let s = v === null || v === undefined ? "" : String(v);
+  // quoted as text with a leading ', which planFromCsv strips again
+  if (typeof v === "string" && FORMULA_START.test(s)) s = `'${s}`;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function exportCsv(board: BoardState) {
+  const sprintName = (id: string | null | undefined) =>
+    (board.sprints || []).find((s) => s.id === id)?.name ?? "";
+  const labelNames = (ids: string[] | undefined) =>
+    (board.labels || [])
+      .filter((l) => ids?.includes(l.id))
+      .map((l) => l.name)
+      .join(";");
+
+  const rows: (string | number | null | undefined)[][] = [[...CSV_FIELDS]];
+  for (const col of sortedColumns(board.columns)) {
+    (board.columnCardIds[col.id] || []).forEach((id, i) => {
+      const c = board.cardsById[id];
+      if (!c) return;
+      rows.push([
+        col.title,
+        i + 1,
+        c.title,
+        c.description,
+        c.points,
+        sprintName(c.sprintId),
+        labelNames(c.labelIds),
+        c.dueDate,
+        c.priority,
+      ]);
+    });
+  }
+  return rows.map((r) => r.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+// RFC 4180: quoted cells may hold commas, quotes ("") and line breaks
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  // drop blank lines
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+// ---------- JSON import ----------
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function asPriority(v: unknown): CardPriority | null {
+  const p = typeof v === "string" ? v.trim().toLowerCase() : "";
+  return (CARD_PRIORITIES as string[]).includes(p) ? (p as CardPriority) : null;
+}
+
+function asDate(v: unknown) {
+  return typeof v === "string" && /^\d{4}-\d{2}-\d{2}$/.test(v.trim())
+    ? v.trim()
+    : null;
+}
+
+// Sprints and labels come along with their cards (see importMutations);
+// assignees are account members, so their ids carry over within the account.
+// Epic links point at cards of the exporting board and are dropped.
+export function planFromJson(text: string): ImportPlan {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ImportError(t("transfer.badJson"));
+  }
+  if (!isRecord(data) || data.format !== EXPORT_FORMAT) {
+    throw new ImportError(t("transfer.notExport"));
+  }
+  if (typeof data.version !== "number" || data.version > EXPORT_VERSION) {
+    throw new ImportError(
+      t("transfer.badVersion", {
+        version: String(data.version),
+        max: EXPORT_VERSION,
+      })
+    );
+  }
+  const board = data.board;
+  if (
+    !isRecord(board) ||
+    !Array.isArray(board.columns) ||
+    !isRecord(board.cardsById) ||
+    !isRecord(board.columnCardIds)
+  ) {
+    throw new ImportError(t("transfer.noBoard"));
+  }
+
+  const warnings: string[] = [];
+  const columns = board.columns
+    .filter(
+      (c): c is { id: string; title: string; order?: number } =>
+        isRecord(c) && typeof c.id === "string" && typeof c.title === "string"
+    )
+    .sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+  if (columns.length < board.columns.length) {
+    warnings.push(
+      t("transfer.skippedColumns", {
+        count: board.columns.length - columns.length,
+      })
+    );
+  }
+
+  const asText = (v: unknown) => (typeof v === "string" ? v : "");
+  const sprints: ImportPlan["sprints"] = (
+    Array.isArray(board.sprints) ? board.sprints : []
+  )
+    .filter(isRecord)
+    .filter((s) => typeof s.id === "string" && typeof s.name === "string")
+    .map((s) => ({
+      id: String(s.id),
+      name: String(s.name),
+      goal: asText(s.goal),
+      startDate: asDate(s.startDate) ?? "",
+      endDate: asDate(s.endDate) ?? "",
+    }));
+  const labels: ImportPlan["labels"] = (
+    Array.isArray(board.labels) ? board.labels : []
+  )
+    .filter(isRecord)
+    .filter((l) => typeof l.id === "string" && typeof l.name === "string")
+    .map((l) => ({
+      id: String(l.id),
+      name: String(l.name),
+      color: asText(l.color) || DEFAULT_LABEL_COLOR,
+    }));
+  const strings = (v: unknown) =>
+    Array.isArray(v) ? v.filter((x): x is string => typeof x === "string") : [];
+
+  const plan: ImportPlan["columns"] = [];
+  for (const col of columns) {
+    const ids = board.columnCardIds[col.id];
+    const cards: CardInput[] = [];
+    for (const id of Array.isArray(ids) ? ids : []) {
+      const c = board.cardsById[String(id)];
+      if (!isRecord(c) || typeof c.title !== "string") {
+        warnings.push(
+          t("transfer.skippedCard", { id: String(id), column: col.title })
+        );
+        continue;
+      }
+      cards.push({
+        title: c.title,
+        description: typeof c.description === "string" ? c.description : "",
+        points:
+          typeof c.points === "number" && Number.isFinite(c.points)
+            ? c.points
+            : 0,
+        dueDate: asDate(c.dueDate),
+        priority: asPriority(c.priority),
+        sprintId: sprints.some((s) => s.id === c.sprintId)
+          ? String(c.sprintId)
+          : null,
+        labelIds: strings(c.labelIds).filter((id) =>
+          labels.some((l) => l.id === id)
+        ),
+        assigneeIds: strings(c.assigneeIds),
+      });
+    }
+    plan.push({ title: col.title, cards });
+  }
+  return { columns: plan, sprints, labels, warnings };
+}
+
+// ---------- CSV import ----------
+
+export type ImportField =
+  | "column"
+  | "title"
+  | "description"
+  | "points"
+  | "sprint"
+  | "labels"
+  | "due"
+  | "priority";
+
+export const IMPORT_FIELDS: ImportField[] = [
+  "column",
+  "title",
+  "description",
+  "points",
+  "sprint",
+  "labels",
+  "due",
+  "priority",
+];
+
+// spreadsheet column index per field; null = not imported
+export type CsvMapping = Record<ImportField, number | null>;
+
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  column: ["column", "status", "state", "list", "lane"],
+  title: ["title", "name", "summary", "story", "task"],
+  description: ["description", "details", "notes", "body"],
+  points: ["points", "story points", "estimate", "sp", "pt"],
+  sprint: ["sprint", "iteration"],
+  labels: ["labels", "label", "tags"],
+  due: ["due", "due date", "deadline"],
+  priority: ["priority", "prio"],
+};
+
+export function guessMapping(header: string[]): CsvMapping {
+  const names = header.map((h) => h.trim().toLowerCase());
+  const find = (field: ImportField) => {
+    const i = names.findIndex((n) => FIELD_ALIASES[field].includes(n));
+    return i === -1 ? null : i;
+  };
+  return {
+    column: find("column"),
+    title: find("title"),
+    description: find("description"),
+    points: find("points"),
+    sprint: find("sprint"),
+    labels: find("labels"),
+    due: find("due"),
+    priority: find("priority"),
+  };
+}
+
+export function planFromCsv(
+  rows: string[][],
+  mapping: CsvMapping,
+  opts: { hasHeader: boolean; defaultColumn: string }
+): ImportPlan {
+  if (mapping.title === null) {
+    throw new ImportError(t("transfer.noTitleColumn"));
+  }
+  const warnings: string[] = [];
+  const byColumn = new Map<string, CardInput[]>();
+  // by lower-cased name, which is also the id the cards use
+  const sprints = new Map<string, ImportPlan["sprints"][number]>();
+  const labels = new Map<string, ImportPlan["labels"][number]>();
+  const cell = (row: string[], field: ImportField) => {
+    const i = mapping[field];
+    const v = i === null ? "" : (row[i] ?? "").trim();
+    // the ' exportCsv puts in front of formula-like text
+    return v.startsWith("'") && FORMULA_START.test(v.slice(1)) ? v.slice(1) : v;
+  };
+
+  const body = opts.hasHeader ? rows.slice(1) : rows;
+  body.forEach((row, i) => {
+    const line = i + (opts.hasHeader ? 2 : 1);
+    const title = cell(row, "title");
+    if (!title) {
+      warnings.push(t("transfer.rowNoTitle", { row: line }));
+      return;
+    }
+    const rawPoints = cell(row, "points");
+    let points = rawPoints ? Number(rawPoints) : 0;
+    if (!Number.isFinite(points) || points < 0) {
+      warnings.push(t("transfer.rowPoints", { row: line, value: rawPoints }));
+      points = 0;
+    }
+    const rawDue = cell(row, "due");
+    const dueDate = asDate(rawDue);
+    if (rawDue && !dueDate) {
+      warnings.push(t("transfer.rowDue", { row: line, value: rawDue }));
+    }
+    const rawPriority = cell(row, "priority");
+    const priority = asPriority(rawPriority);
+    if (rawPriority && !priority) {
+      warnings.push(
+        t("transfer.rowPriority", { row: line, value: rawPriority })
+      );
+    }
+
+    const sprintName = cell(row, "sprint");
+    const sprintId = sprintName.toLowerCase();
+    if (sprintName && !sprints.has(sprintId)) {
+      sprints.set(sprintId, {
+        id: sprintId,
+        name: sprintName,
+        goal: "",
+        startDate: "",
+        endDate: "",
+      });
+    }
+    // exportCsv joins them with ";"
+    const labelIds: string[] = [];
+    for (const name of cell(row, "labels").split(";")) {
+      const labelName = name.trim();
+      const labelId = labelName.toLowerCase();
+      if (!labelName || labelIds.includes(labelId)) continue;
+      if (!labels.has(labelId)) {
+        labels.set(labelId, {
+          id: labelId,
+          name: labelName,
+          color: DEFAULT_LABEL_COLOR,
+        });
+      }
+      labelIds.push(labelId);
+    }
+
+    const column = cell(row, "column") || opts.defaultColumn;
+    byColumn.set(column, [
+      ...(byColumn.get(column) || []),
+      {
+        title,
+        description: cell(row, "description"),
+        points,
+        sprintId: sprintName ? sprintId : null,
+        labelIds,
+        dueDate,
+        priority,
+      },
+    ]);
+  });
+
+  return {
+    columns: [...byColumn].map(([title, cards]) => ({ title, cards })),
+    sprints: [...sprints.values()],
+    labels: [...labels.values()],
+    warnings,
+  };
+}
+
+// ---------- Applying a plan ----------
+
+// existing column with the same title (case-insensitive), if any
+export function matchColumn(board: BoardState, title: string) {
+  const key = title.trim().toLowerCase();
+  return board.columns.find((c) => c.title.trim().toLowerCase() === key);
+}
+
+// Columns that don't exist yet are added after the current ones; cards are
+// appended to their column in file order. Sprints and labels are matched by
+// name like columns, new sprints start out planned. Assignees who are not
+// members of this account are left off.
+export function importMutations(
+  board: BoardState,
+  plan: ImportPlan,
+  memberIds: string[]
+): Mutation[] {
+  const out: Mutation[] = [];
+  const byName = <T extends { id: string; name: string }>(
+    list: T[] | undefined,
+    name: string
+  ) =>
+    (list || []).find(
+      (x) => x.name.trim().toLowerCase() === name.trim().toLowerCase()
+    );
+
+  // file id -> id on this board
+  const sprintIds = new Map<string, string>();
+  for (const { id, ...data } of plan.sprints) {
+    let sprintId = byName(board.sprints, data.name)?.id;
+    if (!sprintId) {
+      sprintId = tempId();
+      out.push({ kind: "create_sprint", sprintId, data });
+    }
+    sprintIds.set(id, sprintId);
+  }
+  const labelIds = new Map<string, string>();
+  for (const { id, ...data } of plan.labels) {
+    let labelId = byName(board.labels, data.name)?.id;
+    if (!labelId) {
+      labelId = tempId();
+      out.push({ kind: "create_label", labelId, data });
+    }
+    labelIds.set(id, labelId);
+  }
+
+  // columns added by this import, by lower-cased title
+  const added = new Map<string, string>();
+  for (const col of plan.columns) {
+    const key = col.title.trim().toLowerCase();
+    let columnId = matchColumn(board, col.title)?.id ?? added.get(key);
+    if (!columnId) {
+      columnId = tempId();
+      added.set(key, columnId);
+      out.push({ kind: "add_column", columnId, title: col.title.trim() });
+    }
+    for (const card of col.cards) {
+      const data: CardInput = {
+        ...card,
+        sprintId: card.sprintId ? (sprintIds.get(card.sprintId) ?? null) : null,
+        labelIds: (card.labelIds || []).flatMap((id) => labelIds.get(id) ?? []),
+        assigneeIds: (card.assigneeIds || []).filter((id) =>
+          memberIds.includes(id)
+        ),
+      };
+      out.push({ kind: "create_card", cardId: tempId(), columnId, data });
+    }
+  }
+  return out;
+}
@@ -0,0 +1,155 @@
+export type ColumnId = string;
+
+export type Column = {
+  id: ColumnId;
+  title: string;
+  order: number;
+  wipLimit?: WipLimit | null;
+};
+
+// work-in-progress limit; null fields are not limited
+export type WipLimit = {
+  cards: number | null;
+  points: number | null;
+  // hard: dropping a card past the limit needs confirmation
+  hard: boolean;
+};
+
+export type Card = {
+  id: string;
+  columnId: ColumnId;
+  rank: number;
+  title: string;
+  description: string;
+  points: number;
+  // null/missing: in the backlog
+  sprintId?: string | null;
+  // account member ids
+  assigneeIds?: string[];
+  // ids into BoardState.labels
+  labelIds?: string[];
+  // YYYY-MM-DD
+  dueDate?: string | null;
+  priority?: CardPriority | null;
+  // the epic (another card on the board) this card belongs to
+  epicId?: string | null;
+  createdAt?: number;
+  updatedAt?: number;
+  // last time the card changed column (burndown)
+  movedAt?: number;
+};
+
+export type BoardState = {
+  boardId: string;
+  name: string;
+  version: number;
+  archived?: boolean;
+  columns: Column[];
+  cardsById: Record<string, Card>;
+  columnCardIds: Record<ColumnId, string[]>;
+  // missing on backends without sprint support
+  sprints?: Sprint[];
+  labels?: Label[];
+  // backlog ranking, most important first; cards missing from it come after
+  // the ranked ones in board order (see lib/backlog)
+  backlogOrder?: string[];
+};
+
+export type CardPriority = "low" | "medium" | "high" | "urgent";
+
+export type Label = {
+  id: string;
+  name: string;
+  // CSS color, e.g. #ef4444
+  color: string;
+};
+
+// someone in the signed-in account, assignable to cards
+export type Member = {
+  id: string;
+  name: string;
+  email?: string;
+};
+
+// discussion on a card; replies point at their parent comment
+export type CardComment = {
+  id: string;
+  cardId: string;
+  parentId: string | null;
+  authorId: string;
+  authorName: string;
+  body: string;
+  createdAt: number;
+};
+
+// one entry of a card's history, newest last
+export type CardActivity = {
+  id: string;
+  cardId: string;
+  at: number;
+  actorName?: string;
+} & (
+  | { type: "created"; columnId: ColumnId }
+  | { type: "moved"; fromColumnId: ColumnId; toColumnId: ColumnId }
+  | { type: "updated"; changes: CardChange[] }
+  | { type: "commented"; commentId: string }
+);
+
+export type CardChange = {
+  field: keyof CardPatch;
+  from: unknown;
+  to: unknown;
+};
+
+export type SprintState = "planned" | "active" | "closed";
+
+export type Sprint = {
+  id: string;
+  name: string;
+  goal: string;
+  // YYYY-MM-DD
+  startDate: string;
+  endDate: string;
+  state: SprintState;
+  // recorded when the sprint is completed (velocity)
+  committedPoints?: number;
+  completedPoints?: number;
+  // points the team can take on, set while planning
+  capacity?: number | null;
+};
+
+// entry in the board switcher
+export type BoardSummary = {
+  boardId: string;
+  name: string;
+  archived?: boolean;
+  updatedAt?: number;
+};
+
+// editable fields of a card (create payload / update patch)
+export type CardInput = Pick<
+  Card,
+  | "title"
+  | "description"
+  | "points"
+  | "sprintId"
+  | "assigneeIds"
+  | "labelIds"
+  | "dueDate"
+  | "priority"
+  | "epicId"
+>;
+export type CardPatch = Partial<CardInput>;
+
+export type CommentInput = Pick<CardComment, "body" | "parentId">;
+
+export type LabelInput = Pick<Label, "name" | "color">;
+export type LabelPatch = Partial<LabelInput>;
+
+export type SprintInput = Pick<
+  Sprint,
+  "name" | "goal" | "startDate" | "endDate"
+>;
+export type SprintPatch = Partial<
+  SprintInput & Pick<Sprint, "state" | "capacity">
+>;
@@ -0,0 +1,280 @@
+import { CARD_PRIORITIES } from "./board";
+import type {
+  BoardState,
+  BoardSummary,
+  Card,
+  CardActivity,
+  CardChange,
+  CardComment,
+  Column,
+  Label,
+  Member,
+  Sprint,
+  WipLimit,
+} from "./types";
+
+// Checks for what the backend sends back, so a malformed response fails in
+// apiFetch with a clear message instead of somewhere in rendering. Schemas
+// are plain functions that return the value typed or throw SchemaError with
+// the path of the first bad field. Unknown fields are kept, so a newer
+// backend adding fields still passes.
+
+export class SchemaError extends Error {
+  path: string;
+
+  constructor(path: string, expected: string) {
+    super(`${path || "response"}: expected ${expected}`);
+    this.name = "SchemaError";
+    this.path = path;
+  }
+}
+
+export type Schema<T> = (v: unknown, path: string) => T;
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+export const str: Schema<string> = (v, path) => {
+  if (typeof v !== "string") throw new SchemaError(path, "string");
+  return v;
+};
+
+export const num: Schema<number> = (v, path) => {
+  if (typeof v !== "number" || !Number.isFinite(v)) {
+    throw new SchemaError(path, "number");
+  }
+  return v;
+};
+
+export const bool: Schema<boolean> = (v, path) => {
+  if (typeof v !== "boolean") throw new SchemaError(path, "boolean");
+  return v;
+};
+
+// anything; for values that are only displayed
+export const unknownValue: Schema<unknown> = (v) => v;
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (v, path) => (v === undefined ? undefined : schema(v, path));
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return (v, path) => (v === null ? null : schema(v, path));
+}
+
+export function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  return (v, path) => {
+    if (!values.includes(v as T)) {
+      throw new SchemaError(path, values.map((x) => `"${x}"`).join(" | "));
+    }
+    return v as T;
+  };
+}
+
+export function arrayOf<T>(schema: Schema<T>): Schema<T[]> {
+  return (v, path) => {
+    if (!Array.isArray(v)) throw new SchemaError(path, "array");
+    return v.map((item, i) => schema(item, `${path}[${i}]`));
+  };
+}
+
+export function recordOf<T>(schema: Schema<T>): Schema<Record<string, T>> {
+  return (v, path) => {
+    if (!isRecord(v)) throw new SchemaError(path, "object");
+    const out: Record<string, T> = {};
+    for (const [k, item] of Object.entries(v)) {
+      out[k] = schema(item, path ? `${path}.${k}` : k);
+    }
+    return out;
+  };
+}
+
+export function object<S extends Record<string, Schema<unknown>>>(
+  shape: S
+): Schema<{ [K in keyof S]: ReturnType<S[K]> }> {
+  return (v, path) => {
+    if (!isRecord(v)) throw new SchemaError(path, "object");
+    const out: Record<string, unknown> = { ...v };
+    for (const [k, schema] of Object.entries(shape)) {
+      out[k] = schema(v[k], path ? `${path}.${k}` : k);
+    }
+    return out as { [K in keyof S]: ReturnType<S[K]> };
+  };
+}
+
+// runs a schema on a whole response
+export function parse<T>(schema: Schema<T>, v: unknown): T {
+  return schema(v, "");
+}
+
+// ---------- Board ----------
+
+const wipLimitSchema: Schema<WipLimit> = object({
+  cards: nullable(num),
+  points: nullable(num),
+  hard: bool,
+});
+
+const columnSchema: Schema<Column> = object({
+  id: str,
+  title: str,
+  order: num,
+  wipLimit: optional(nullable(wipLimitSchema)),
+});
+
+export const cardSchema: Schema<Card> = object({
+  id: str,
+  columnId: str,
+  rank: num,
+  title: str,
+  description: str,
+  points: num,
+  sprintId: optional(nullable(str)),
+  assigneeIds: optional(arrayOf(str)),
+  labelIds: optional(arrayOf(str)),
+  dueDate: optional(nullable(str)),
+  priority: optional(nullable(oneOf(CARD_PRIORITIES))),
+  epicId: optional(nullable(str)),
+  createdAt: optional(num),
+  updatedAt: optional(num),
+  movedAt: optional(num),
+});
+
+const sprintSchema: Schema<Sprint> = object({
+  id: str,
+  name: str,
+  goal: str,
+  startDate: str,
+  endDate: str,
+  state: oneOf(["planned", "active", "closed"] as const),
+  committedPoints: optional(num),
+  completedPoints: optional(num),
+  capacity: optional(nullable(num)),
+});
+
+const labelSchema: Schema<Label> = object({ id: str, name: str, color: str });
+
+const boardShape: Schema<BoardState> = object({
+  boardId: str,
+  name: str,
+  version: num,
+  archived: optional(bool),
+  columns: arrayOf(columnSchema),
+  cardsById: recordOf(cardSchema),
+  columnCardIds: recordOf(arrayOf(str)),
+  sprints: optional(arrayOf(sprintSchema)),
+  labels: optional(arrayOf(labelSchema)),
+  backlogOrder: optional(arrayOf(str)),
+});
+
+// shape plus the cross references the board view relies on
+export const boardStateSchema: Schema<BoardState> = (v, path) => {
+  const board = boardShape(v, path);
+  for (const [colId, ids] of Object.entries(board.columnCardIds)) {
+    ids.forEach((id, i) => {
+      if (!board.cardsById[id]) {
+        throw new SchemaError(
+          `${path ? `${path}.` : ""}columnCardIds.${colId}[${i}]`,
+          `an id in cardsById (got "${id}")`
+        );
+      }
+    });
+  }
+  // a column without a list just has no cards yet
+  const columnCardIds = { ...board.columnCardIds };
+  for (const c of board.columns) columnCardIds[c.id] ??= [];
+  return { ...board, columnCardIds };
+};
+
+export const boardSummarySchema: Schema<BoardSummary> = object({
+  boardId: str,
+  name: str,
+  archived: optional(bool),
+  updatedAt: optional(num),
+});
+
+export const memberSchema: Schema<Member> = object({
+  id: str,
+  name: str,
+  email: optional(str),
+});
+
+// ---------- Card details ----------
+
+export const commentSchema: Schema<CardComment> = object({
+  id: str,
+  cardId: str,
+  parentId: nullable(str),
+  authorId: str,
+  authorName: str,
+  body: str,
+  createdAt: num,
+});
+
+const changeSchema: Schema<CardChange> = (v, path) => {
+  const c = object({ field: str, from: unknownValue, to: unknownValue })(
+    v,
+    path
+  );
+  return { ...c, field: c.field as CardChange["field"] };
+};
+
+export const activitySchema: Schema<CardActivity> = (v, path) => {
+  const base = object({
+    id: str,
+    cardId: str,
+    at: num,
+    actorName: optional(str),
+    type: oneOf(["created", "moved", "updated", "commented"] as const),
+  })(v, path);
+  switch (base.type) {
+    case "created":
+      return {
+        ...base,
+        type: base.type,
+        ...object({ columnId: str })(v, path),
+      };
+    case "moved":
+      return {
+        ...base,
+        type: base.type,
+        ...object({ fromColumnId: str, toColumnId: str })(v, path),
+      };
+    case "updated":
+      return {
+        ...base,
+        type: base.type,
+        ...object({ changes: arrayOf(changeSchema) })(v, path),
+      };
+    case "commented":
+      return {
+        ...base,
+        type: base.type,
+        ...object({ commentId: str })(v, path),
+      };
+  }
+};
+
+// ---------- Writes ----------
+
+export type WriteResponse = {
+  version?: number;
+  state?: { version?: number };
+  card?: { id: string };
+  column?: { id: string };
+  sprint?: { id: string };
+  label?: { id: string };
+};
+
+const created = optional(object({ id: str }));
+
+// { ok, version?, card?|column?|sprint?|label? }
+export const writeResponseSchema: Schema<WriteResponse> = object({
+  version: optional(num),
+  state: optional(object({ version: optional(num) })),
+  card: created,
+  column: created,
+  sprint: created,
+  label: created,
+});
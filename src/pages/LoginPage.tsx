@@ -0,0 +1,179 @@
+import { useEffect, useRef, useState } from "react";
+import { getApiBase } from "../lib/api";
+import {
+  completeOidcSignIn,
+  isOidcConfigured,
+  signInWithPassword,
+  startOidcSignIn,
+} from "../lib/auth";
+import { setDataSourceKind } from "../lib/dataSource";
+import { t } from "../lib/i18n";
+import { navigate } from "../lib/router";
+
+// where to go after signing in; only same-origin paths
+function nextPath() {
+  const next = new URLSearchParams(window.location.search).get("next") || "/";
+  return next.startsWith("/") && !next.startsWith("//") ? next : "/";
+}
+
+export default function LoginPage() {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [errMsg, setErrMsg] = useState<string | null>(null);
+
+  async function submit() {
+    setBusy(true);
+    setErrMsg(null);
+    try {
+      await signInWithPassword(getApiBase(), username.trim(), password);
+      navigate(nextPath(), { replace: true });
+    } catch (e) {
+      setErrMsg((e as Error)?.message || t("login.failed"));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function sso() {
+    setBusy(true);
+    setErrMsg(null);
+    try {
+      await startOidcSignIn(nextPath());
+    } catch (e) {
+      setErrMsg((e as Error)?.message || t("login.ssoFailed"));
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="sb-login">
+      <style>{css}</style>
+
+      <form
+        className="sb-login-card"
+        onSubmit={(e) => {
+          e.preventDefault();
+          void submit();
+        }}
+      >
+        <div className="sb-login-title">{t("login.title")}</div>
+        <div className="sb-login-sub">
+          {getApiBase() || window.location.origin}{" "}
+          <button
+            className="sb-login-link"
+            type="button"
+            onClick={() => navigate("/settings")}
+          >
+            {t("login.change")}
+          </button>
+        </div>
+
+        <label className="sb-login-label">
+          {t("login.username")}
+          <input
+            className="sb-login-input"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            autoComplete="username"
+            autoFocus
+          />
+        </label>
+
+        <label className="sb-login-label">
+          {t("login.password")}
+          <input
+            className="sb-login-input"
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="current-password"
+          />
+        </label>
+
+        {errMsg ? <div className="sb-login-err">{errMsg}</div> : null}
+
+        <button
+          className="sb-login-btn"
+          type="submit"
+          disabled={busy || !username.trim() || !password}
+        >
+          {busy ? t("login.signingIn") : t("login.signIn")}
+        </button>
+
+        {isOidcConfigured() ? (
+          <button
+            className="sb-login-btn sb-login-btn-ghost"
+            type="button"
+            onClick={sso}
+            disabled={busy}
+          >
+            {t("login.sso")}
+          </button>
+        ) : null}
+
+        <button
+          className="sb-login-link"
+          type="button"
+          onClick={() => {
+            setDataSourceKind("local");
+            window.location.replace("/");
+          }}
+        >
+          {t("login.offline")}
+        </button>
+      </form>
+    </div>
+  );
+}
+
+// landing page of the OIDC redirect
+export function AuthCallback() {
+  const [errMsg, setErrMsg] = useState<string | null>(null);
+  // the code can only be redeemed once (StrictMode runs effects twice)
+  const startedRef = useRef(false);
+
+  useEffect(() => {
+    if (startedRef.current) return;
+    startedRef.current = true;
+    completeOidcSignIn(getApiBase(), window.location.search)
+      .then((next) => navigate(next, { replace: true }))
+      .catch((e) => setErrMsg(e?.message || t("login.ssoFailed")));
+  }, []);
+
+  return (
+    <div className="sb-login">
+      <style>{css}</style>
+      <div className="sb-login-card">
+        {errMsg ? (
+          <>
+            <div className="sb-login-err">{errMsg}</div>
+            <button
+              className="sb-login-btn"
+              onClick={() => navigate("/login", { replace: true })}
+            >
+              {t("login.back")}
+            </button>
+          </>
+        ) : (
+          <div className="sb-login-sub">{t("login.signingIn")}</div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const css = `
+.sb-login{min-height:100vh; display:flex; align-items:center; justify-content:center; background:#f8fafc; font-family: ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Arial; color:#0f172a; padding:16px; box-sizing:border-box;}
+.sb-login-card{width:min(380px, 100%); background:#fff; border:1px solid #e2e8f0; border-radius:16px; padding:20px; box-shadow:0 12px 40px rgba(15,23,42,0.08); display:flex; flex-direction:column; gap:10px;}
+.sb-login-title{font-weight:900; font-size:18px;}
+.sb-login-sub{font-size:12px; color:#64748b; word-break:break-all;}
+.sb-login-label{display:flex; flex-direction:column; gap:6px; font-size:12px; color:#334155;}
+.sb-login-input{border:1px solid #cbd5e1; border-radius:12px; padding:10px 12px; font-size:13px; outline:none;}
+.sb-login-input:focus{border-color:#0f172a; box-shadow:0 0 0 3px rgba(15,23,42,0.08);}
+.sb-login-err{background:#fff7ed; border:1px solid #fed7aa; color:#9a3412; padding:8px 10px; border-radius:12px; font-size:12.5px;}
+.sb-login-btn{border:1px solid #0f172a; background:#0f172a; color:#fff; border-radius:12px; padding:10px 12px; font-weight:700; font-size:13px; cursor:pointer;}
+.sb-login-btn:disabled{opacity:0.6; cursor:not-allowed;}
+.sb-login-btn-ghost{background:#fff; color:#0f172a; border-color:#cbd5e1;}
+.sb-login-link{border:none; background:transparent; color:#64748b; font-size:12px; cursor:pointer; text-decoration:underline; padding:4px 0 0;}
+`;
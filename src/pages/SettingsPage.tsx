@@ -0,0 +1,193 @@
+import { useState } from "react";
+import { STORAGE_BOARD_ID } from "../lib/api";
+import { signOut } from "../lib/auth";
+import {
+  checkHealth,
+  getConfig,
+  getConfigError,
+  saveEnvProfiles,
+  shippedApiBase,
+  type EnvProfile,
+  type HealthResult,
+} from "../lib/config";
+import { t } from "../lib/i18n";
+import { navigate } from "../lib/router";
+
+// Which backend the board talks to: pick an environment profile, fix its API
+// base (e.g. a new tunnel URL) and check it answers before switching. Open
+// without signing in, since a wrong base is what keeps sign-in from working.
+export default function SettingsPage() {
+  const config = getConfig();
+  const [profiles, setProfiles] = useState<EnvProfile[]>(config.profiles);
+  const [profileId, setProfileId] = useState(config.profileId);
+  const [health, setHealth] = useState<
+    Record<string, HealthResult | "checking">
+  >({});
+
+  const active = config.profiles.find((p) => p.id === config.profileId);
+  const chosen = profiles.find((p) => p.id === profileId);
+  const changed =
+    profileId !== config.profileId ||
+    profiles.some((p, i) => p.apiBase !== config.profiles[i]?.apiBase);
+
+  function setBase(id: string, apiBase: string) {
+    setProfiles((cur) => cur.map((p) => (p.id === id ? { ...p, apiBase } : p)));
+    // an old result says nothing about the new base
+    setHealth((cur) => {
+      const next = { ...cur };
+      delete next[id];
+      return next;
+    });
+  }
+
+  async function check(profile: EnvProfile) {
+    setHealth((cur) => ({ ...cur, [profile.id]: "checking" }));
+    const result = await checkHealth(profile.apiBase.trim());
+    setHealth((cur) => ({ ...cur, [profile.id]: result }));
+  }
+
+  function save() {
+    const cleaned = profiles.map((p) => ({
+      ...p,
+      apiBase: p.apiBase.trim().replace(/\/+$/, ""),
+    }));
+    saveEnvProfiles(cleaned, profileId);
+    // tokens and boards belong to the old backend (its outbox and cache are
+    // kept per API base and wait there)
+    if (cleaned.find((p) => p.id === profileId)?.apiBase !== active?.apiBase) {
+      signOut();
+      localStorage.removeItem(STORAGE_BOARD_ID);
+    }
+    window.location.replace("/");
+  }
+
+  return (
+    <div className="sb-settings">
+      <style>{css}</style>
+
+      <div className="sb-settings-card">
+        <div className="sb-settings-title">{t("settings.title")}</div>
+        <div className="sb-settings-sub">{t("settings.intro")}</div>
+
+        {getConfigError() ? (
+          <div className="sb-settings-err">{getConfigError()}</div>
+        ) : null}
+
+        <div role="radiogroup" aria-label={t("settings.profiles")}>
+          {profiles.map((p) => {
+            const result = health[p.id];
+            return (
+              <div
+                key={p.id}
+                className={`sb-settings-profile ${
+                  p.id === profileId ? "sb-settings-on" : ""
+                }`}
+              >
+                <label className="sb-settings-name">
+                  <input
+                    type="radio"
+                    name="profile"
+                    checked={p.id === profileId}
+                    onChange={() => setProfileId(p.id)}
+                  />
+                  {p.name}
+                  {p.id === config.profileId ? (
+                    <span className="sb-settings-tag">
+                      {t("settings.current")}
+                    </span>
+                  ) : null}
+                </label>
+
+                <div className="sb-settings-row">
+                  <input
+                    className="sb-settings-input"
+                    value={p.apiBase}
+                    placeholder={t("settings.sameOrigin")}
+                    aria-label={t("settings.apiBase", { profile: p.name })}
+                    onChange={(e) => setBase(p.id, e.target.value)}
+                  />
+                  <button
+                    className="sb-settings-btn sb-settings-btn-ghost"
+                    type="button"
+                    disabled={result === "checking"}
+                    onClick={() => void check(p)}
+                  >
+                    {t("settings.check")}
+                  </button>
+                </div>
+
+                <div className="sb-settings-status" role="status">
+                  {result === "checking" ? (
+                    t("settings.checking")
+                  ) : result?.ok ? (
+                    <span className="sb-settings-ok">
+                      {t("settings.healthy", { ms: result.ms })}
+                    </span>
+                  ) : result ? (
+                    <span className="sb-settings-bad">
+                      {t("settings.unhealthy", { error: result.error })}
+                    </span>
+                  ) : null}
+                  {p.apiBase !== shippedApiBase(p.id) ? (
+                    <button
+                      className="sb-settings-link"
+                      type="button"
+                      onClick={() => setBase(p.id, shippedApiBase(p.id))}
+                    >
+                      {t("settings.reset")}
+                    </button>
+                  ) : null}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {chosen && chosen.apiBase !== active?.apiBase ? (
+          <div className="sb-settings-sub">{t("settings.signOutNote")}</div>
+        ) : null}
+
+        <div className="sb-settings-actions">
+          <button
+            className="sb-settings-btn sb-settings-btn-ghost"
+            type="button"
+            onClick={() => navigate("/")}
+          >
+            {t("settings.back")}
+          </button>
+          <button
+            className="sb-settings-btn"
+            type="button"
+            disabled={!changed}
+            onClick={save}
+          >
+            {t("settings.save")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const css = `
+.sb-settings{min-height:100vh; display:flex; align-items:center; justify-content:center; background:#f8fafc; font-family: ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Arial; color:#0f172a; padding:16px; box-sizing:border-box;}
+.sb-settings-card{width:min(560px, 100%); background:#fff; border:1px solid #e2e8f0; border-radius:16px; padding:20px; box-shadow:0 12px 40px rgba(15,23,42,0.08); display:flex; flex-direction:column; gap:10px;}
+.sb-settings-title{font-weight:900; font-size:18px;}
+.sb-settings-sub{font-size:12px; color:#64748b;}
+.sb-settings-err{background:#fff7ed; border:1px solid #fed7aa; color:#9a3412; padding:8px 10px; border-radius:12px; font-size:12.5px;}
+.sb-settings-profile{border:1px solid #e2e8f0; border-radius:12px; padding:10px 12px; margin-bottom:8px; display:flex; flex-direction:column; gap:6px;}
+.sb-settings-on{border-color:#0f172a;}
+.sb-settings-name{display:flex; align-items:center; gap:8px; font-weight:700; font-size:13px; cursor:pointer;}
+.sb-settings-tag{font-size:11px; font-weight:600; color:#64748b; border:1px solid #e2e8f0; border-radius:999px; padding:1px 8px;}
+.sb-settings-row{display:flex; gap:8px;}
+.sb-settings-input{flex:1; min-width:0; border:1px solid #cbd5e1; border-radius:12px; padding:8px 10px; font-size:13px; font-family: ui-monospace, SFMono-Regular, Menlo, monospace; outline:none;}
+.sb-settings-input:focus{border-color:#0f172a; box-shadow:0 0 0 3px rgba(15,23,42,0.08);}
+.sb-settings-status{display:flex; gap:10px; align-items:center; font-size:12px; color:#64748b; min-height:16px;}
+.sb-settings-ok{color:#15803d;}
+.sb-settings-bad{color:#b91c1c;}
+.sb-settings-actions{display:flex; justify-content:flex-end; gap:8px;}
+.sb-settings-btn{border:1px solid #0f172a; background:#0f172a; color:#fff; border-radius:12px; padding:8px 12px; font-weight:700; font-size:13px; cursor:pointer;}
+.sb-settings-btn:disabled{opacity:0.6; cursor:not-allowed;}
+.sb-settings-btn-ghost{background:#fff; color:#0f172a; border-color:#cbd5e1;}
+.sb-settings-link{border:none; background:transparent; color:#64748b; font-size:12px; cursor:pointer; text-decoration:underline; padding:0;}
+`;
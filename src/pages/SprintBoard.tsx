@@ -1,690 +1,1098 @@
-import React, { useEffect, useMemo, useRef, useState } from "react";
-import {
-  DndContext,
-  KeyboardSensor,
-  PointerSensor,
-  closestCorners,
-  useDroppable,
-  useSensor,
-  useSensors,
-} from "@dnd-kit/core";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { DndContext } from "@dnd-kit/core";
 import {
   SortableContext,
-  arrayMove,
-  sortableKeyboardCoordinates,
-  useSortable,
-  verticalListSortingStrategy,
+  horizontalListSortingStrategy,
 } from "@dnd-kit/sortable";
-import { CSS } from "@dnd-kit/utilities";
-
-type ColumnId = string;
-
-type Column = {
-  id: ColumnId;
-  title: string;
-  order: number;
-};
-
-type Card = {
-  id: string;
-  columnId: ColumnId;
-  rank: number;
-  title: string;
-  description: string;
-  points: number;
-  createdAt?: number;
-  updatedAt?: number;
-};
-
-type BoardState = {
-  boardId: string;
-  name: string;
-  version: number;
-  columns: Column[];
-  cardsById: Record<string, Card>;
-  columnCardIds: Record<ColumnId, string[]>;
-};
+import { getApiBase } from "../lib/api";
+import {
+  ALL_CARDS,
+  BACKLOG,
+  activeSprint,
+  breaksHardLimit,
+  doneColumnId,
+  inBoardOrder,
+  inSprintView,
+  sortedColumns,
+  wipUsage,
+} from "../lib/board";
+import {
+  CompleteSprintModal,
+  SprintBar,
+  SprintModal,
+} from "../components/Sprints";
+import {
+  ColumnView,
+  SwimlaneHeader,
+  SwimlaneRow,
+  type CardListProps,
+  type ColumnHeaderProps,
+} from "../components/BoardColumns";
+import { BoardHeader, NoBoardView } from "../components/BoardHeader";
+import BulkBar from "../components/BulkBar";
+import CardDrawer from "../components/CardDrawer";
+import CardModal from "../components/CardModal";
+import {
+  ColumnModal,
+  MoveCardModal,
+  WipLimitModal,
+} from "../components/ColumnModals";
+import CommandPalette, {
+  type PaletteCommand,
+} from "../components/CommandPalette";
+import ConflictDialog from "../components/ConflictDialog";
+import { ImportWizard } from "../components/ImportExport";
+import { LabelManager } from "../components/Labels";
+import Markdown from "../components/Markdown";
+import BacklogView from "../components/BacklogView";
+import ReportsView from "../components/ReportsView";
+import UndoToast from "../components/UndoToast";
+import { useSession } from "../lib/auth";
+import { COLUMN_DRAG_PREFIX, useBoardDnd } from "../lib/boardDnd";
+import { useBoard } from "../lib/boardStore";
+import { useBoardSync } from "../lib/boardSync";
+import { formatPoints, t } from "../lib/i18n";
+import { mergeMutation } from "../lib/conflicts";
+import type { BoardDataSource } from "../lib/dataSource";
+import {
+  cardSyncStatus,
+  storageScope,
+  tempId,
+  type Mutation,
+} from "../lib/outbox";
+import {
+  EMPTY_FILTER,
+  cardMatches,
+  filterToSearch,
+  isFilterActive,
+  parseFilter,
+  type BoardFilter,
+} from "../lib/filter";
+import {
+  EMPTY_HISTORY,
+  describeEdit,
+  inverseOfAll,
+  recordEdit,
+  remapHistory,
+  withFreshIds,
+  type BoardHistory,
+} from "../lib/history";
+import { rankMutation } from "../lib/backlog";
+import {
+  arrowTarget,
+  focusElement,
+  focusSpot,
+  isFocusArrow,
+  isTypingTarget,
+  shortcutsPaused,
+} from "../lib/keyboard";
+import { toggleTask } from "../lib/markdown";
+import {
+  SWIMLANE_KEYS,
+  SWIMLANE_LABELS,
+  boardLanes,
+  epicCandidates,
+  laneOf,
+  loadSwimlaneKey,
+  saveSwimlaneKey,
+  type SwimlaneKey,
+} from "../lib/swimlanes";
+import {
+  downloadExport,
+  importMutations,
+  type ImportPlan,
+} from "../lib/transfer";
+import {
+  BOARD_VIEWS,
+  VIEW_LABELS,
+  boardPath,
+  cardPath,
+  navigate,
+  type BoardView,
+} from "../lib/router";
+import type {
+  CardInput,
+  CardPatch,
+  Column,
+  ColumnId,
+  LabelInput,
+  LabelPatch,
+  Member,
+  Sprint,
+  SprintInput,
+  SprintPatch,
+  WipLimit,
+} from "../lib/types";
 
 type ModalMode =
   | { open: false }
   | { open: true; mode: "create_card"; columnId: ColumnId }
   | { open: true; mode: "edit_card"; cardId: string }
+  | { open: true; mode: "move_card"; cardId: string }
   | { open: true; mode: "create_column" }
-  | { open: true; mode: "rename_column"; columnId: ColumnId };
-
-const STORAGE_BOARD_ID = "sb_board_id";
-const STORAGE_ACCOUNT_ID = "sb_account_id";
-
-// ✅ FIXED values as requested
-const FIXED_BOARD_ID = "694fe0d7e3fa03c0dee63367";
-const FIXED_ACCOUNT_ID = "demo-account";
-const DEFAULT_API_BASE = "https://73b479c528ee.ngrok-free.app";
-
-function getApiBase() {
-  return (window as any).__API_BASE__ || DEFAULT_API_BASE;
-}
-
-function isColumnId(id: string, columns: Column[]) {
-  return columns.some((c) => c.id === id);
-}
-
-function findContainerOf(
-  id: string,
-  columnCardIds: Record<ColumnId, string[]>,
-  columns: Column[]
-): ColumnId | null {
-  if (isColumnId(id, columns)) return id;
-  for (const colId of Object.keys(columnCardIds)) {
-    if ((columnCardIds[colId] || []).includes(id)) return colId;
-  }
-  return null;
-}
-
-function insertAt<T>(arr: T[], index: number, item: T) {
-  const next = arr.slice();
-  const i = Math.max(0, Math.min(index, next.length));
-  next.splice(i, 0, item);
-  return next;
-}
-
-function removeFrom<T>(arr: T[], item: T) {
-  const idx = arr.indexOf(item);
-  if (idx === -1) return arr.slice();
-  const next = arr.slice();
-  next.splice(idx, 1);
-  return next;
-}
-
-async function apiFetch<T>(
-  path: string,
-  options: {
-    method?: string;
-    body?: any;
-    accountId: string;
-  }
-): Promise<T> {
-  const base = getApiBase();
-  const res = await fetch(`${base}${path}`, {
-    method: options.method || "GET",
-    headers: {
-      "content-type": "application/json",
-      "x-account-id": options.accountId,
-    },
-    body: options.body ? JSON.stringify(options.body) : undefined,
-  });
-
-  const data = await res.json().catch(() => ({}));
-  if (!res.ok) {
-    const msg = data?.message || `HTTP ${res.status}`;
-    throw new Error(msg);
-  }
-  return data as T;
-}
-
-export default function SprintBoardApi() {
-  // ✅ fixed accountId from localStorage or fallback
-  const [accountId] = useState<string>(() => {
-    return localStorage.getItem(STORAGE_ACCOUNT_ID) || FIXED_ACCOUNT_ID;
-  });
-
-  const [boardId] = useState<string>(() => {
-    return localStorage.getItem(STORAGE_BOARD_ID) || FIXED_BOARD_ID;
+  | { open: true; mode: "rename_column"; columnId: ColumnId }
+  | { open: true; mode: "column_limit"; columnId: ColumnId }
+  | { open: true; mode: "create_sprint" }
+  | { open: true; mode: "edit_sprint"; sprintId: string }
+  | { open: true; mode: "complete_sprint"; sprintId: string }
+  | { open: true; mode: "labels" }
+  | { open: true; mode: "import" }
+  | { open: true; mode: "palette" };
+
+// how long the undo toast stays up
+const TOAST_MS = 6000;
+
+export default function SprintBoardApi(props: {
+  boardId: string;
+  view: BoardView;
+  // card whose detail drawer is open (from the URL)
+  cardId: string | null;
+  dataSource: BoardDataSource;
+}) {
+  const { boardId, dataSource } = props;
+  const session = useSession();
+  const scope = storageScope(dataSource.kind, boardId, {
+    apiBase: getApiBase(),
+    accountId: session?.user.accountId ?? null,
   });
 
-  const [board, setBoard] = useState<BoardState | null>(null);
-  const [loading, setLoading] = useState(false);
-  const [errMsg, setErrMsg] = useState<string | null>(null);
+  const { board, boardRef, load, dispatch } = useBoard();
+  const [members, setMembers] = useState<Member[]>([]);
 
   const [modal, setModal] = useState<ModalMode>({ open: false });
+  const modalOpenRef = useRef(false);
+  useEffect(() => {
+    modalOpenRef.current = modal.open;
+  }, [modal.open]);
+  // picked in the sprint switcher; null follows the active sprint
+  const [sprintView, setSprintView] = useState<string | null>(null);
+  const [filter, setFilterState] = useState<BoardFilter>(() =>
+    parseFilter(window.location.search)
+  );
 
+  // set by the drag handlers while a card is dragged
   const activeCardIdRef = useRef<string | null>(null);
-  const [activeCardId, setActiveCardId] = useState<string | null>(null);
 
-  const boardRef = useRef<BoardState | null>(null);
+  // cards picked with Ctrl/Shift+click for bulk actions and group drags
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [swimlaneKey, setSwimlaneKeyState] =
+    useState<SwimlaneKey>(loadSwimlaneKey);
+  // "<key>:<lane id>" of folded lanes
+  const [collapsedLanes, setCollapsedLanes] = useState<string[]>([]);
+  const selectedIdsRef = useRef<string[]>([]);
+  useEffect(() => {
+    selectedIdsRef.current = selectedIds;
+  }, [selectedIds]);
+  // where a Shift+click range starts
+  const selectAnchorRef = useRef<string | null>(null);
+
+  const openCardIdRef = useRef(props.cardId);
   useEffect(() => {
-    boardRef.current = board;
-  }, [board]);
-
-  // drag snapshot
-  const dragStartRef = useRef<{
-    cardId: string;
-    fromColId: string;
-    fromIndex: number;
+    openCardIdRef.current = props.cardId;
+  }, [props.cardId]);
+
+  // undo/redo stacks; kept per page load only
+  const historyRef = useRef<BoardHistory>(EMPTY_HISTORY);
+  const [history, setHistory] = useState<BoardHistory>(EMPTY_HISTORY);
+  const [toast, setToast] = useState<{
+    message: string;
+    action: "undo" | "redo";
   } | null>(null);
 
-  // pending sync move (trigger after optimistic update)
-  const pendingMoveRef = useRef<string | null>(null);
+  const {
+    serverBoard,
+    outbox,
+    loading,
+    errMsg,
+    offline,
+    liveStatus,
+    outboxBoard,
+    render,
+    refresh,
+    enqueue,
+    resolveConflict,
+    retryFailed,
+    discardFailed,
+  } = useBoardSync({
+    boardId,
+    dataSource,
+    scope,
+    load,
+    activeCardIdRef,
+    onRemap: remapLocalId,
+  });
 
-  const sensors = useSensors(
-    useSensor(PointerSensor, { activationConstraint: { distance: 6 } }),
-    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
-  );
+  const { activeCardId, contextProps } = useBoardDnd({
+    boardRef,
+    dispatch,
+    reset: render,
+    activeCardIdRef,
+    selectedIdsRef,
+    swimlaneKey,
+    onDrop: (mutations) => mutateAll(mutations),
+  });
+
+  // assignable people; cards still show without them
+  useEffect(() => {
+    let cancelled = false;
+    dataSource
+      .listMembers()
+      .then((list) => !cancelled && setMembers(list))
+      .catch(() => !cancelled && setMembers([]));
+    return () => {
+      cancelled = true;
+    };
+  }, [dataSource]);
 
   const activeCard = useMemo(() => {
     if (!board || !activeCardId) return null;
     return board.cardsById[activeCardId] || null;
   }, [board, activeCardId]);
 
-  // ✅ ensure localStorage keys exist (create if missing)
-  useEffect(() => {
-    const curAcc = localStorage.getItem(STORAGE_ACCOUNT_ID);
-    if (!curAcc) localStorage.setItem(STORAGE_ACCOUNT_ID, FIXED_ACCOUNT_ID);
-
-    const curBoard = localStorage.getItem(STORAGE_BOARD_ID);
-    if (!curBoard) localStorage.setItem(STORAGE_BOARD_ID, FIXED_BOARD_ID);
-  }, []);
-
-  async function refresh(bid: string) {
-    setLoading(true);
-    setErrMsg(null);
-    try {
-      const r = await apiFetch<{ ok: true; state: BoardState }>(
-        `/boards/${bid}`,
-        {
-          accountId,
-        }
-      );
-      setBoard(r.state);
-      localStorage.setItem(STORAGE_BOARD_ID, bid);
-      localStorage.setItem(STORAGE_ACCOUNT_ID, accountId);
-    } catch (e: any) {
-      setErrMsg(
-        e?.message ||
-          "Failed to load board (check API_BASE / backend / Mongo has this boardId)"
-      );
-      setBoard(null);
-    } finally {
-      setLoading(false);
-    }
-  }
-
-  // load once
-  useEffect(() => {
-    void refresh(boardId);
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
-
-  // ---------- Mutations ----------
-  async function addColumn(title: string) {
-    if (!board) return;
-    setErrMsg(null);
-    try {
-      await apiFetch(`/boards/${board.boardId}/columns`, {
-        method: "POST",
-        body: { title },
-        accountId,
+  const syncStatusByCard = useMemo(() => cardSyncStatus(outbox), [outbox]);
+  const pendingCount = outbox.filter((e) => e.status === "pending").length;
+  const failedCount = outbox.filter((e) => e.status === "failed").length;
+  const conflictEntry = outbox.find((e) => e.status === "conflict") || null;
+
+  // a temp id the server replaced, wherever the page still holds it
+  function remapLocalId(localId: string, realId: string) {
+    commitHistory(remapHistory(historyRef.current, localId, realId));
+    setSprintView((v) => (v === localId ? realId : v));
+    setSelectedIds((ids) => ids.map((id) => (id === localId ? realId : id)));
+    if (openCardIdRef.current === localId) {
+      navigate(cardPath(boardId, realId) + window.location.search, {
+        replace: true,
       });
-      await refresh(board.boardId);
-    } catch (e: any) {
-      setErrMsg(e?.message || "Add column failed");
     }
   }
 
-  async function renameColumn(columnId: string, title: string) {
-    if (!board) return;
-    setErrMsg(null);
-
-    setBoard((prev) => {
-      if (!prev) return prev;
-      return {
-        ...prev,
-        columns: prev.columns.map((c) =>
-          c.id === columnId ? { ...c, title } : c
-        ),
-      };
-    });
-
-    try {
-      await apiFetch(`/boards/${board.boardId}/columns/${columnId}`, {
-        method: "PATCH",
-        body: { title },
-        accountId,
-      });
-      await refresh(board.boardId);
-    } catch (e: any) {
-      setErrMsg(e?.message || "Rename column failed");
-      await refresh(board.boardId);
-    }
+  // a user edit: queued and recorded for undo
+  function mutate(mutation: Mutation) {
+    mutateAll([mutation]);
   }
 
-  async function deleteColumn(
-    columnId: string,
-    mode: "move_cards" | "delete_cards"
-  ) {
-    if (!board) return;
-    setErrMsg(null);
-    try {
-      await apiFetch(
-        `/boards/${board.boardId}/columns/${columnId}?mode=${mode}`,
-        {
-          method: "DELETE",
-          accountId,
-        }
+  // several edits undone as one; label defaults to the first edit's
+  function mutateAll(mutations: Mutation[], label?: string) {
+    if (mutations.length === 0) return;
+    const before = outboxBoard();
+    const inverse = before ? inverseOfAll(mutations, before) : null;
+    if (before && inverse) {
+      const message = label ?? describeEdit(mutations[0], before);
+      commitHistory(
+        recordEdit(historyRef.current, {
+          id: tempId(),
+          label: message,
+          forward: mutations,
+          inverse,
+        })
       );
-      await refresh(board.boardId);
-    } catch (e: any) {
-      setErrMsg(e?.message || "Delete column failed");
+      setToast({ message, action: "undo" });
     }
+    enqueue(mutations);
   }
 
-  async function createCard(
-    columnId: string,
-    data: { title: string; description: string; points: number }
-  ) {
-    if (!board) return;
-    setErrMsg(null);
-    try {
-      await apiFetch(`/boards/${board.boardId}/cards`, {
-        method: "POST",
-        body: { columnId, ...data },
-        accountId,
-      });
-      await refresh(board.boardId);
-    } catch (e: any) {
-      setErrMsg(e?.message || "Create card failed");
-    }
+  // ---------- Undo / redo ----------
+  function commitHistory(next: BoardHistory) {
+    historyRef.current = next;
+    setHistory(next);
   }
 
-  async function updateCard(
-    cardId: string,
-    patch: Partial<Pick<Card, "title" | "description" | "points">>
-  ) {
-    if (!board) return;
-    setErrMsg(null);
-
-    setBoard((prev) => {
-      if (!prev) return prev;
-      const cur = prev.cardsById[cardId];
-      if (!cur) return prev;
-      return {
-        ...prev,
-        cardsById: { ...prev.cardsById, [cardId]: { ...cur, ...patch } },
-      };
-    });
+  function replay(mutations: Mutation[]) {
+    const fresh = withFreshIds(mutations);
+    let next = historyRef.current;
+    for (const [from, to] of fresh.swaps) next = remapHistory(next, from, to);
+    commitHistory(next);
+    enqueue(fresh.mutations);
+  }
 
-    try {
-      await apiFetch(`/boards/${board.boardId}/cards/${cardId}`, {
-        method: "PATCH",
-        body: patch,
-        accountId,
-      });
-      await refresh(board.boardId);
-    } catch (e: any) {
-      setErrMsg(e?.message || "Update card failed");
-      await refresh(board.boardId);
-    }
+  function undo() {
+    const entry = historyRef.current.undo.at(-1);
+    if (!entry) return;
+    commitHistory({
+      undo: historyRef.current.undo.slice(0, -1),
+      redo: [...historyRef.current.redo, entry],
+    });
+    replay(entry.inverse);
+    setToast({
+      message: t("edit.undone", { label: entry.label }),
+      action: "redo",
+    });
   }
 
-  async function deleteCard(cardId: string) {
-    if (!board) return;
-    setErrMsg(null);
+  function redo() {
+    const entry = historyRef.current.redo.at(-1);
+    if (!entry) return;
+    commitHistory({
+      undo: [...historyRef.current.undo, entry],
+      redo: historyRef.current.redo.slice(0, -1),
+    });
+    replay(entry.forward);
+    setToast({
+      message: t("edit.redone", { label: entry.label }),
+      action: "undo",
+    });
+  }
 
-    setBoard((prev) => {
-      if (!prev) return prev;
-      const nextCards = { ...prev.cardsById };
-      delete nextCards[cardId];
+  useEffect(() => {
+    if (!toast) return;
+    const timer = window.setTimeout(() => setToast(null), TOAST_MS);
+    return () => window.clearTimeout(timer);
+  }, [toast]);
 
-      const nextMap: Record<string, string[]> = { ...prev.columnCardIds };
-      for (const colId of Object.keys(nextMap)) {
-        nextMap[colId] = (nextMap[colId] || []).filter((id) => id !== cardId);
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); text fields keep their own undo
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== "z") return;
+      if (isTypingTarget(e.target)) return;
+      if (shortcutsPaused(modalOpenRef.current, activeCardIdRef.current)) {
+        return;
       }
+      e.preventDefault();
+      if (e.shiftKey) redo();
+      else undo();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
 
-      return { ...prev, cardsById: nextCards, columnCardIds: nextMap };
-    });
-
-    try {
-      await apiFetch(`/boards/${board.boardId}/cards/${cardId}`, {
-        method: "DELETE",
-        accountId,
-      });
-      await refresh(board.boardId);
-    } catch (e: any) {
-      setErrMsg(e?.message || "Delete card failed");
-      await refresh(board.boardId);
-    }
+  // ---------- Mutations ----------
+  function addColumn(title: string) {
+    mutate({ kind: "add_column", columnId: tempId(), title });
   }
 
-  async function syncMoveCardFromSnapshot(
-    snapshot: BoardState,
-    cardId: string
-  ) {
-    const toColId = findContainerOf(
-      cardId,
-      snapshot.columnCardIds,
-      snapshot.columns
-    );
-    if (!toColId) return;
-
-    const list = snapshot.columnCardIds[toColId] || [];
-    const idx = list.indexOf(cardId);
-    if (idx === -1) return;
+  function renameColumn(columnId: string, title: string) {
+    mutate({ kind: "rename_column", columnId, title });
+  }
 
-    const beforeCardId = idx > 0 ? list[idx - 1] : null;
-    const afterCardId = idx < list.length - 1 ? list[idx + 1] : null;
+  function setColumnLimit(columnId: string, wipLimit: WipLimit | null) {
+    mutate({ kind: "set_column_limit", columnId, wipLimit });
+  }
 
-    await apiFetch(`/boards/${snapshot.boardId}/cards/${cardId}/move`, {
-      method: "POST",
-      body: {
-        toColumnId: toColId,
-        beforeCardId,
-        afterCardId,
-      },
-      accountId,
-    });
+  function deleteColumn(columnId: string, mode: "move_cards" | "delete_cards") {
+    mutate({ kind: "delete_column", columnId, mode });
   }
 
-  // ---------- DnD ----------
-  function handleDragStart(e: any) {
-    const cur = boardRef.current;
-    if (!cur) return;
+  function createCard(columnId: string, data: CardInput) {
+    mutate({ kind: "create_card", cardId: tempId(), columnId, data });
+  }
 
-    const id = String(e.active.id);
-    if (isColumnId(id, cur.columns)) return;
+  function updateCard(cardId: string, patch: CardPatch) {
+    mutate({ kind: "update_card", cardId, patch });
+  }
 
-    activeCardIdRef.current = id;
-    setActiveCardId(id);
+  // order: the shown backlog after the drag
+  function rankCard(order: string[], cardId: string) {
+    const m = rankMutation(order, cardId);
+    if (m) mutate(m);
+  }
 
-    const fromCol = findContainerOf(id, cur.columnCardIds, cur.columns);
-    if (!fromCol) return;
+  function openCard(cardId: string) {
+    navigate(cardPath(boardId, cardId) + window.location.search);
+  }
 
-    const fromIndex = (cur.columnCardIds[fromCol] || []).indexOf(id);
-    dragStartRef.current = { cardId: id, fromColId: fromCol, fromIndex };
+  function closeCard() {
+    navigate(boardPath(boardId) + window.location.search);
   }
 
-  function handleDragOver(e: any) {
-    const cur = boardRef.current;
-    if (!cur) return;
+  // checks/unchecks a task item of the description
+  function toggleCardTask(cardId: string, index: number) {
+    const card = board?.cardsById[cardId];
+    if (!card) return;
+    updateCard(cardId, { description: toggleTask(card.description, index) });
+  }
 
-    const activeId = String(e.active.id);
-    const overId = e.over ? String(e.over.id) : null;
-    if (!overId) return;
-    if (isColumnId(activeId, cur.columns)) return;
+  function deleteCard(cardId: string) {
+    mutate({ kind: "delete_card", cardId });
+  }
 
-    setBoard((prev) => {
-      if (!prev) return prev;
+  function createSprint(data: SprintInput) {
+    const sprintId = tempId();
+    mutate({ kind: "create_sprint", sprintId, data });
+    setSprintView(sprintId);
+  }
 
-      const activeCol = findContainerOf(
-        activeId,
-        prev.columnCardIds,
-        prev.columns
-      );
-      const overCol = findContainerOf(overId, prev.columnCardIds, prev.columns);
-      if (!activeCol || !overCol) return prev;
+  function updateSprint(sprintId: string, patch: SprintPatch) {
+    mutate({ kind: "update_sprint", sprintId, patch });
+  }
 
-      if (activeCol === overCol) return prev;
+  function completeSprint(sprintId: string, moveToSprintId: string | null) {
+    mutate({ kind: "complete_sprint", sprintId, moveToSprintId });
+    setSprintView(moveToSprintId ?? BACKLOG);
+  }
 
-      const activeList = prev.columnCardIds[activeCol] || [];
-      const overList = prev.columnCardIds[overCol] || [];
+  function createLabel(data: LabelInput) {
+    mutate({ kind: "create_label", labelId: tempId(), data });
+  }
 
-      const nextActiveList = removeFrom(activeList, activeId);
+  function updateLabel(labelId: string, patch: LabelPatch) {
+    mutate({ kind: "update_label", labelId, patch });
+  }
 
-      let newIndex = overList.length;
-      if (!isColumnId(overId, prev.columns)) {
-        const overIndex = overList.indexOf(overId);
-        newIndex = overIndex >= 0 ? overIndex : overList.length;
-      }
+  function deleteLabel(labelId: string) {
+    mutate({ kind: "delete_label", labelId });
+  }
 
-      if (overList.includes(activeId)) return prev;
+  function importPlan(plan: ImportPlan) {
+    if (!board) return;
+    const cards = plan.columns.reduce((n, c) => n + c.cards.length, 0);
+    mutateAll(
+      importMutations(
+        board,
+        plan,
+        members.map((m) => m.id)
+      ),
+      t("edit.imported", { count: cards })
+    );
+  }
 
-      const nextOverList = insertAt(overList, newIndex, activeId);
+  // ---------- Selection ----------
+  // Ctrl/Cmd+click toggles a card; Shift+click adds the cards between the
+  // last clicked one and this one when both are in `range` (the column)
+  function selectCard(cardId: string, range: string[] | null) {
+    const anchor = selectAnchorRef.current;
+    const from = anchor && range ? range.indexOf(anchor) : -1;
+    const to = range ? range.indexOf(cardId) : -1;
+    if (range && from !== -1 && to !== -1) {
+      const span = range.slice(Math.min(from, to), Math.max(from, to) + 1);
+      setSelectedIds((cur) => [
+        ...cur,
+        ...span.filter((id) => !cur.includes(id)),
+      ]);
+    } else {
+      setSelectedIds((cur) =>
+        cur.includes(cardId)
+          ? cur.filter((id) => id !== cardId)
+          : [...cur, cardId]
+      );
+    }
+    selectAnchorRef.current = cardId;
+  }
 
-      const nextCards = { ...prev.cardsById };
-      const c = nextCards[activeId];
-      if (c) nextCards[activeId] = { ...c, columnId: overCol };
+  function clearSelection() {
+    setSelectedIds([]);
+    selectAnchorRef.current = null;
+  }
 
-      return {
-        ...prev,
-        cardsById: nextCards,
-        columnCardIds: {
-          ...prev.columnCardIds,
-          [activeCol]: nextActiveList,
-          [overCol]: nextOverList,
-        },
-      };
-    });
+  // selected cards that still exist, in board order
+  function selection() {
+    return board ? inBoardOrder(board, selectedIds) : [];
   }
 
-  function handleDragEnd(e: any) {
-    const cur = boardRef.current;
-    if (!cur) return;
+  function moveSelection(columnId: ColumnId) {
+    moveCardsTo(selection(), columnId);
+  }
 
-    const activeId = String(e.active.id);
-    const overId = e.over ? String(e.over.id) : null;
+  // appended to the column, in board order; one request
+  function moveCardsTo(ids: string[], columnId: ColumnId) {
+    if (!board) return;
+    const col = board.columns.find((c) => c.id === columnId);
+    if (!col || ids.length === 0) return;
+    if (
+      breaksHardLimit(board, ids, columnId) &&
+      !confirm(t("confirm.overLimit", { column: col.title }))
+    ) {
+      return;
+    }
+    const rest = (board.columnCardIds[columnId] || []).filter(
+      (id) => !ids.includes(id)
+    );
+    const to = {
+      toColumnId: columnId,
+      beforeCardId: rest.at(-1) ?? null,
+      afterCardId: null,
+    };
+    mutate(
+      ids.length === 1
+        ? { kind: "move_card", cardId: ids[0], ...to }
+        : { kind: "move_cards", cardIds: ids, ...to }
+    );
+  }
 
-    setActiveCardId(null);
-    activeCardIdRef.current = null;
+  function setSelectionPoints(points: number) {
+    const ids = selection();
+    mutateAll(
+      ids.map((cardId) => ({
+        kind: "update_card",
+        cardId,
+        patch: { points },
+      })),
+      t("edit.setPoints", { count: ids.length, points })
+    );
+  }
 
-    if (!overId) return;
-    if (isColumnId(activeId, cur.columns)) return;
+  function addSelectionLabel(labelId: string) {
+    if (!board) return;
+    const label = (board.labels || []).find((l) => l.id === labelId);
+    const ids = selection().filter(
+      (id) => !board.cardsById[id].labelIds?.includes(labelId)
+    );
+    mutateAll(
+      ids.map((cardId) => ({
+        kind: "update_card",
+        cardId,
+        patch: {
+          labelIds: [...(board.cardsById[cardId].labelIds || []), labelId],
+        },
+      })),
+      t("edit.addedLabel", {
+        label: label?.name ?? labelId,
+        count: ids.length,
+      })
+    );
+  }
 
-    const snap = dragStartRef.current;
-    dragStartRef.current = null;
+  function deleteSelection() {
+    const ids = selection();
+    if (ids.length === 0) return;
+    if (!confirm(t("confirm.deleteCards", { count: ids.length }))) return;
+    mutateAll(
+      ids.map((cardId) => ({ kind: "delete_card", cardId })),
+      t("edit.deleted", { count: ids.length })
+    );
+    clearSelection();
+  }
 
-    setBoard((prev) => {
-      if (!prev) return prev;
+  // Esc drops the selection unless something else handles it first
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key !== "Escape" || e.defaultPrevented) return;
+      if (modalOpenRef.current || selectedIdsRef.current.length === 0) return;
+      clearSelection();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, []);
 
-      const activeCol = findContainerOf(
-        activeId,
-        prev.columnCardIds,
-        prev.columns
-      );
-      const overCol = findContainerOf(overId, prev.columnCardIds, prev.columns);
-      if (!activeCol || !overCol) return prev;
-
-      // reorder within same column
-      if (activeCol === overCol) {
-        const list = prev.columnCardIds[activeCol] || [];
-        const oldIndex = list.indexOf(activeId);
-        if (oldIndex === -1) return prev;
-
-        let newIndex = list.length - 1;
-        if (!isColumnId(overId, prev.columns)) {
-          const overIndex = list.indexOf(overId);
-          if (overIndex !== -1) newIndex = overIndex;
+  // Ctrl+K (Cmd on macOS) opens the command palette. With focus on a card or
+  // column header of the board:
+  //   arrows  move focus between cards and columns
+  //   Enter   open the focused card
+  //   n       new card in the focused column
+  //   e / m   edit / move the focused card
+  //   Delete  delete the focused card (asks first)
+  // Subscribed anew each render so the handlers see the current board.
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "k") {
+        if (modal.open && modal.mode !== "palette") return;
+        e.preventDefault();
+        setModal({ open: true, mode: "palette" });
+        return;
+      }
+      if (e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey) return;
+      if (props.view !== "board" || isTypingTarget(e.target)) return;
+      if (shortcutsPaused(modalOpenRef.current, activeCardIdRef.current)) {
+        return;
+      }
+      const spot = focusSpot(e.target);
+      if (!spot) return;
+      const el = e.target as HTMLElement;
+
+      if (isFocusArrow(e.key)) {
+        const next = arrowTarget(document, el, e.key);
+        if (next) {
+          e.preventDefault();
+          focusElement(next);
         }
-
-        if (oldIndex === newIndex) return prev;
-
-        const next = {
-          ...prev,
-          columnCardIds: {
-            ...prev.columnCardIds,
-            [activeCol]: arrayMove(list, oldIndex, newIndex),
-          },
-        };
-
-        // queue sync
-        if (snap) pendingMoveRef.current = activeId;
-        return next;
+        return;
+      }
+      if (e.key === "n") {
+        e.preventDefault();
+        setModal({ open: true, mode: "create_card", columnId: spot.columnId });
+        return;
+      }
+      const { cardId } = spot;
+      const card = cardId ? boardRef.current?.cardsById[cardId] : null;
+      if (!cardId || !card) return;
+      if (e.key === "Enter" && el.dataset.cardId === cardId) {
+        e.preventDefault();
+        openCard(cardId);
+      } else if (e.key === "e") {
+        e.preventDefault();
+        setModal({ open: true, mode: "edit_card", cardId });
+      } else if (e.key === "m") {
+        e.preventDefault();
+        setModal({ open: true, mode: "move_card", cardId });
+      } else if (e.key === "Delete" || e.key === "Backspace") {
+        e.preventDefault();
+        const title = card.title || t("card.untitled");
+        if (!confirm(t("confirm.deleteCard", { title }))) return;
+        // keep the keyboard on the board
+        const next =
+          arrowTarget(document, el, "ArrowDown") ??
+          arrowTarget(document, el, "ArrowUp");
+        deleteCard(cardId);
+        if (next) focusElement(next);
       }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  });
 
-      // moved across columns (already adjusted in onDragOver)
-      const next = prev;
-      if (snap) pendingMoveRef.current = activeId;
-      return next;
-    });
+  function setFilter(next: BoardFilter) {
+    setFilterState(next);
+    const { pathname, search } = window.location;
+    navigate(`${pathname}${filterToSearch(next, search)}`, { replace: true });
+  }
 
-    // Sync after state has been applied (next render)
-    // We trigger in an effect below.
+  function setSwimlaneKey(key: SwimlaneKey) {
+    setSwimlaneKeyState(key);
+    saveSwimlaneKey(key);
   }
 
-  // Effect to sync pending move
-  useEffect(() => {
-    const cardId = pendingMoveRef.current;
-    if (!cardId) return;
-    const snapshot = boardRef.current;
-    if (!snapshot) return;
-
-    // const snapStart = dragStartRef.current; // (already null) – ok
-
-    // reset marker immediately to avoid double-run
-    pendingMoveRef.current = null;
-
-    (async () => {
-      try {
-        await syncMoveCardFromSnapshot(snapshot, cardId);
-        await refresh(snapshot.boardId);
-      } catch (e: any) {
-        setErrMsg(e?.message || "Move sync failed");
-        await refresh(snapshot.boardId);
-      }
-    })();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [board]);
+  function toggleLane(laneId: string) {
+    const key = `${swimlaneKey}:${laneId}`;
+    setCollapsedLanes((cur) =>
+      cur.includes(key) ? cur.filter((k) => k !== key) : [...cur, key]
+    );
+  }
 
   if (!board) {
     return (
-      <div className="sb-root">
-        <style>{css}</style>
-
-        <div className="sb-header">
-          <div>
-            <div className="sb-title">Sprint Board</div>
-            <div className="sb-subtitle">API mode (Fastify + MongoDB)</div>
-          </div>
-
-          <div className="sb-actions">
-            <button
-              className="sb-btn sb-btn-ghost"
-              onClick={() => refresh(boardId)}
-              disabled={loading}
-            >
-              {loading ? "Loading..." : "Retry"}
-            </button>
-          </div>
-        </div>
-
-        <div className="sb-muted">
-          API Base: {getApiBase()}
-          <br />
-          sb_account_id: <span className="sb-mono">{accountId}</span>
-          <br />
-          sb_board_id: <span className="sb-mono">{boardId}</span>
-        </div>
-
-        {errMsg ? (
-          <div className="sb-alert">
-            {errMsg}
-            <div className="sb-muted" style={{ marginTop: 8 }}>
-              ถ้าได้ “Board not found” แปลว่า backend/Mongo ยังไม่มีบอร์ด id นี้
-            </div>
-          </div>
-        ) : null}
-      </div>
+      <NoBoardView
+        dataSource={dataSource.kind}
+        boardId={boardId}
+        accountId={session?.user.accountId ?? null}
+        loading={loading}
+        errMsg={errMsg}
+        onRetry={() => refresh(boardId)}
+      />
     );
   }
 
+  const sprints = board.sprints || [];
+  const labels = board.labels || [];
+  // a picked sprint may have been removed by a refresh
+  const viewValid =
+    sprintView === ALL_CARDS ||
+    sprintView === BACKLOG ||
+    sprints.some((s) => s.id === sprintView);
+  const view =
+    sprintView && viewValid
+      ? sprintView
+      : (activeSprint(board)?.id ?? ALL_CARDS);
+  const viewSprint: Sprint | null = sprints.find((s) => s.id === view) || null;
+  // display only: drag handlers keep working on the unfiltered lists
+  const inView = (colId: ColumnId) =>
+    (board.columnCardIds[colId] || []).filter((id) => {
+      const c = board.cardsById[id];
+      return c && inSprintView(c, view);
+    });
+  const filtering = isFilterActive(filter);
+  const visibleCardIds = (colId: ColumnId) =>
+    filtering
+      ? inView(colId).filter((id) => cardMatches(board.cardsById[id], filter))
+      : inView(colId);
+  const columns = sortedColumns(board.columns);
+  const columnIds = columns.map((c) => c.id);
+  const selected = selection();
+  // the other selected cards ride along with the dragged one
+  const groupDrag =
+    activeCardId !== null && selected.includes(activeCardId)
+      ? selected.length
+      : 0;
+
+  const cardListProps: CardListProps = {
+    cardsById: board.cardsById,
+    labels,
+    members,
+    doneColumnId: doneColumnId(board.columns),
+    query: filter.q,
+    syncStatusByCard,
+    selectedIds: selected,
+    groupDrag: groupDrag > 1,
+    onOpenCard: openCard,
+    onSelectCard: selectCard,
+    onEditCard: (cardId) => setModal({ open: true, mode: "edit_card", cardId }),
+    onRemoveCard: deleteCard,
+    onToggleTask: toggleCardTask,
+  };
+
+  // everything the command palette offers besides jumping to a card
+  const paletteCommands = (): PaletteCommand[] => {
+    const cmds: PaletteCommand[] = [
+      ...columns.map((col) => ({
+        id: `new-card:${col.id}`,
+        label: t("palette.newCard", { column: col.title }),
+        shortcut: "N",
+        run: () =>
+          setModal({ open: true, mode: "create_card", columnId: col.id }),
+      })),
+      {
+        id: "new-column",
+        label: t("palette.newColumn"),
+        run: () => setModal({ open: true, mode: "create_column" }),
+      },
+      {
+        id: "new-sprint",
+        label: t("palette.newSprint"),
+        run: () => setModal({ open: true, mode: "create_sprint" }),
+      },
+      {
+        id: "labels",
+        label: t("palette.labels"),
+        run: () => setModal({ open: true, mode: "labels" }),
+      },
+    ];
+    if (history.undo.length > 0) {
+      cmds.push({
+        id: "undo",
+        label: t("header.undo"),
+        shortcut: "Ctrl+Z",
+        run: undo,
+      });
+    }
+    if (history.redo.length > 0) {
+      cmds.push({
+        id: "redo",
+        label: t("header.redo"),
+        shortcut: "Ctrl+Shift+Z",
+        run: redo,
+      });
+    }
+    if (viewSprint?.state === "planned") {
+      cmds.push({
+        id: "start-sprint",
+        label: t("palette.startSprint", { sprint: viewSprint.name }),
+        run: () => updateSprint(viewSprint.id, { state: "active" }),
+      });
+    }
+    if (viewSprint?.state === "active") {
+      cmds.push({
+        id: "complete-sprint",
+        label: t("palette.completeSprint", { sprint: viewSprint.name }),
+        run: () =>
+          setModal({
+            open: true,
+            mode: "complete_sprint",
+            sprintId: viewSprint.id,
+          }),
+      });
+    }
+    cmds.push(
+      ...BOARD_VIEWS.filter((v) => v !== props.view).map((v) => ({
+        id: `view:${v}`,
+        label: t("palette.goTo", { view: t(VIEW_LABELS[v]) }),
+        run: () =>
+          navigate(boardPath(board.boardId, v) + window.location.search),
+      })),
+      {
+        id: "show:all",
+        label: t("palette.showAll"),
+        run: () => setSprintView(ALL_CARDS),
+      },
+      {
+        id: "show:backlog",
+        label: t("palette.showBacklog"),
+        run: () => setSprintView(BACKLOG),
+      },
+      ...sprints
+        .filter((sp) => sp.state !== "closed")
+        .map((sp) => ({
+          id: `show:${sp.id}`,
+          label: t("palette.showSprint", { sprint: sp.name }),
+          run: () => setSprintView(sp.id),
+        })),
+      ...SWIMLANE_KEYS.filter((k) => k !== swimlaneKey).map((k) => ({
+        id: `lanes:${k}`,
+        label: t(SWIMLANE_LABELS[k]),
+        run: () => setSwimlaneKey(k),
+      }))
+    );
+    if (filtering) {
+      cmds.push({
+        id: "clear-filters",
+        label: t("palette.clearFilters"),
+        run: () => setFilter(EMPTY_FILTER),
+      });
+    }
+    if (selected.length > 0) {
+      cmds.push({
+        id: "clear-selection",
+        label: t("palette.clearSelection"),
+        shortcut: "Esc",
+        run: clearSelection,
+      });
+    }
+    cmds.push(
+      {
+        id: "export-json",
+        label: t("palette.exportJson"),
+        run: () => downloadExport(board, "json"),
+      },
+      {
+        id: "export-csv",
+        label: t("palette.exportCsv"),
+        run: () => downloadExport(board, "csv"),
+      },
+      {
+        id: "import",
+        label: t("palette.import"),
+        run: () => setModal({ open: true, mode: "import" }),
+      },
+      {
+        id: "refresh",
+        label: t("palette.refresh"),
+        run: () => void refresh(board.boardId),
+      }
+    );
+    return cmds;
+  };
+
+  const columnHeaderProps = (col: Column): ColumnHeaderProps => ({
+    col,
+    columnsCount: board.columns.length,
+    usage: wipUsage(board, col.id),
+    onAddCard: () =>
+      setModal({ open: true, mode: "create_card", columnId: col.id }),
+    onRenameColumn: () =>
+      setModal({ open: true, mode: "rename_column", columnId: col.id }),
+    onEditLimit: () =>
+      setModal({ open: true, mode: "column_limit", columnId: col.id }),
+    onDeleteColumnMoveCards: () => {
+      if (confirm(t("confirm.deleteColumnMove", { column: col.title }))) {
+        deleteColumn(col.id, "move_cards");
+      }
+    },
+    onDeleteColumnAndCards: () => {
+      if (confirm(t("confirm.deleteColumnCards", { column: col.title }))) {
+        deleteColumn(col.id, "delete_cards");
+      }
+    },
+  });
+  const inViewCount = columnIds.reduce((n, id) => n + inView(id).length, 0);
+  const shownCount = columnIds.reduce(
+    (n, id) => n + visibleCardIds(id).length,
+    0
+  );
+
   return (
     <div className="sb-root">
-      <style>{css}</style>
-
-      <div className="sb-header">
-        <div>
-          <div className="sb-title">{board.name || "Sprint Board"}</div>
-          <div className="sb-subtitle">
-            Board: <span className="sb-mono">{board.boardId}</span> · v
-            {board.version}
-            {loading ? " · syncing..." : ""}
-          </div>
-        </div>
-
-        <div className="sb-actions">
-          <button
-            className="sb-btn"
-            onClick={() => setModal({ open: true, mode: "create_column" })}
-          >
-            + Column
-          </button>
-
-          <button
-            className="sb-btn sb-btn-ghost"
-            onClick={() => refresh(board.boardId)}
-            disabled={loading}
-          >
-            Refresh
-          </button>
-        </div>
-      </div>
+      <BoardHeader
+        board={board}
+        view={props.view}
+        dataSource={dataSource.kind}
+        loading={loading}
+        offline={offline}
+        liveStatus={liveStatus}
+        pendingCount={pendingCount}
+        failedCount={failedCount}
+        conflict={conflictEntry !== null}
+        canUndo={history.undo.length > 0}
+        canRedo={history.redo.length > 0}
+        filter={filter}
+        shownCount={shownCount}
+        inViewCount={inViewCount}
+        members={members}
+        onFilterChange={setFilter}
+        sprintView={view}
+        onSprintView={setSprintView}
+        swimlaneKey={swimlaneKey}
+        onSwimlaneKey={setSwimlaneKey}
+        onUndo={undo}
+        onRedo={redo}
+        onRetryFailed={retryFailed}
+        onDiscardFailed={discardFailed}
+        onAddSprint={() => setModal({ open: true, mode: "create_sprint" })}
+        onLabels={() => setModal({ open: true, mode: "labels" })}
+        onAddColumn={() => setModal({ open: true, mode: "create_column" })}
+        onRefresh={() => refresh(board.boardId)}
+        onPalette={() => setModal({ open: true, mode: "palette" })}
+        onImport={() => setModal({ open: true, mode: "import" })}
+      />
+
+      {props.view === "board" && viewSprint ? (
+        <SprintBar
+          board={board}
+          sprint={viewSprint}
+          onEdit={() =>
+            setModal({
+              open: true,
+              mode: "edit_sprint",
+              sprintId: viewSprint.id,
+            })
+          }
+          onStart={() => updateSprint(viewSprint.id, { state: "active" })}
+          onComplete={() =>
+            setModal({
+              open: true,
+              mode: "complete_sprint",
+              sprintId: viewSprint.id,
+            })
+          }
+        />
+      ) : null}
 
       {errMsg ? <div className="sb-alert">{errMsg}</div> : null}
 
-      <DndContext
-        sensors={sensors}
-        collisionDetection={closestCorners}
-        onDragStart={handleDragStart}
-        onDragOver={handleDragOver}
-        onDragEnd={handleDragEnd}
-      >
-        <div className="sb-board">
-          {board.columns
-            .slice()
-            .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
-            .map((col) => (
-              <ColumnView
-                key={col.id}
-                col={col}
-                columnsCount={board.columns.length}
-                cardIds={board.columnCardIds[col.id] || []}
-                cardsById={board.cardsById}
-                onAddCard={() =>
-                  setModal({
-                    open: true,
-                    mode: "create_card",
-                    columnId: col.id,
-                  })
-                }
-                onEditCard={(cardId) =>
-                  setModal({ open: true, mode: "edit_card", cardId })
-                }
-                onRemoveCard={deleteCard}
-                onRenameColumn={() =>
-                  setModal({
-                    open: true,
-                    mode: "rename_column",
-                    columnId: col.id,
-                  })
-                }
-                onDeleteColumnMoveCards={() => {
-                  if (
-                    confirm(
-                      "Delete this column? Cards will be moved to the first column."
-                    )
-                  ) {
-                    deleteColumn(col.id, "move_cards");
-                  }
-                }}
-                onDeleteColumnAndCards={() => {
-                  if (confirm("Delete this column AND all cards in it?")) {
-                    deleteColumn(col.id, "delete_cards");
-                  }
-                }}
-              />
-            ))}
-        </div>
-
-        {activeCard ? (
-          <div className="sb-drag-overlay" aria-hidden>
-            <div className="sb-card sb-card-overlay">
-              <div className="sb-card-top">
-                <div className="sb-card-title">
-                  {activeCard.title || "(Untitled)"}
+      {offline ? (
+        <div className="sb-alert">{t("header.offlineAlert")}</div>
+      ) : null}
+
+      {props.view === "backlog" ? (
+        <BacklogView
+          board={board}
+          onRank={rankCard}
+          onSetSprint={(cardId, sprintId) => updateCard(cardId, { sprintId })}
+          onSetCapacity={(sprintId, capacity) =>
+            updateSprint(sprintId, { capacity })
+          }
+          onOpen={openCard}
+        />
+      ) : null}
+
+      {props.view === "reports" ? <ReportsView board={board} /> : null}
+
+      {props.view === "board" && selected.length > 0 ? (
+        <BulkBar
+          count={selected.length}
+          columns={columns}
+          labels={labels}
+          onMove={moveSelection}
+          onSetPoints={setSelectionPoints}
+          onAddLabel={addSelectionLabel}
+          onDelete={deleteSelection}
+          onClear={clearSelection}
+        />
+      ) : null}
+
+      {props.view === "board" ? (
+        <DndContext {...contextProps}>
+          <SortableContext
+            items={columns.map((c) => COLUMN_DRAG_PREFIX + c.id)}
+            strategy={horizontalListSortingStrategy}
+          >
+            <div
+              className="sb-board"
+              style={{
+                gridTemplateColumns: `repeat(${columns.length}, minmax(260px, 1fr))`,
+              }}
+            >
+              {columns.map((col) =>
+                swimlaneKey === "none" ? (
+                  <ColumnView
+                    key={col.id}
+                    {...cardListProps}
+                    {...columnHeaderProps(col)}
+                    cardIds={visibleCardIds(col.id)}
+                    filtered={filtering}
+                  />
+                ) : (
+                  <SwimlaneHeader key={col.id} {...columnHeaderProps(col)} />
+                )
+              )}
+            </div>
+            {swimlaneKey !== "none"
+              ? boardLanes(board, swimlaneKey, members).map((lane) => (
+                  <SwimlaneRow
+                    key={lane.id}
+                    {...cardListProps}
+                    lane={lane}
+                    columns={columns}
+                    cardIdsByColumn={Object.fromEntries(
+                      columns.map((c) => [
+                        c.id,
+                        visibleCardIds(c.id).filter(
+                          (id) =>
+                            laneOf(board, board.cardsById[id], swimlaneKey) ===
+                            lane.id
+                        ),
+                      ])
+                    )}
+                    collapsed={collapsedLanes.includes(
+                      `${swimlaneKey}:${lane.id}`
+                    )}
+                    onToggle={() => toggleLane(lane.id)}
+                  />
+                ))
+              : null}
+          </SortableContext>
+
+          {activeCard ? (
+            <div className="sb-drag-overlay" aria-hidden>
+              <div className="sb-card sb-card-overlay">
+                <div className="sb-card-top">
+                  <div className="sb-card-title">
+                    {activeCard.title || t("card.untitled")}
+                  </div>
+                  <div className="sb-pill">
+                    {formatPoints(activeCard.points)}
+                  </div>
                 </div>
-                <div className="sb-pill">{activeCard.points} pt</div>
+                {groupDrag > 1 ? (
+                  <div className="sb-drag-count">
+                    {t("card.more", { count: groupDrag - 1 })}
+                  </div>
+                ) : null}
+                {activeCard.description ? (
+                  <div className="sb-card-desc">
+                    <Markdown text={activeCard.description} />
+                  </div>
+                ) : (
+                  <div className="sb-card-desc sb-muted">
+                    {t("card.noDescription")}
+                  </div>
+                )}
               </div>
-              {activeCard.description ? (
-                <div className="sb-card-desc">{activeCard.description}</div>
-              ) : (
-                <div className="sb-card-desc sb-muted">No description</div>
-              )}
             </div>
-          </div>
-        ) : null}
-      </DndContext>
+          ) : null}
+        </DndContext>
+      ) : null}
+
+      {props.view === "board" && props.cardId ? (
+        <CardDrawer
+          key={props.cardId}
+          board={board}
+          cardId={props.cardId}
+          members={members}
+          dataSource={dataSource}
+          onClose={closeCard}
+          onEdit={() =>
+            setModal({ open: true, mode: "edit_card", cardId: props.cardId! })
+          }
+          onToggleTask={(index) => toggleCardTask(props.cardId!, index)}
+        />
+      ) : null}
+
+      {toast ? (
+        <UndoToast
+          message={toast.message}
+          actionLabel={
+            toast.action === "undo" ? t("header.undo") : t("header.redo")
+          }
+          onAction={() => {
+            setToast(null);
+            if (toast.action === "undo") undo();
+            else redo();
+          }}
+          onClose={() => setToast(null)}
+        />
+      ) : null}
 
       {/* Modals */}
+      {conflictEntry && serverBoard ? (
+        <ConflictDialog
+          key={conflictEntry.id}
+          mutation={conflictEntry.mutation}
+          server={serverBoard}
+          local={board}
+          onKeepMine={() =>
+            resolveConflict(conflictEntry.id, conflictEntry.mutation)
+          }
+          onTakeTheirs={() => resolveConflict(conflictEntry.id, null)}
+          onMerge={(keepMine) =>
+            resolveConflict(
+              conflictEntry.id,
+              mergeMutation(conflictEntry.mutation, keepMine)
+            )
+          }
+        />
+      ) : null}
+
       {modal.open && modal.mode === "create_column" && (
         <ColumnModal
-          title="Create Column"
+          title={t("columnModal.create")}
           initialValue=""
           onClose={() => setModal({ open: false })}
           onSubmit={(name) => {
@@ -696,7 +1104,8 @@ export default function SprintBoardApi() {
 
       {modal.open && modal.mode === "rename_column" && (
         <ColumnModal
-          title="Rename Column"
+          key={modal.columnId}
+          title={t("columnModal.rename")}
           initialValue={
             board.columns.find((c) => c.id === modal.columnId)?.title ?? ""
           }
@@ -708,10 +1117,26 @@ export default function SprintBoardApi() {
         />
       )}
 
+      {modal.open && modal.mode === "column_limit" && (
+        <WipLimitModal
+          column={board.columns.find((c) => c.id === modal.columnId)}
+          onClose={() => setModal({ open: false })}
+          onSubmit={(limit) => {
+            setColumnLimit(modal.columnId, limit);
+            setModal({ open: false });
+          }}
+        />
+      )}
+
       {modal.open && modal.mode === "create_card" && (
         <CardModal
           mode="create"
           card={null}
+          sprints={sprints}
+          labels={labels}
+          members={members}
+          epics={epicCandidates(board, null)}
+          defaultSprintId={viewSprint?.id ?? null}
           onClose={() => setModal({ open: false })}
           onSubmit={(data) => {
             createCard(modal.columnId, data);
@@ -722,8 +1147,14 @@ export default function SprintBoardApi() {
 
       {modal.open && modal.mode === "edit_card" && (
         <CardModal
+          key={modal.cardId}
           mode="edit"
           card={board.cardsById[modal.cardId]}
+          sprints={sprints}
+          labels={labels}
+          members={members}
+          epics={epicCandidates(board, modal.cardId)}
+          defaultSprintId={null}
           onClose={() => setModal({ open: false })}
           onSubmit={(data) => {
             updateCard(modal.cardId, data);
@@ -731,345 +1162,86 @@ export default function SprintBoardApi() {
           }}
         />
       )}
-    </div>
-  );
-}
 
-// ---------- UI Components ----------
-function ColumnView(props: {
-  col: Column;
-  columnsCount: number;
-  cardIds: string[];
-  cardsById: Record<string, Card>;
-  onAddCard: () => void;
-  onEditCard: (cardId: string) => void;
-  onRemoveCard: (cardId: string) => void;
-  onRenameColumn: () => void;
-  onDeleteColumnMoveCards: () => void;
-  onDeleteColumnAndCards: () => void;
-}) {
-  const { setNodeRef, isOver } = useDroppable({ id: props.col.id });
-
-  return (
-    <div className="sb-col">
-      <div className="sb-col-header">
-        <div className="sb-col-title">{props.col.title}</div>
-
-        <div className="sb-col-tools">
-          <button className="sb-btn sb-btn-mini" onClick={props.onAddCard}>
-            + Add
-          </button>
-
-          <details className="sb-menu">
-            <summary className="sb-menu-btn" title="Column menu">
-              ⋯
-            </summary>
-            <div className="sb-menu-pop">
-              <button className="sb-menu-item" onClick={props.onRenameColumn}>
-                Rename
-              </button>
-
-              <div className="sb-menu-sep" />
-
-              <button
-                className="sb-menu-item"
-                onClick={props.onDeleteColumnMoveCards}
-                disabled={props.columnsCount <= 1}
-                title={
-                  props.columnsCount <= 1 ? "Cannot delete the last column" : ""
-                }
-              >
-                Delete (move cards)
-              </button>
-
-              <button
-                className="sb-menu-item sb-danger"
-                onClick={props.onDeleteColumnAndCards}
-                disabled={props.columnsCount <= 1}
-                title={
-                  props.columnsCount <= 1 ? "Cannot delete the last column" : ""
-                }
-              >
-                Delete + cards
-              </button>
-            </div>
-          </details>
-        </div>
-      </div>
-
-      <SortableContext
-        items={props.cardIds}
-        strategy={verticalListSortingStrategy}
-      >
-        <div
-          ref={setNodeRef}
-          className={`sb-col-body ${isOver ? "sb-col-over" : ""}`}
-        >
-          {props.cardIds.length === 0 ? (
-            <div className="sb-empty">Drop cards here</div>
-          ) : null}
-
-          {props.cardIds.map((cardId) => (
-            <SortableCard
-              key={cardId}
-              card={props.cardsById[cardId]}
-              onEdit={() => props.onEditCard(cardId)}
-              onRemove={() => props.onRemoveCard(cardId)}
-            />
-          ))}
-        </div>
-      </SortableContext>
-    </div>
-  );
-}
-
-function SortableCard(props: {
-  card: Card;
-  onEdit: () => void;
-  onRemove: () => void;
-}) {
-  const {
-    attributes,
-    listeners,
-    setNodeRef,
-    transform,
-    transition,
-    isDragging,
-  } = useSortable({
-    id: props.card.id,
-  });
-
-  const style: React.CSSProperties = {
-    transform: CSS.Transform.toString(transform),
-    transition,
-    opacity: isDragging ? 0.6 : 1,
-  };
-
-  return (
-    <div ref={setNodeRef} style={style} className="sb-card">
-      <div className="sb-card-top">
-        <div className="sb-card-title">{props.card.title || "(Untitled)"}</div>
-        <div className="sb-pill">{props.card.points} pt</div>
-      </div>
-
-      {props.card.description ? (
-        <div className="sb-card-desc">{props.card.description}</div>
-      ) : (
-        <div className="sb-card-desc sb-muted">No description</div>
+      {modal.open && modal.mode === "move_card" && (
+        <MoveCardModal
+          card={board.cardsById[modal.cardId]}
+          columns={columns}
+          onClose={() => setModal({ open: false })}
+          onSubmit={(columnId) => {
+            setModal({ open: false });
+            moveCardsTo([modal.cardId], columnId);
+          }}
+        />
       )}
 
-      <div className="sb-card-actions">
-        <button
-          className="sb-btn sb-btn-mini sb-btn-ghost"
-          onClick={props.onEdit}
-        >
-          Edit
-        </button>
-        <button
-          className="sb-btn sb-btn-mini sb-btn-danger"
-          onClick={props.onRemove}
-        >
-          Delete
-        </button>
-        <div className="sb-spacer" />
-        <button
-          className="sb-handle"
-          {...attributes}
-          {...listeners}
-          title="Drag"
-        >
-          ⠿
-        </button>
-      </div>
-    </div>
-  );
-}
-
-function CardModal(props: {
-  mode: "create" | "edit";
-  card: Card | null;
-  onClose: () => void;
-  onSubmit: (data: {
-    title: string;
-    description: string;
-    points: number;
-  }) => void;
-}) {
-  const [title, setTitle] = useState(props.card?.title ?? "");
-  const [description, setDescription] = useState(props.card?.description ?? "");
-  const [points, setPoints] = useState(props.card?.points ?? 1);
+      {modal.open && modal.mode === "palette" && (
+        <CommandPalette
+          commands={paletteCommands()}
+          cards={inBoardOrder(board, Object.keys(board.cardsById)).map(
+            (id) => board.cardsById[id]
+          )}
+          onOpenCard={openCard}
+          onClose={() => setModal({ open: false })}
+        />
+      )}
 
-  useEffect(() => {
-    setTitle(props.card?.title ?? "");
-    setDescription(props.card?.description ?? "");
-    setPoints(props.card?.points ?? 1);
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [props.card?.id, props.mode]);
+      {modal.open && modal.mode === "create_sprint" && (
+        <SprintModal
+          sprint={null}
+          onClose={() => setModal({ open: false })}
+          onSubmit={(data) => {
+            createSprint(data);
+            setModal({ open: false });
+          }}
+        />
+      )}
 
-  return (
-    <div
-      className="sb-modal-backdrop"
-      onMouseDown={(e) => e.target === e.currentTarget && props.onClose()}
-      role="dialog"
-      aria-modal="true"
-    >
-      <div className="sb-modal">
-        <div className="sb-modal-title">
-          {props.mode === "create" ? "Create Card" : "Edit Card"}
-        </div>
-
-        <label className="sb-label">
-          Title
-          <input
-            className="sb-input"
-            value={title}
-            onChange={(e) => setTitle(e.target.value)}
-            autoFocus
-          />
-        </label>
-
-        <label className="sb-label">
-          Description
-          <textarea
-            className="sb-input sb-textarea"
-            value={description}
-            onChange={(e) => setDescription(e.target.value)}
-          />
-        </label>
-
-        <label className="sb-label">
-          Points
-          <input
-            className="sb-input"
-            type="number"
-            min={0}
-            step={1}
-            value={points}
-            onChange={(e) => setPoints(Number(e.target.value))}
-          />
-        </label>
-
-        <div className="sb-modal-actions">
-          <button className="sb-btn sb-btn-ghost" onClick={props.onClose}>
-            Cancel
-          </button>
-          <button
-            className="sb-btn"
-            onClick={() =>
-              props.onSubmit({
-                title: title.trim(),
-                description: description.trim(),
-                points: Number.isFinite(points) ? points : 0,
-              })
-            }
-          >
-            {props.mode === "create" ? "Create" : "Save"}
-          </button>
-        </div>
-      </div>
-    </div>
-  );
-}
+      {modal.open && modal.mode === "edit_sprint" && (
+        <SprintModal
+          sprint={sprints.find((s) => s.id === modal.sprintId) ?? null}
+          onClose={() => setModal({ open: false })}
+          onSubmit={(data) => {
+            updateSprint(modal.sprintId, data);
+            setModal({ open: false });
+          }}
+        />
+      )}
 
-function ColumnModal(props: {
-  title: string;
-  initialValue: string;
-  onClose: () => void;
-  onSubmit: (name: string) => void;
-}) {
-  const [name, setName] = useState(props.initialValue);
+      {modal.open && modal.mode === "labels" && (
+        <LabelManager
+          labels={labels}
+          onCreate={createLabel}
+          onUpdate={updateLabel}
+          onDelete={deleteLabel}
+          onClose={() => setModal({ open: false })}
+        />
+      )}
 
-  useEffect(() => setName(props.initialValue), [props.initialValue]);
+      {modal.open && modal.mode === "import" && (
+        <ImportWizard
+          board={board}
+          onClose={() => setModal({ open: false })}
+          onImport={(plan) => {
+            importPlan(plan);
+            setModal({ open: false });
+          }}
+        />
+      )}
 
-  return (
-    <div
-      className="sb-modal-backdrop"
-      onMouseDown={(e) => e.target === e.currentTarget && props.onClose()}
-      role="dialog"
-      aria-modal="true"
-    >
-      <div className="sb-modal">
-        <div className="sb-modal-title">{props.title}</div>
-
-        <label className="sb-label">
-          Column name
-          <input
-            className="sb-input"
-            value={name}
-            onChange={(e) => setName(e.target.value)}
-            autoFocus
+      {modal.open &&
+        modal.mode === "complete_sprint" &&
+        viewSprint?.id === modal.sprintId && (
+          <CompleteSprintModal
+            board={board}
+            sprint={viewSprint}
+            onClose={() => setModal({ open: false })}
+            onSubmit={(moveTo) => {
+              completeSprint(modal.sprintId, moveTo);
+              setModal({ open: false });
+            }}
           />
-        </label>
-
-        <div className="sb-modal-actions">
-          <button className="sb-btn sb-btn-ghost" onClick={props.onClose}>
-            Cancel
-          </button>
-          <button className="sb-btn" onClick={() => props.onSubmit(name)}>
-            Save
-          </button>
-        </div>
-      </div>
+        )}
     </div>
   );
 }
-
-const css = `
-.sb-root{font-family: ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Arial; padding:18px; color:#0f172a; background:#f8fafc; min-height:100vh;}
-.sb-header{display:flex; align-items:flex-end; justify-content:space-between; gap:12px; margin-bottom:14px;}
-.sb-title{font-size:22px; font-weight:800;}
-.sb-subtitle{font-size:13px; color:#64748b; margin-top:4px;}
-.sb-actions{display:flex; gap:8px; align-items:center;}
-.sb-board{display:grid; grid-template-columns: repeat(3, minmax(260px, 1fr)); gap:14px; align-items:start;}
-
-.sb-col{background:#fff; border:1px solid #e2e8f0; border-radius:14px; box-shadow:0 1px 0 rgba(15,23,42,0.03); overflow:visible;}
-.sb-col-header{display:flex; align-items:center; justify-content:space-between; padding:12px 12px 10px; border-bottom:1px solid #eef2f7; background:#fbfdff;}
-.sb-col-title{font-weight:800;}
-.sb-col-tools{display:flex; gap:8px; align-items:center;}
-.sb-col-body{padding:12px; min-height:260px; display:flex; flex-direction:column; gap:10px;}
-.sb-col-over{background:#f1f5f9;}
-.sb-empty{border:1px dashed #cbd5e1; border-radius:12px; padding:12px; color:#94a3b8; text-align:center; background:#f8fafc;}
-
-.sb-card{background:#fff; border:1px solid #e2e8f0; border-radius:14px; padding:10px 10px 8px; box-shadow:0 1px 0 rgba(15,23,42,0.03);}
-.sb-card-top{display:flex; align-items:flex-start; justify-content:space-between; gap:8px;}
-.sb-card-title{font-weight:800; font-size:14px; line-height:1.25;}
-.sb-card-desc{margin-top:6px; font-size:12.5px; color:#334155; white-space:pre-wrap; word-break:break-word;}
-.sb-muted{color:#94a3b8;}
-.sb-card-actions{margin-top:10px; display:flex; gap:8px; align-items:center;}
-.sb-spacer{flex:1;}
-.sb-handle{cursor:grab; border:1px solid #e2e8f0; background:#f8fafc; border-radius:10px; padding:6px 10px; font-size:14px;}
-.sb-handle:active{cursor:grabbing;}
-.sb-pill{font-size:12px; background:#f1f5f9; border:1px solid #e2e8f0; color:#0f172a; padding:2px 8px; border-radius:999px; white-space:nowrap;}
-
-.sb-btn{border:1px solid #0f172a; background:#0f172a; color:#fff; border-radius:12px; padding:10px 12px; font-weight:700; font-size:13px; cursor:pointer;}
-.sb-btn:hover{filter:brightness(1.06);}
-.sb-btn:active{transform:translateY(1px);}
-.sb-btn-ghost{background:#fff; color:#0f172a; border-color:#cbd5e1;}
-.sb-btn-mini{padding:6px 10px; font-size:12px; border-radius:10px;}
-.sb-btn-danger{background:#fff1f2; color:#9f1239; border-color:#fecdd3;}
-
-.sb-modal-backdrop{position:fixed; inset:0; background:rgba(15,23,42,0.42); display:flex; align-items:center; justify-content:center; padding:16px; z-index:1000;}
-.sb-modal{width:min(520px, 100%); background:#fff; border-radius:16px; border:1px solid #e2e8f0; padding:14px; box-shadow:0 12px 40px rgba(15,23,42,0.18);}
-.sb-modal-title{font-weight:900; font-size:16px; margin-bottom:10px;}
-.sb-label{display:flex; flex-direction:column; gap:6px; font-size:12px; color:#334155; margin-top:10px;}
-.sb-input{border:1px solid #cbd5e1; border-radius:12px; padding:10px 12px; font-size:13px; outline:none; background:#fff;}
-.sb-input:focus{border-color:#0f172a; box-shadow:0 0 0 3px rgba(15,23,42,0.08);}
-.sb-textarea{min-height:90px; resize:vertical;}
-.sb-modal-actions{display:flex; justify-content:flex-end; gap:10px; margin-top:14px;}
-
-.sb-drag-overlay{position:fixed; pointer-events:none; left:18px; bottom:18px; z-index:1200; width:min(360px, calc(100vw - 36px));}
-.sb-card-overlay{box-shadow:0 14px 50px rgba(15,23,42,0.25); border-color:#0f172a22;}
-
-.sb-menu{position:relative;}
-.sb-menu-btn{list-style:none; cursor:pointer; border:1px solid #cbd5e1; background:#fff; border-radius:10px; padding:6px 10px; font-weight:900; line-height:1;}
-.sb-menu[open] .sb-menu-btn{border-color:#0f172a; box-shadow:0 0 0 3px rgba(15,23,42,0.08);}
-.sb-menu-pop{position:absolute; right:0; margin-top:8px; background:#fff; border:1px solid #e2e8f0; border-radius:12px; box-shadow:0 12px 40px rgba(15,23,42,0.12); padding:6px; min-width:180px; z-index:10;}
-.sb-menu-item{width:100%; text-align:left; border:none; background:transparent; padding:8px 10px; border-radius:10px; cursor:pointer; font-weight:700;}
-.sb-menu-item:hover{background:#f1f5f9;}
-.sb-menu-item:disabled{opacity:0.5; cursor:not-allowed;}
-.sb-danger{color:#9f1239;}
-.sb-menu-sep{height:1px; background:#eef2f7; margin:6px 0;}
-
-.sb-alert{background:#fff7ed; border:1px solid #fed7aa; color:#9a3412; padding:10px 12px; border-radius:12px; margin:10px 0 14px;}
-.sb-mono{font-family: ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace;}
-`;
@@ -0,0 +1,18 @@
+/// <reference types="vite/client" />
+
+// build-time settings read by lib/config.ts; /config.json can override them
+interface ImportMetaEnv {
+  readonly VITE_API_BASE_LOCAL?: string;
+  readonly VITE_API_BASE_STAGING?: string;
+  readonly VITE_API_BASE_PROD?: string;
+  // profile used until one is picked on the settings page
+  readonly VITE_ENV_PROFILE?: string;
+  readonly VITE_DEFAULT_BOARD_ID?: string;
+  readonly VITE_OIDC_ISSUER?: string;
+  readonly VITE_OIDC_CLIENT_ID?: string;
+  readonly VITE_OIDC_SCOPE?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}